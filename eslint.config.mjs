@@ -31,6 +31,8 @@ export default [
         clearTimeout: 'readonly',
         setInterval: 'readonly',
         clearInterval: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
         NodeJS: 'readonly',
         // Mocha globals
         suite: 'readonly',
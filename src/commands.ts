@@ -5,7 +5,31 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { managersContainer } from './managers/ManagersContainer';
 import { generateLectureFolderName, isValidFolderName, validateCourseName } from './utils/translit';
-import { AVAILABLE_MODULES, DEFAULT_MODULES } from './constants';
+import {
+  AVAILABLE_MODULES,
+  DEFAULT_MODULES,
+  LECTURE_TEMPLATES_DIR,
+  SLIMAN_SCHEMA_VERSION,
+  SLIDES_SCHEMA_REF,
+  SLIMAN_STATE_DIR,
+} from './constants';
+import { formatBuildReportTable, summarizeBuildReport } from './utils/buildReport';
+import { EXPORT_FORMAT_LABELS, isValidSlideRange } from './utils/exports';
+import { isLectureItem } from './providers/CourseExplorerDataProvider';
+import { PortalManager } from './managers/PortalManager';
+import { isMonorepoFolder } from './utils/courseRoots';
+import { resolveOutputDirName } from './utils/outputLayout';
+import type { LectureManager } from './managers/LectureManager';
+import type {
+  BuildStep,
+  CourseBuildReport,
+  CourseProblem,
+  CourseTreeItem,
+  ExportFormat,
+  ExportOptions,
+  LectureTemplate,
+} from './types';
+import { isBuildError } from './types';
 
 let outputChannel: vscode.OutputChannel | null = null;
 let extensionPath: string = '';
@@ -20,6 +44,56 @@ export function initializeCommands(channel: vscode.OutputChannel, extPath: strin
   extensionPath = extPath;
 }
 
+/**
+ * Reports that a command needs a course. Offers the next step: open a folder
+ * (empty window) or create a course (folder without sliman.json).
+ * @param channel - Output channel for logging
+ * @param logPrefix - Log prefix of the command (e.g. '[ADD]')
+ */
+function reportNoCourse(channel: vscode.OutputChannel, logPrefix?: string): void {
+  const prefix = logPrefix ? `${logPrefix} ` : '';
+
+  if (!vscode.workspace.workspaceFolders?.length) {
+    channel.appendLine(`${prefix}✗ No folder is open`);
+    void vscode.window.showWarningMessage('No folder is open. Open a course folder (with sliman.json) first', 'Open Folder').then((choice) => {
+      if (choice === 'Open Folder') {
+        void vscode.commands.executeCommand('vscode.openFolder');
+      }
+    });
+    return;
+  }
+
+  channel.appendLine(`${prefix}✗ No course found (sliman.json is missing)`);
+  void vscode.window.showWarningMessage('No course found in this workspace: sliman.json is missing', 'Create Course').then((choice) => {
+    if (choice === 'Create Course') {
+      void vscode.commands.executeCommand('sliman.createCourse');
+    }
+  });
+}
+
+/**
+ * Selects the course a command works on: the given course root, or — with several courses
+ * open and no root given — the course picked in a QuickPick (never the remembered active course).
+ * @param courseUri - Course root (passed from Tree View or another command)
+ * @returns False if the user dismissed the course picker
+ */
+async function selectCommandCourse(courseUri?: vscode.Uri): Promise<boolean> {
+  const courses = managersContainer.courses;
+  if (managersContainer.selectCourse(courseUri) || courses.length < 2) {
+    return true;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    courses.map((course) => ({
+      label: path.basename(course.root.fsPath),
+      description: vscode.workspace.asRelativePath(course.root),
+      root: course.root,
+    })),
+    { placeHolder: 'Select the course' }
+  );
+  return picked ? managersContainer.selectCourse(picked.root) : false;
+}
+
 /**
  * Command: sliman.createCourse
  * Creates a new course structure with sliman.json (course_name) and {course_name}/slides.json (slides)
@@ -121,31 +195,29 @@ export async function createCourse(): Promise<void> {
     // Step 4: Create course structure
     channel.appendLine('[CREATE] Creating course structure...');
 
-    // Create sliman.json in course root with course_name and deployRoot
-    const slimanContent = JSON.stringify({ course_name: courseName, deployRoot }, null, 2);
+    // Create sliman.json in course root with schemaVersion, course_name and deployRoot
+    const slimanContent = JSON.stringify({ schemaVersion: SLIMAN_SCHEMA_VERSION, course_name: courseName, deployRoot }, null, 2);
     const slimanPath = path.join(coursePath, 'sliman.json');
     await fs.writeFile(slimanPath, slimanContent);
     channel.appendLine(`[CREATE] ✓ Created file: ${slimanPath}`);
 
+    // Create slides.json (lecture list) in course root; builds copy it to the output directory
+    const slidesContent = JSON.stringify({ $schema: SLIDES_SCHEMA_REF, slides: [] }, null, 2);
+    const slidesJsonPath = path.join(coursePath, 'slides.json');
+    await fs.writeFile(slidesJsonPath, slidesContent);
+    channel.appendLine(`[CREATE] ✓ Created file: ${slidesJsonPath}`);
+
     // Create slides/ directory
     const slidesDir = path.join(coursePath, 'slides');
     await fs.mkdir(slidesDir, { recursive: true });
     channel.appendLine(`[CREATE] ✓ Created directory: ${slidesDir}`);
 
-    // Create {courseName}/ directory for built course
-    const courseDir = path.join(coursePath, courseName);
-    await fs.mkdir(courseDir, { recursive: true });
-    channel.appendLine(`[CREATE] ✓ Created directory: ${courseDir}`);
-
-    // Create slides.json and index.html in appropriate directory
+    // Create the output directory with index.html
     // - deployRoot: false → {courseName}/
     // - deployRoot: true  → built/
-    const outputDir = deployRoot ? path.join(coursePath, 'built') : courseDir;
-    const slidesContent = JSON.stringify({ slides: [] }, null, 2);
-    const slidesJsonPath = path.join(outputDir, 'slides.json');
+    const outputDir = path.join(coursePath, resolveOutputDirName(courseName, deployRoot));
     await fs.mkdir(outputDir, { recursive: true });
-    await fs.writeFile(slidesJsonPath, slidesContent);
-    channel.appendLine(`[CREATE] ✓ Created file: ${slidesJsonPath}`);
+    channel.appendLine(`[CREATE] ✓ Created directory: ${outputDir}`);
 
     // Copy index.html template to output directory
     const templateIndexPath = path.join(extensionPath, 'template', 'index.html');
@@ -198,7 +270,9 @@ export async function createCourse(): Promise<void> {
     channel.appendLine(`[CREATE] ✓ Course "${courseName}" created successfully with ${deployMode}!`);
     void vscode.window.showInformationMessage(`Course "${courseName}" created with ${deployMode}!`);
 
-    // Refresh Course Explorer tree view
+    // Register the course managers and refresh Course Explorer tree view
+    await managersContainer.syncWorkspaceFolders();
+    managersContainer.selectCourse(selectedFolder.uri);
     managersContainer.refreshCourseExplorer();
 
   } catch (error) {
@@ -223,27 +297,26 @@ export async function scanCourse(): Promise<void> {
 
   const courseManager = managersContainer.courseManager;
   if (!courseManager) {
-    channel.appendLine('[SCAN] ✗ CourseManager not initialized');
-    void vscode.window.showErrorMessage('CourseManager not initialized');
+    reportNoCourse(channel, '[SCAN]');
     return;
   }
 
   const isRoot = await courseManager.isCourseRoot();
   channel.appendLine(`[SCAN] Is course root: ${isRoot}`);
 
-  if (isRoot) {
-    const courseName = await courseManager.readCourseName();
-    channel.appendLine(`[SCAN] Course name: ${courseName ?? 'N/A'}`);
-
-    const lectures = await courseManager.getLectureDirectories();
-    channel.appendLine(`[SCAN] Lectures found: ${lectures.length}`);
-    lectures.forEach((name) => channel.appendLine(`[SCAN]   - ${name}`));
-    channel.appendLine('[SCAN] ✓ Scan completed successfully');
-  } else {
-    channel.appendLine('[SCAN] ✗ Workspace is not a valid course root (sliman.json not found)');
-    void vscode.window.showWarningMessage('Not a valid course root');
+  if (!isRoot) {
+    reportNoCourse(channel, '[SCAN]');
+    return;
   }
 
+  const courseName = await courseManager.readCourseName();
+  channel.appendLine(`[SCAN] Course name: ${courseName ?? 'N/A'}`);
+
+  const lectures = await courseManager.getLectureDirectories();
+  channel.appendLine(`[SCAN] Lectures found: ${lectures.length}`);
+  lectures.forEach((name) => channel.appendLine(`[SCAN]   - ${name}`));
+  channel.appendLine('[SCAN] ✓ Scan completed successfully');
+
   void vscode.window.showInformationMessage('Course scan complete');
 }
 
@@ -284,11 +357,47 @@ export async function selectModules(outputChannel: vscode.OutputChannel): Promis
   return selectedModuleIds;
 }
 
+/**
+ * Shows lecture template selection for lecture creation.
+ * Without course templates (.sliman/templates/) the bundled default is used without asking.
+ * @param lectureManager - Lecture manager of the course
+ * @param outputChannel - Output channel for logging
+ * @returns Promise resolving to the selected template, or undefined if cancelled
+ */
+export async function selectLectureTemplate(
+  lectureManager: LectureManager,
+  outputChannel: vscode.OutputChannel
+): Promise<LectureTemplate | undefined> {
+  const templates = await lectureManager.getLectureTemplates();
+  if (templates.length === 1) {
+    return templates[0];
+  }
+
+  const items = templates.map((template) => ({
+    label: template.name,
+    description: template.dir ? `${SLIMAN_STATE_DIR}/${LECTURE_TEMPLATES_DIR}/${template.name}` : 'bundled',
+    template,
+  }));
+  const selection = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Select a lecture template',
+    ignoreFocusOut: false
+  });
+
+  if (!selection) {
+    outputChannel.appendLine('[SELECT] Template selection cancelled');
+    return undefined;
+  }
+
+  outputChannel.appendLine(`[SELECT] Selected template: ${selection.template.name}`);
+  return selection.template;
+}
+
 /**
  * Command: sliman.addLecture
  * Adds a new lecture with sli.dev structure (slides/, slides.md, package.json)
+ * @param courseUri - Course root (passed from Tree View; the active course otherwise)
  */
-export async function addLecture(): Promise<void> {
+export async function addLecture(courseUri?: vscode.Uri): Promise<void> {
   if (!outputChannel) {
     throw new Error('Commands not initialized');
   }
@@ -298,20 +407,20 @@ export async function addLecture(): Promise<void> {
   channel.show();
 
   // Get managers
+  managersContainer.selectCourse(courseUri);
   const courseManager = managersContainer.courseManager;
   const lectureManager = managersContainer.lectureManager;
+  const buildManager = managersContainer.buildManager;
 
   if (!courseManager || !lectureManager) {
-    channel.appendLine('[ADD] ✗ Managers not initialized');
-    void vscode.window.showErrorMessage('Managers not initialized');
+    reportNoCourse(channel, '[ADD]');
     return;
   }
 
   // Step 1: Check if we're in a course root
   const isRoot = await courseManager.isCourseRoot();
   if (!isRoot) {
-    channel.appendLine('[ADD] ✗ Not in a course root directory');
-    void vscode.window.showErrorMessage('Not a valid course root. Please open a directory with sliman.json');
+    reportNoCourse(channel, '[ADD]');
     return;
   }
 
@@ -368,12 +477,17 @@ export async function addLecture(): Promise<void> {
 
   channel.appendLine(`[ADD] Folder name: ${folderName}`);
 
-  // Step 5: Select modules for the lecture
+  // Step 5: Select the lecture template and modules
+  const template = await selectLectureTemplate(lectureManager, channel);
+  if (!template) {
+    channel.appendLine('[ADD] Command cancelled: No template selected');
+    return;
+  }
   const selectedModules = await selectModules(channel);
   
   // Step 6: Confirm creation
   const confirm = await vscode.window.showInformationMessage(
-    `Create lecture "${title}" (${folderName}) with modules: ${selectedModules.join(', ') || 'none'}?`,
+    `Create lecture "${title}" (${folderName}) from template "${template.name}" with modules: ${selectedModules.join(', ') || 'none'}?`,
     { modal: true },
     'Create', 'Cancel'
   );
@@ -386,11 +500,10 @@ export async function addLecture(): Promise<void> {
   // Step 7: Create lecture with selected modules
   try {
     channel.appendLine('[ADD] Creating lecture with modules...');
-    await lectureManager.createLectureWithModules(folderName, title, selectedModules);
+    await lectureManager.createLectureWithModules(folderName, title, selectedModules, template);
     channel.appendLine(`[ADD] ✓ Lecture "${title}" created successfully with modules: ${selectedModules.join(', ') || 'none'}!`);
 
     // Step 8: Update index.html with new lecture list
-    const buildManager = managersContainer.buildManager;
     if (buildManager) {
       try {
         channel.appendLine('[ADD] Updating index.html with lecture list...');
@@ -420,8 +533,9 @@ export async function addLecture(): Promise<void> {
  * Command: sliman.buildLecture
  * Compiles lecture to static HTML with correct --base based on deployRoot
  * @param name - Lecture folder name (passed from Tree View)
+ * @param courseUri - Course root (passed from Tree View; the active course otherwise)
  */
-export async function buildLecture(name: string): Promise<void> {
+export async function buildLecture(name: string, courseUri?: vscode.Uri): Promise<void> {
   if (!outputChannel) {
     throw new Error('Commands not initialized');
   }
@@ -430,21 +544,20 @@ export async function buildLecture(name: string): Promise<void> {
   channel.appendLine(`[BUILD] Command: buildLecture: ${name}`);
   channel.show();
 
+  managersContainer.selectCourse(courseUri);
   const courseManager = managersContainer.courseManager;
   const lectureManager = managersContainer.lectureManager;
   const buildManager = managersContainer.buildManager;
 
   if (!courseManager || !lectureManager || !buildManager) {
-    channel.appendLine('[BUILD] ✗ Managers not initialized');
-    void vscode.window.showErrorMessage('Managers not initialized');
+    reportNoCourse(channel, '[BUILD]');
     return;
   }
 
   // Step 1: Check if we're in a course root
   const isRoot = await courseManager.isCourseRoot();
   if (!isRoot) {
-    channel.appendLine('[BUILD] ✗ Not in a course root directory');
-    void vscode.window.showErrorMessage('Not a valid course root. Please open a directory with sliman.json');
+    reportNoCourse(channel, '[BUILD]');
     return;
   }
 
@@ -464,24 +577,52 @@ export async function buildLecture(name: string): Promise<void> {
 
   try {
     channel.appendLine('[BUILD] Starting build via BuildManager...');
-    await buildManager.buildLecture(name, deployRoot);
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Building "${name}"`, cancellable: true },
+      async (progress, token) => {
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+        try {
+          await buildManager.buildLecture(name, deployRoot, {
+            outputChannel: channel,
+            signal: controller.signal,
+            onStep: (_lecture, step) => progress.report({ message: BUILD_STEP_LABELS[step] }),
+          });
+        } finally {
+          cancellation.dispose();
+        }
+      }
+    );
     channel.appendLine(`[BUILD] ✓ Lecture "${name}" built successfully`);
     void vscode.window.showInformationMessage(`Lecture "${name}" built successfully!`);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
+    if (isBuildError(error) && error.type === 'cancelled') {
+      channel.appendLine(`[BUILD] Build cancelled: ${name}`);
+      void vscode.window.showWarningMessage(`Build of "${name}" was cancelled`);
+      return;
+    }
     channel.appendLine(`[BUILD] ✗ Build failed: ${errorMessage}`);
     void vscode.window.showErrorMessage(`Build failed: ${errorMessage}`);
   }
 }
 
+/** Progress messages of lecture build steps */
+const BUILD_STEP_LABELS: Record<BuildStep, string> = {
+  clean: 'Cleaning Vite cache and dist...',
+  build: 'Running slidev build...',
+  copy: 'Copying output...',
+};
+
 
 
 /**
  * Command: sliman.openSlides
  * Opens slides.md file for current or selected lecture
  * @param name - Lecture folder name (passed from Tree View)
+ * @param courseUri - Course root (passed from Tree View; the active course otherwise)
  */
-export async function openSlides(name: string): Promise<void> {
+export async function openSlides(name: string, courseUri?: vscode.Uri): Promise<void> {
   if (!outputChannel) {
     throw new Error('Commands not initialized');
   }
@@ -490,20 +631,19 @@ export async function openSlides(name: string): Promise<void> {
   channel.appendLine(`[OPEN] Command: openSlides: ${name}`);
   channel.show();
 
+  managersContainer.selectCourse(courseUri);
   const courseManager = managersContainer.courseManager;
   const lectureManager = managersContainer.lectureManager;
 
   if (!courseManager || !lectureManager) {
-    channel.appendLine('[OPEN] ✗ Managers not initialized');
-    void vscode.window.showErrorMessage('Managers not initialized');
+    reportNoCourse(channel, '[OPEN]');
     return;
   }
 
   // Step 1: Check if we're in a course root
   const isRoot = await courseManager.isCourseRoot();
   if (!isRoot) {
-    channel.appendLine('[OPEN] ✗ Not in a course root directory');
-    void vscode.window.showErrorMessage('Not a valid course root. Please open a directory with sliman.json');
+    reportNoCourse(channel, '[OPEN]');
     return;
   }
 
@@ -525,8 +665,9 @@ export async function openSlides(name: string): Promise<void> {
  * Command: sliman.editLecture
  * Opens slides.md file AND launches dev server for lecture editing
  * @param name - Lecture folder name (passed from Tree View)
+ * @param courseUri - Course root (passed from Tree View; the active course otherwise)
  */
-export async function editLecture(name: string): Promise<void> {
+export async function editLecture(name: string, courseUri?: vscode.Uri): Promise<void> {
   if (!outputChannel) {
     throw new Error('Commands not initialized');
   }
@@ -535,21 +676,20 @@ export async function editLecture(name: string): Promise<void> {
   channel.appendLine(`Command: editLecture: ${name}`);
   channel.show();
 
+  managersContainer.selectCourse(courseUri);
   const courseManager = managersContainer.courseManager;
   const lectureManager = managersContainer.lectureManager;
   const buildManager = managersContainer.buildManager;
 
   if (!courseManager || !lectureManager || !buildManager) {
-    channel.appendLine('Managers not initialized');
-    void vscode.window.showErrorMessage('Managers not initialized');
+    reportNoCourse(channel);
     return;
   }
 
   // Step 1: Check if we're in a course root
   const isRoot = await courseManager.isCourseRoot();
   if (!isRoot) {
-    channel.appendLine('Not in a course root directory');
-    void vscode.window.showErrorMessage('Not a valid course root. Please open a directory with sliman.json');
+    reportNoCourse(channel);
     return;
   }
 
@@ -585,8 +725,9 @@ export async function editLecture(name: string): Promise<void> {
  * Command: sliman.deleteLecture
  * Deletes a lecture with confirmation dialog
  * @param name - Lecture folder name (passed from Tree View)
+ * @param courseUri - Course root (passed from Tree View; the active course otherwise)
  */
-export async function deleteLecture(name: string): Promise<void> {
+export async function deleteLecture(name: string, courseUri?: vscode.Uri): Promise<void> {
   if (!outputChannel) {
     throw new Error('Commands not initialized');
   }
@@ -595,20 +736,19 @@ export async function deleteLecture(name: string): Promise<void> {
   channel.appendLine(`[DELETE] Command: deleteLecture: ${name}`);
   channel.show();
 
+  managersContainer.selectCourse(courseUri);
   const courseManager = managersContainer.courseManager;
   const lectureManager = managersContainer.lectureManager;
 
   if (!courseManager || !lectureManager) {
-    channel.appendLine('[DELETE] ✗ Managers not initialized');
-    void vscode.window.showErrorMessage('Managers not initialized');
+    reportNoCourse(channel, '[DELETE]');
     return;
   }
 
   // Step 1: Check if we're in a course root
   const isRoot = await courseManager.isCourseRoot();
   if (!isRoot) {
-    channel.appendLine('[DELETE] ✗ Not in a course root directory');
-    void vscode.window.showErrorMessage('Not a valid course root. Please open a directory with sliman.json');
+    reportNoCourse(channel, '[DELETE]');
     return;
   }
 
@@ -660,33 +800,426 @@ export async function deleteLecture(name: string): Promise<void> {
   }
 }
 
+/**
+ * Command: sliman.renameLecture
+ * Changes a lecture title and/or folder name (folder, built output, slides.json,
+ * slides.md frontmatter and package.json are updated together)
+ * @param target - Lecture folder name or lecture tree item; asked for when run from the palette
+ */
+export async function renameLecture(target?: string | CourseTreeItem): Promise<void> {
+  if (!outputChannel) {
+    throw new Error('Commands not initialized');
+  }
+
+  const channel = outputChannel;
+  if (target && typeof target !== 'string') {
+    managersContainer.selectCourse(target.courseRoot);
+  }
+  const courseManager = managersContainer.courseManager;
+  const lectureManager = managersContainer.lectureManager;
+  const buildManager = managersContainer.buildManager;
+
+  if (!courseManager || !lectureManager) {
+    reportNoCourse(channel, '[RENAME]');
+    return;
+  }
+
+  // Step 1: Resolve the lecture
+  let name = typeof target === 'string' ? target : target && isLectureItem(target) ? target.name : undefined;
+  name ??= await vscode.window.showQuickPick(await courseManager.getLectureDirectories(), {
+    placeHolder: 'Select a lecture to rename',
+  });
+  if (!name) {
+    return;
+  }
+  channel.appendLine(`[RENAME] Command: renameLecture: ${name}`);
+
+  let currentTitle = name;
+  try {
+    currentTitle = await lectureManager.readTitleFromSlides(name);
+  } catch {
+    // No title in slides.md, use folder name
+  }
+
+  // Step 2: Ask for the new title
+  const title = await vscode.window.showInputBox({
+    prompt: `New title of lecture "${name}"`,
+    value: currentTitle,
+    validateInput: (value) => {
+      if (!value || value.trim().length < 3) {
+        return 'Title must be at least 3 characters';
+      }
+      if (value.length > 200) {
+        return 'Title is too long (max 200 characters)';
+      }
+      return null;
+    },
+  });
+  if (!title) {
+    channel.appendLine('[RENAME] Command cancelled: No title provided');
+    return;
+  }
+
+  // Step 3: Ask for the new folder name (changing it changes the lecture URL)
+  const newName = await vscode.window.showInputBox({
+    prompt: 'Lecture folder name (changing it changes the lecture URL)',
+    value: name,
+    validateInput: (value) => {
+      if (!isValidFolderName(value)) {
+        return 'Invalid folder name. Use only Latin letters, numbers, and hyphens';
+      }
+      return null;
+    },
+  });
+  if (!newName) {
+    channel.appendLine('[RENAME] Command cancelled: No folder name provided');
+    return;
+  }
+
+  if (newName === name && title.trim() === currentTitle) {
+    channel.appendLine('[RENAME] Nothing to change');
+    return;
+  }
+
+  // Step 4: Rename
+  channel.show();
+  lectureManager.setOutputChannel(channel);
+  try {
+    await lectureManager.renameLecture(name, newName, title.trim());
+    channel.appendLine(`[RENAME] ✓ Lecture "${name}" renamed to "${newName}"`);
+
+    if (buildManager) {
+      await buildManager.updateIndexHtml();
+    }
+    managersContainer.refreshCourseExplorer();
+
+    void vscode.window.showInformationMessage(
+      newName === name
+        ? `Lecture title changed to "${title.trim()}"`
+        : `Lecture renamed to "${newName}". Rebuild it to update its base path`
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    channel.appendLine(`[RENAME] ✗ ${errorMessage}`);
+    void vscode.window.showErrorMessage(errorMessage);
+  }
+}
+
+/**
+ * Command: sliman.syncCourseMetadata
+ * Reconciles slides.json with the lecture folders and slides.md titles
+ * @param courseUri - Course root (asks which course when omitted and several are open)
+ */
+export async function syncCourseMetadata(courseUri?: vscode.Uri): Promise<void> {
+  if (!outputChannel) {
+    throw new Error('Commands not initialized');
+  }
+
+  const channel = outputChannel;
+  channel.appendLine('[SYNC] Command: syncCourseMetadata');
+
+  if (!await selectCommandCourse(courseUri)) {
+    channel.appendLine('[SYNC] Command cancelled: No course selected');
+    return;
+  }
+
+  const courseManager = managersContainer.courseManager;
+  const lectureManager = managersContainer.lectureManager;
+  const buildManager = managersContainer.buildManager;
+
+  if (!courseManager || !lectureManager) {
+    reportNoCourse(channel, '[SYNC]');
+    return;
+  }
+
+  if (!await courseManager.isCourseRoot()) {
+    reportNoCourse(channel, '[SYNC]');
+    return;
+  }
+  channel.appendLine(`[SYNC] Course root: ${courseManager.getCourseRoot().fsPath}`);
+
+  try {
+    const result = await lectureManager.syncCourseMetadata();
+
+    result.titleChanges.forEach((change) =>
+      channel.appendLine(`[SYNC] Title of "${change.lecture}": "${change.from}" → "${change.to}"`)
+    );
+    result.added.forEach((name) => channel.appendLine(`[SYNC] Added to slides.json: ${name}`));
+    result.orphaned.forEach((name) => channel.appendLine(`[SYNC] Warning: slides.json entry without lecture folder: ${name}`));
+
+    const changed = result.titleChanges.length + result.added.length;
+    if (changed > 0) {
+      managersContainer.refreshCourseExplorer();
+      await buildManager?.updateIndexHtml();
+    }
+
+    const summary = changed === 0
+      ? 'Course metadata is up to date'
+      : `Course metadata synced: ${result.titleChanges.length} titles updated, ${result.added.length} lectures added`;
+    const orphanedNote = result.orphaned.length > 0
+      ? `. Entries without a lecture folder: ${result.orphaned.join(', ')}`
+      : '';
+    channel.appendLine(`[SYNC] ✓ ${summary}${orphanedNote}`);
+
+    if (result.orphaned.length > 0) {
+      void vscode.window.showWarningMessage(`${summary}${orphanedNote}`);
+    } else {
+      void vscode.window.showInformationMessage(summary);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    channel.appendLine(`[SYNC] ✗ ${errorMessage}`);
+    void vscode.window.showErrorMessage(`Failed to sync course metadata: ${errorMessage}`);
+  }
+}
+
+/**
+ * Command: sliman.migrateConfig
+ * Upgrades sliman.json to the current schemaVersion, keeping a backup of the old file
+ * @param courseUri - Course root (passed from the migration prompt; the active course otherwise)
+ */
+export async function migrateConfig(courseUri?: vscode.Uri): Promise<void> {
+  if (!outputChannel) {
+    throw new Error('Commands not initialized');
+  }
+
+  const channel = outputChannel;
+  channel.appendLine('[MIGRATE] Command: migrateConfig');
+
+  managersContainer.selectCourse(courseUri);
+  const courseManager = managersContainer.courseManager;
+  if (!courseManager) {
+    reportNoCourse(channel, '[MIGRATE]');
+    return;
+  }
+
+  if (!await courseManager.isCourseRoot()) {
+    reportNoCourse(channel, '[MIGRATE]');
+    return;
+  }
+
+  try {
+    const result = await courseManager.migrateSlimanConfig();
+    if (!result) {
+      channel.appendLine(`[MIGRATE] ✓ sliman.json is up to date (schemaVersion ${SLIMAN_SCHEMA_VERSION})`);
+      void vscode.window.showInformationMessage('sliman.json is up to date');
+      return;
+    }
+
+    channel.appendLine(`[MIGRATE] Backup: ${result.backupPath}`);
+    result.applied.forEach((step) => channel.appendLine(`[MIGRATE] Applied ${step}`));
+    channel.appendLine(`[MIGRATE] ✓ sliman.json migrated from schemaVersion ${result.fromVersion} to ${result.toVersion}`);
+
+    managersContainer.refreshCourseExplorer();
+    void vscode.window.showInformationMessage(
+      `sliman.json migrated to schemaVersion ${result.toVersion}. Backup: ${path.basename(result.backupPath)}`
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    channel.appendLine(`[MIGRATE] ✗ ${errorMessage}`);
+    void vscode.window.showErrorMessage(`Failed to migrate sliman.json: ${errorMessage}`);
+  }
+}
+
+/**
+ * Command: sliman.doctor
+ * Checks lecture folders, slides.json and built output for drift and offers fixes
+ * @param courseUri - Course root (asks which course when omitted and several are open)
+ */
+export async function doctor(courseUri?: vscode.Uri): Promise<void> {
+  if (!outputChannel) {
+    throw new Error('Commands not initialized');
+  }
+
+  const channel = outputChannel;
+  channel.appendLine('[DOCTOR] Command: doctor');
+
+  if (!await selectCommandCourse(courseUri)) {
+    channel.appendLine('[DOCTOR] Command cancelled: No course selected');
+    return;
+  }
+
+  const courseManager = managersContainer.courseManager;
+  const doctorManager = managersContainer.doctorManager;
+  const buildManager = managersContainer.buildManager;
+
+  if (!courseManager || !doctorManager) {
+    reportNoCourse(channel, '[DOCTOR]');
+    return;
+  }
+
+  if (!await courseManager.isCourseRoot()) {
+    reportNoCourse(channel, '[DOCTOR]');
+    return;
+  }
+  const courseRoot = courseManager.getCourseRoot();
+  channel.appendLine(`[DOCTOR] Course root: ${courseRoot.fsPath}`);
+
+  // Step 1: Diagnose
+  let problems: CourseProblem[];
+  try {
+    problems = await doctorManager.diagnose();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    channel.appendLine(`[DOCTOR] ✗ ${errorMessage}`);
+    void vscode.window.showErrorMessage(`Course check failed: ${errorMessage}`);
+    return;
+  }
+
+  if (problems.length === 0) {
+    channel.appendLine('[DOCTOR] ✓ No problems found');
+    void vscode.window.showInformationMessage('Course check: no problems found');
+    return;
+  }
+
+  // Step 2: Report
+  channel.show();
+  channel.appendLine(`[DOCTOR] Found ${problems.length} problem(s):`);
+  problems.forEach((problem) => channel.appendLine(`[DOCTOR]   ✗ ${problem.message} → ${problem.fixLabel}`));
+
+  // Step 3: Let the user pick fixes (deleting files is never pre-selected)
+  const items = problems.map((problem) => ({
+    label: problem.message,
+    description: problem.fixLabel,
+    picked: !problem.destructive,
+    problem,
+  }));
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: `${problems.length} problem(s) found in "${path.basename(courseRoot.fsPath)}". Select the fixes to apply`,
+    canPickMany: true,
+    ignoreFocusOut: true,
+  });
+  if (!selected || selected.length === 0) {
+    channel.appendLine('[DOCTOR] No fixes applied');
+    return;
+  }
+
+  // Step 4: Fix
+  let fixed = 0;
+  for (const { problem } of selected) {
+    try {
+      await doctorManager.fix(problem);
+      fixed++;
+      channel.appendLine(`[DOCTOR] ✓ ${problem.lecture}: ${problem.fixLabel}`);
+    } catch (error) {
+      channel.appendLine(`[DOCTOR] ✗ ${problem.lecture}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  managersContainer.refreshCourseExplorer();
+  await buildManager?.updateIndexHtml();
+
+  const failed = selected.length - fixed;
+  if (failed > 0) {
+    void vscode.window.showWarningMessage(`Course check: ${fixed} fixed, ${failed} failed. See the output for details`);
+  } else {
+    void vscode.window.showInformationMessage(`Course check: ${fixed} problem(s) fixed`);
+  }
+}
+
+/**
+ * Command: sliman.moveLectureUp
+ * Moves a lecture one position up in the course order (slides.json)
+ * @param target - Lecture folder name or lecture tree item (from the context menu)
+ */
+export async function moveLectureUp(target: string | CourseTreeItem): Promise<void> {
+  await moveLecture(target, -1);
+}
+
+/**
+ * Command: sliman.moveLectureDown
+ * Moves a lecture one position down in the course order (slides.json)
+ * @param target - Lecture folder name or lecture tree item (from the context menu)
+ */
+export async function moveLectureDown(target: string | CourseTreeItem): Promise<void> {
+  await moveLecture(target, 1);
+}
+
+/**
+ * Shifts a lecture in slides.json, then refreshes the tree and index.html
+ */
+async function moveLecture(target: string | CourseTreeItem, offset: -1 | 1): Promise<void> {
+  if (!outputChannel) {
+    throw new Error('Commands not initialized');
+  }
+
+  const channel = outputChannel;
+  if (typeof target !== 'string') {
+    managersContainer.selectCourse(target.courseRoot);
+  }
+  const courseManager = managersContainer.courseManager;
+  const buildManager = managersContainer.buildManager;
+
+  if (!courseManager || !buildManager) {
+    reportNoCourse(channel, '[ORDER]');
+    return;
+  }
+
+  const name = typeof target === 'string' ? target : isLectureItem(target) ? target.name : undefined;
+  if (!name) {
+    return;
+  }
+
+  try {
+    const changed = await courseManager.shiftLecture(name, offset);
+    if (!changed) {
+      return;
+    }
+    channel.appendLine(`[ORDER] Moved "${name}" ${offset < 0 ? 'up' : 'down'}`);
+    managersContainer.refreshCourseExplorer();
+    await buildManager.updateIndexHtml();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    channel.appendLine(`[ORDER] ✗ ${errorMessage}`);
+    void vscode.window.showErrorMessage(`Failed to move lecture: ${errorMessage}`);
+  }
+}
+
 /**
  * Command: sliman.buildCourse
- * Builds entire course to static site
+ * Builds entire course to static site, skipping lectures unchanged since their last build
+ * @param courseUri - Course root (passed from Tree View; the active course otherwise)
+ */
+export async function buildCourse(courseUri?: vscode.Uri): Promise<void> {
+  await runCourseBuild(false, courseUri);
+}
+
+/**
+ * Command: sliman.rebuildCourse
+ * Rebuilds every lecture of the course, ignoring the build manifest
+ * @param courseUri - Course root (passed from Tree View; the active course otherwise)
  */
-export async function buildCourse(): Promise<void> {
+export async function rebuildCourse(courseUri?: vscode.Uri): Promise<void> {
+  await runCourseBuild(true, courseUri);
+}
+
+/**
+ * Shared implementation of buildCourse and rebuildCourse
+ * @param force - Rebuild lectures even if their sources did not change
+ * @param courseUri - Course root (the active course when omitted)
+ */
+async function runCourseBuild(force: boolean, courseUri?: vscode.Uri): Promise<void> {
   if (!outputChannel) {
     throw new Error('Commands not initialized');
   }
 
   const channel = outputChannel;
-  channel.appendLine('Command: buildCourse');
+  channel.appendLine(`Command: ${force ? 'rebuildCourse' : 'buildCourse'}`);
   channel.show();
 
+  managersContainer.selectCourse(courseUri);
   const courseManager = managersContainer.courseManager;
   const buildManager = managersContainer.buildManager;
 
   if (!courseManager || !buildManager) {
-    channel.appendLine('Managers not initialized');
-    void vscode.window.showErrorMessage('Managers not initialized');
+    reportNoCourse(channel);
     return;
   }
 
   // Step 1: Check if we're in a course root
   const isRoot = await courseManager.isCourseRoot();
   if (!isRoot) {
-    channel.appendLine('Not in a course root directory');
-    void vscode.window.showErrorMessage('Not a valid course root. Please open a directory with sliman.json');
+    reportNoCourse(channel);
     return;
   }
 
@@ -709,24 +1242,370 @@ export async function buildCourse(): Promise<void> {
 
   // Step 3: Build the course
   channel.appendLine('[BUILD] Building course...');
+  let report: CourseBuildReport;
   try {
-    await buildManager.buildCourse();
-    channel.appendLine('[BUILD] ✓ Course build completed');
-    void vscode.window.showInformationMessage('Course built successfully');
+    report = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Building course', cancellable: true },
+      async (progress, token) => {
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+        let reported = 0;
+        try {
+          return await buildManager.buildCourse({
+            outputChannel: channel,
+            force,
+            signal: controller.signal,
+            onStep: (lecture, step) => progress.report({ message: `${lecture}: ${BUILD_STEP_LABELS[step]}` }),
+            onProgress: ({ lecture, state, completed, total }) => {
+              // Advance the bar once per settled lecture
+              const increment = ((completed - reported) / total) * 100;
+              reported = completed;
+              progress.report({ message: `${lecture}: ${state} (${completed}/${total})`, increment });
+            },
+          });
+        } finally {
+          cancellation.dispose();
+        }
+      }
+    );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     channel.appendLine(`[BUILD] ✗ Build failed: ${errorMessage}`);
     void vscode.window.showErrorMessage(`Build failed: ${errorMessage}`);
+    return;
+  }
+
+  // Step 4: Report per-lecture results
+  channel.appendLine('[BUILD] Course build report:');
+  formatBuildReportTable(report).forEach((line) => channel.appendLine(line));
+
+  // Step 5: Update the monorepo course portal (links and "not built" marks)
+  const folder = vscode.workspace.getWorkspaceFolder(courseRoot);
+  if (folder && isMonorepoFolder(folder)) {
+    try {
+      await writeFolderPortal(folder, channel);
+    } catch (error) {
+      channel.appendLine(`[PORTAL] Warning: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
+
+  await showBuildReportNotification(report);
 }
 
+/**
+ * Command: sliman.updatePortal
+ * Writes the course portal index.html at the root of every monorepo workspace folder
+ * (folders with `sliDevCourse.courseRoot`)
+ */
+export async function updatePortal(): Promise<void> {
+  if (!outputChannel) {
+    throw new Error('Commands not initialized');
+  }
+
+  const channel = outputChannel;
+  channel.appendLine('[PORTAL] Command: updatePortal');
 
+  const folders = (vscode.workspace.workspaceFolders ?? []).filter(isMonorepoFolder);
+  if (folders.length === 0) {
+    channel.appendLine('[PORTAL] ✗ No monorepo folders');
+    void vscode.window.showWarningMessage('The course portal is generated for monorepos. Set "sliDevCourse.courseRoot" to the course folders (e.g. "courses/*")');
+    return;
+  }
+
+  const written: string[] = [];
+  for (const folder of folders) {
+    try {
+      const portalPath = await writeFolderPortal(folder, channel);
+      if (portalPath) {
+        written.push(portalPath);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      channel.appendLine(`[PORTAL] ✗ ${folder.name}: ${errorMessage}`);
+      void vscode.window.showErrorMessage(`Failed to update course portal: ${errorMessage}`);
+    }
+  }
+
+  if (written.length > 0) {
+    void vscode.window.showInformationMessage(`Course portal updated: ${written.join(', ')}`);
+  }
+}
+
+/**
+ * Writes the portal of one monorepo folder, linking the courses found in it
+ * @param folder - Workspace folder with `sliDevCourse.courseRoot`
+ * @param channel - Output channel for logging
+ * @returns Portal path, or null if the folder has no courses
+ * @throws Error if the portal cannot be written
+ */
+async function writeFolderPortal(folder: vscode.WorkspaceFolder, channel: vscode.OutputChannel): Promise<string | null> {
+  const courses = managersContainer.courses
+    .filter((course) => vscode.workspace.getWorkspaceFolder(course.root)?.uri.toString() === folder.uri.toString())
+    .map((course) => course.courseManager);
+  if (courses.length === 0) {
+    channel.appendLine(`[PORTAL] ${folder.name}: no courses found`);
+    return null;
+  }
+
+  const portalPath = await new PortalManager(folder.uri).writePortal(courses);
+  channel.appendLine(`[PORTAL] ✓ ${folder.name}: ${courses.length} courses → ${portalPath}`);
+  return portalPath;
+}
+
+/**
+ * Shows the course build summary notification.
+ * "Open Log..." lets the user pick a lecture log (failed lectures first).
+ * @param report - Course build report
+ */
+async function showBuildReportNotification(report: CourseBuildReport): Promise<void> {
+  const summary = summarizeBuildReport(report);
+  const hasFailures = report.results.some((result) => result.outcome === 'failed');
+  const openLog = 'Open Log...';
+  const showReport = 'Show Report';
+
+  const choice = hasFailures
+    ? await vscode.window.showErrorMessage(summary, openLog, showReport)
+    : await vscode.window.showInformationMessage(summary, openLog, showReport);
+
+  if (choice === showReport) {
+    outputChannel?.show();
+    return;
+  }
+  if (choice !== openLog) {
+    return;
+  }
+
+  const logged = report.results
+    .filter((result) => result.logFile)
+    .sort((a, b) => Number(b.outcome === 'failed') - Number(a.outcome === 'failed'));
+
+  if (logged.length === 0) {
+    void vscode.window.showInformationMessage('No lecture was built, so there are no build logs');
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    logged.map((result) => ({
+      label: result.lecture,
+      description: result.outcome,
+      detail: result.message,
+      logFile: result.logFile as string,
+    })),
+    { placeHolder: 'Select a lecture build log' }
+  );
+
+  if (picked) {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(picked.logFile));
+    await vscode.window.showTextDocument(document);
+  }
+}
+
+
+
+/**
+ * Command: sliman.exportLecture
+ * Exports a lecture to PDF, PNG or PPTX with slidev export
+ * @param name - Lecture folder name (passed from Tree View; asked for when run from the palette)
+ * @param courseUri - Course root (passed from Tree View; the active course otherwise)
+ */
+export async function exportLecture(name?: string, courseUri?: vscode.Uri): Promise<void> {
+  if (!outputChannel) {
+    throw new Error('Commands not initialized');
+  }
+
+  const channel = outputChannel;
+  channel.appendLine(`[EXPORT] Command: exportLecture${name ? `: ${name}` : ''}`);
+
+  managersContainer.selectCourse(courseUri);
+  const courseManager = managersContainer.courseManager;
+  const exportManager = managersContainer.exportManager;
+
+  if (!courseManager || !exportManager) {
+    reportNoCourse(channel, '[EXPORT]');
+    return;
+  }
+
+  // Step 1: Resolve the lecture
+  const lectureName = name ?? await vscode.window.showQuickPick(await courseManager.getLectureDirectories(), {
+    placeHolder: 'Select a lecture to export',
+  });
+  if (!lectureName) {
+    return;
+  }
+
+  // Step 2: Ask for format and options
+  const options = await pickExportOptions(true);
+  if (!options) {
+    channel.appendLine('[EXPORT] Export cancelled');
+    return;
+  }
+
+  // Step 3: Export
+  channel.show();
+  try {
+    const outputPath = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Exporting "${lectureName}" to ${EXPORT_FORMAT_LABELS[options.format]}`,
+        cancellable: true,
+      },
+      async (_progress, token) => {
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+        try {
+          return await exportManager.exportLecture(lectureName, options, {
+            outputChannel: channel,
+            signal: controller.signal,
+          });
+        } finally {
+          cancellation.dispose();
+        }
+      }
+    );
+    channel.appendLine(`[EXPORT] ✓ Exported to ${outputPath}`);
+
+    const reveal = 'Reveal in File Explorer';
+    const choice = await vscode.window.showInformationMessage(`Lecture "${lectureName}" exported`, reveal);
+    if (choice === reveal) {
+      await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(outputPath));
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    channel.appendLine(`[EXPORT] ✗ ${errorMessage}`);
+    if (isBuildError(error) && error.type === 'cancelled') {
+      void vscode.window.showWarningMessage(`Export of "${lectureName}" was cancelled`);
+      return;
+    }
+    void vscode.window.showErrorMessage(errorMessage);
+  }
+}
+
+/**
+ * Command: sliman.exportCourse
+ * Exports every lecture of the course to PDF, PNG or PPTX
+ * @param courseUri - Course root (passed from Tree View; the active course otherwise)
+ */
+export async function exportCourse(courseUri?: vscode.Uri): Promise<void> {
+  if (!outputChannel) {
+    throw new Error('Commands not initialized');
+  }
+
+  const channel = outputChannel;
+  channel.appendLine('[EXPORT] Command: exportCourse');
+
+  managersContainer.selectCourse(courseUri);
+  const exportManager = managersContainer.exportManager;
+  if (!exportManager) {
+    reportNoCourse(channel, '[EXPORT]');
+    return;
+  }
+
+  // Step 1: Ask for format and options (slide ranges are per lecture, so not offered)
+  const options = await pickExportOptions(false);
+  if (!options) {
+    channel.appendLine('[EXPORT] Export cancelled');
+    return;
+  }
+
+  // Step 2: Export lectures one by one
+  channel.show();
+  try {
+    const results = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Exporting course to ${EXPORT_FORMAT_LABELS[options.format]}`,
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+        try {
+          return await exportManager.exportCourse(options, {
+            outputChannel: channel,
+            signal: controller.signal,
+            onLecture: (lecture, index, total) =>
+              progress.report({ message: `${lecture} (${index + 1}/${total})`, increment: index === 0 ? 0 : 100 / total }),
+          });
+        } finally {
+          cancellation.dispose();
+        }
+      }
+    );
+
+    // Step 3: Report
+    const failed = results.filter((result) => result.error);
+    results.forEach((result) =>
+      channel.appendLine(`[EXPORT] ${result.error ? '✗' : '✓'} ${result.lecture}: ${result.error ?? result.outputPath}`)
+    );
+    if (failed.length > 0) {
+      void vscode.window.showErrorMessage(
+        `Course export: ${results.length - failed.length} exported, ${failed.length} failed: ${failed.map((r) => r.lecture).join(', ')}`
+      );
+    } else {
+      void vscode.window.showInformationMessage(`Course exported: ${results.length} lectures`);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    channel.appendLine(`[EXPORT] ✗ ${errorMessage}`);
+    void vscode.window.showErrorMessage(errorMessage);
+  }
+}
+
+/**
+ * Asks for export format, options and (optionally) a slide range
+ * @param includeRange - Whether to ask for a slide range
+ * @returns Export options, or undefined if the user cancelled
+ */
+async function pickExportOptions(includeRange: boolean): Promise<ExportOptions | undefined> {
+  const formatItems: Array<vscode.QuickPickItem & { format: ExportFormat }> = [
+    { label: EXPORT_FORMAT_LABELS.pdf, description: 'One PDF document', format: 'pdf' },
+    { label: EXPORT_FORMAT_LABELS.png, description: 'One image per slide', format: 'png' },
+    { label: EXPORT_FORMAT_LABELS.pptx, description: 'PowerPoint presentation (slides as images)', format: 'pptx' },
+  ];
+  const formatItem = await vscode.window.showQuickPick(formatItems, { placeHolder: 'Export format' });
+  if (!formatItem) {
+    return undefined;
+  }
+
+  const flagItems: Array<vscode.QuickPickItem & { flag: 'dark' | 'withClicks' }> = [
+    { label: 'Dark mode', description: '--dark', flag: 'dark' },
+    { label: 'Export click steps', description: '--with-clicks', flag: 'withClicks' },
+  ];
+  const flags = await vscode.window.showQuickPick(flagItems, {
+    placeHolder: 'Export options (none required)',
+    canPickMany: true,
+  });
+  if (!flags) {
+    return undefined;
+  }
+
+  const options: ExportOptions = {
+    format: formatItem.format,
+    dark: flags.some((item) => item.flag === 'dark'),
+    withClicks: flags.some((item) => item.flag === 'withClicks'),
+  };
+
+  if (includeRange) {
+    const range = await vscode.window.showInputBox({
+      prompt: 'Slides to export, e.g. 1,3-5 (leave empty for all slides)',
+      validateInput: (value) =>
+        value.trim() === '' || isValidSlideRange(value) ? null : 'Use slide numbers and ranges like 1,3-5',
+    });
+    if (range === undefined) {
+      return undefined;
+    }
+    options.range = range.trim() || undefined;
+  }
+
+  return options;
+}
 
 /**
  * Command: sliman.setupPages
  * Sets up GitHub Pages deployment workflow
+ * @param courseUri - Course root (asks which course when omitted and several are open)
  */
-export async function setupPages(): Promise<void> {
+export async function setupPages(courseUri?: vscode.Uri): Promise<void> {
   if (!outputChannel) {
     throw new Error('Commands not initialized');
   }
@@ -735,19 +1614,22 @@ export async function setupPages(): Promise<void> {
   channel.appendLine('[PAGES] Command: setupPages');
   channel.show();
 
+  if (!await selectCommandCourse(courseUri)) {
+    channel.appendLine('[PAGES] Command cancelled: No course selected');
+    return;
+  }
+
   const courseManager = managersContainer.courseManager;
 
   if (!courseManager) {
-    channel.appendLine('[PAGES] ✗ CourseManager not initialized');
-    void vscode.window.showErrorMessage('CourseManager not initialized');
+    reportNoCourse(channel, '[PAGES]');
     return;
   }
 
   // Step 1: Check if we're in a course root
   const isRoot = await courseManager.isCourseRoot();
   if (!isRoot) {
-    channel.appendLine('[PAGES] ✗ Not in a course root directory');
-    void vscode.window.showErrorMessage('Not a valid course root. Please open a directory with sliman.json');
+    reportNoCourse(channel, '[PAGES]');
     return;
   }
 
@@ -755,14 +1637,15 @@ export async function setupPages(): Promise<void> {
   channel.appendLine(`[PAGES] Course root: ${courseRoot.fsPath}`);
 
   // Step 2: Read deployRoot from sliman.json
-  const deployRoot = await courseManager.readDeployRoot();
+  const layout = await courseManager.getOutputLayout();
+  const deployRoot = layout?.deployRoot ?? false;
   channel.appendLine(`[PAGES] Deploy root mode: ${deployRoot}`);
 
   // Step 3: When deployRoot is true, show informational message
-  if (deployRoot) {
+  if (layout?.deployRoot) {
     channel.appendLine('[PAGES] Root deploy mode is enabled, skipping GitHub Pages setup');
     void vscode.window.showInformationMessage(
-      'GitHub Pages is not supported for root deploy mode. Configure your server to serve the built/ directory directly.'
+      `GitHub Pages is not supported for root deploy mode. Configure your server to serve the ${layout.outputDirName}/ directory directly.`
     );
     return;
   }
@@ -800,14 +1683,106 @@ export async function setupPages(): Promise<void> {
   managersContainer.refreshCourseExplorer();
 }
 
+/**
+ * Command: sliman.changeDeployMode
+ * Switches between subdir deploy (GitHub Pages, /{courseName}/) and root deploy (/):
+ * moves the output directory, updates sliman.json, the workflow and .gitignore
+ * (CourseManager.changeDeployMode) and offers to rebuild the course with the new base paths
+ * @param courseUri - Course root (passed from Tree View; the active course otherwise)
+ */
+export async function changeDeployMode(courseUri?: vscode.Uri): Promise<void> {
+  if (!outputChannel) {
+    throw new Error('Commands not initialized');
+  }
+
+  const channel = outputChannel;
+  channel.appendLine('[DEPLOY] Command: changeDeployMode');
+
+  managersContainer.selectCourse(courseUri);
+  const courseManager = managersContainer.courseManager;
+  if (!courseManager || !await courseManager.isCourseRoot()) {
+    reportNoCourse(channel, '[DEPLOY]');
+    return;
+  }
+
+  const layout = await courseManager.getOutputLayout();
+  if (!layout) {
+    channel.appendLine('[DEPLOY] ✗ Course name not found in sliman.json');
+    void vscode.window.showErrorMessage('Course name not found in sliman.json');
+    return;
+  }
+
+  // Step 1: Pick the new mode
+  const items: Array<vscode.QuickPickItem & { deployRoot: boolean }> = [
+    {
+      label: 'Subdir deploy',
+      description: layout.deployRoot ? undefined : 'current',
+      detail: 'Course under /{courseName}/, published to GitHub Pages by a workflow',
+      deployRoot: false,
+    },
+    {
+      label: 'Root deploy',
+      description: layout.deployRoot ? 'current' : undefined,
+      detail: 'Course at the domain root, built/ is served by your own server',
+      deployRoot: true,
+    },
+  ];
+  const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Select the deploy mode of the course' });
+  if (!selected || selected.deployRoot === layout.deployRoot) {
+    channel.appendLine('[DEPLOY] Deploy mode unchanged');
+    return;
+  }
+
+  // Step 2: Confirm
+  const target = await courseManager.getOutputLayout(selected.deployRoot);
+  const move = target && target.outputDirName !== layout.outputDirName
+    ? `The output will move from ${layout.outputDirName}/ to ${target.outputDirName}/. `
+    : '';
+  const confirm = await vscode.window.showWarningMessage(
+    `Switch the course to ${selected.label.toLowerCase()}? ${move}` +
+      `The GitHub Pages workflow and .gitignore will be updated, built lectures need a rebuild.`,
+    { modal: true },
+    'Switch', 'Cancel'
+  );
+  if (confirm !== 'Switch') {
+    channel.appendLine('[DEPLOY] Command cancelled: User declined the switch');
+    return;
+  }
+
+  // Step 3: Switch
+  try {
+    const result = await courseManager.changeDeployMode(selected.deployRoot, path.join(extensionPath, 'template'));
+    result.applied.forEach((step) => channel.appendLine(`[DEPLOY] ${step}`));
+    channel.appendLine(`[DEPLOY] ✓ Deploy mode changed, base path: ${result.from.basePath} → ${result.to.basePath}`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    channel.appendLine(`[DEPLOY] ✗ ${errorMessage}`);
+    void vscode.window.showErrorMessage(errorMessage);
+    return;
+  }
+
+  managersContainer.refreshCourseExplorer();
+
+  // Step 4: Offer a rebuild (lectures were built with the old --base)
+  const action = await vscode.window.showInformationMessage(
+    `Course switched to ${selected.label.toLowerCase()}. Rebuild the course to use the new base paths?`,
+    'Rebuild Course'
+  );
+  if (action === 'Rebuild Course') {
+    await vscode.commands.executeCommand('sliman.rebuildCourse', courseManager.getCourseRoot());
+  }
+}
+
 /**
   * Command: sliman.viewCourse
- * Starts HTTP server in project root and opens built course in browser
- * Respects deployRoot setting from sliman.json:
- *   - deployRoot: false → opens {courseName}/index.html
- *   - deployRoot: true  → opens built/index.html
+ * Starts HTTP server and opens built course in browser
+ * Respects the output layout of sliman.json (CourseManager.getOutputLayout):
+ *   - deployRoot: false → serves the project root, opens /{courseName}/index.html
+ *   - deployRoot: true  → serves built/, opens /index.html
+ *   - basePath          → serves .sliman/serve/ (linked to the output directory), opens {basePath}index.html
+ * @param courseUri - Course root (passed from Tree View; the active course otherwise)
  */
-export async function viewCourse(): Promise<void> {
+export async function viewCourse(courseUri?: vscode.Uri): Promise<void> {
   if (!outputChannel) {
     throw new Error('Commands not initialized');
   }
@@ -816,57 +1791,50 @@ export async function viewCourse(): Promise<void> {
   channel.appendLine('[VIEW] Command: viewCourse');
   channel.show();
 
+  managersContainer.selectCourse(courseUri);
   const courseManager = managersContainer.courseManager;
 
   if (!courseManager) {
-    channel.appendLine('[VIEW] ✗ CourseManager not initialized');
-    void vscode.window.showErrorMessage('CourseManager not initialized');
+    reportNoCourse(channel, '[VIEW]');
     return;
   }
 
   // Step 1: Check if we're in a course root
   const isRoot = await courseManager.isCourseRoot();
   if (!isRoot) {
-    channel.appendLine('[VIEW] ✗ Not in a course root directory');
-    void vscode.window.showErrorMessage('Not a valid course root. Please open a directory with sliman.json');
+    reportNoCourse(channel, '[VIEW]');
     return;
   }
 
   const courseRoot = courseManager.getCourseRoot();
   channel.appendLine(`[VIEW] Course root: ${courseRoot.fsPath}`);
 
-  // Step 2: Get course name
-  const courseName = await courseManager.readCourseName();
-  if (!courseName) {
+  // Step 2: Resolve output directory and base path
+  const layout = await courseManager.getOutputLayout();
+  if (!layout) {
     channel.appendLine('[VIEW] ✗ Course name not found in sliman.json');
     void vscode.window.showErrorMessage('Course name not found in sliman.json');
     return;
   }
-  channel.appendLine(`[VIEW] Course name: ${courseName}`);
+  const modeLabel = layout.deployRoot ? 'root deploy' : 'subdir deploy';
+  channel.appendLine(`[VIEW] Deploy mode: ${modeLabel}, output: ${layout.outputDirName}/, base: ${layout.basePath}`);
 
-  // Step 3: Read deployRoot setting and determine built path
-  const deployRoot = await courseManager.readDeployRoot();
-  const modeLabel = deployRoot ? 'root deploy (built/)' : 'subdir deploy ({courseName}/)';
-  channel.appendLine(`[VIEW] Deploy mode: ${modeLabel} (deployRoot: ${deployRoot})`);
-
-  let builtIndexPath: vscode.Uri;
-  let browserUrl: string;
-
-  if (deployRoot) {
-    // Root deploy mode: built files are in built/
-    // Serve from built/ directory so root-relative paths work correctly
-    builtIndexPath = vscode.Uri.joinPath(courseRoot, 'built', 'index.html');
-    browserUrl = `http://localhost:8080/`;
-    channel.appendLine(`[VIEW] Checking for built course: ${builtIndexPath.fsPath}`);
-  } else {
-    // Subdir deploy mode: built files are in {courseName}/
-    builtIndexPath = vscode.Uri.joinPath(courseRoot, courseName, 'index.html');
-    browserUrl = `http://localhost:8080/${courseName}/index.html`;
-    channel.appendLine(`[VIEW] Checking for built course: ${builtIndexPath.fsPath}`);
+  // Step 3: Serve the folder that maps the base path onto the output directory
+  let serveDir: string;
+  try {
+    serveDir = await courseManager.prepareServeRoot(layout);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    channel.appendLine(`[VIEW] ✗ Cannot serve ${layout.outputDirName}/ under ${layout.basePath}: ${errorMessage}`);
+    void vscode.window.showErrorMessage(`Cannot serve the course under ${layout.basePath}: ${errorMessage}`);
+    return;
   }
+  const serveRoot = path.relative(courseRoot.fsPath, serveDir) || '.';
+  channel.appendLine(`[VIEW] Serving: ${serveRoot}`);
 
+  channel.appendLine(`[VIEW] Checking for built course: ${layout.indexHtml.fsPath}`);
   try {
-    await vscode.workspace.fs.stat(builtIndexPath);
+    await vscode.workspace.fs.stat(layout.indexHtml);
     channel.appendLine('[VIEW] ✓ Built course found');
   } catch {
     channel.appendLine('[VIEW] ✗ Built course not found');
@@ -874,16 +1842,10 @@ export async function viewCourse(): Promise<void> {
   }
 
   // Step 4: Create terminal and start HTTP server (no caching)
-  const terminal = vscode.window.createTerminal('sli.dev Course Viewer');
-  let serverCommand: string;
-
-  if (deployRoot) {
-    // Root deploy mode: serve from built/ so root-relative paths work
-    serverCommand = `npx http-server "built" -p 8080 -c-1`;
-  } else {
-    // Subdir deploy mode: serve from project root
-    serverCommand = `npx http-server . -p 8080 -c-1`;
-  }
+  // Start in the course root (the default terminal folder is the first workspace folder)
+  const terminal = vscode.window.createTerminal({ name: 'sli.dev Course Viewer', cwd: courseRoot });
+  const serverCommand = `npx http-server "${serveRoot}" -p 8080 -c-1`;
+  const browserUrl = `http://localhost:8080${layout.basePath}index.html`;
   channel.appendLine(`[VIEW] Starting HTTP server (no caching): ${serverCommand}`);
   
   terminal.sendText(serverCommand);
@@ -20,8 +20,50 @@ export const SLIDES_DIR = 'slides';
 /** Templates directory name (relative to course root) */
 export const TEMPLATE_DIR = 'template';
 
-/** Built course output directory */
-export const BUILT_DIR = 'dist';
+/** Course-local state directory (build status files, caches) */
+export const SLIMAN_STATE_DIR = '.sliman';
+
+/** Backups of migrated config files (relative to SLIMAN_STATE_DIR) */
+export const SLIMAN_BACKUPS_DIR = 'backups';
+
+/** Local server folder linking a custom basePath to the output directory (relative to SLIMAN_STATE_DIR) */
+export const SLIMAN_SERVE_DIR = 'serve';
+
+/** Course lecture templates, one folder per template (relative to SLIMAN_STATE_DIR) */
+export const LECTURE_TEMPLATES_DIR = 'templates';
+
+/** Name of the bundled lecture template (template/slides.md); a course template of this name replaces it */
+export const DEFAULT_LECTURE_TEMPLATE = 'default';
+
+/** JSON schemas folder: in the extension root, and the course copy (relative to SLIMAN_STATE_DIR) */
+export const SCHEMAS_DIR = 'schemas';
+
+/** JSON schema of slides.json */
+export const SLIDES_SCHEMA_FILENAME = 'slides.schema.json';
+
+/**
+ * "$schema" of the slides.json files the extension writes: the course copy of the schema.
+ * slides.json is too common a name to match globally, so only course files reference the schema.
+ */
+export const SLIDES_SCHEMA_REF = `./${SLIMAN_STATE_DIR}/${SCHEMAS_DIR}/${SLIDES_SCHEMA_FILENAME}`;
+
+/** Current sliman.json schemaVersion (see utils/slimanMigrations.ts) */
+export const SLIMAN_SCHEMA_VERSION = 1;
+
+/** Build status files directory (relative to SLIMAN_STATE_DIR) */
+export const BUILD_STATUS_DIR = 'build-status';
+
+/** Per-lecture build logs directory (relative to SLIMAN_STATE_DIR) */
+export const BUILD_LOGS_DIR = 'logs';
+
+/** Build manifest filename (content hashes of built lectures, inside the course output directory) */
+export const BUILD_MANIFEST_FILENAME = '.sliman-build-manifest.json';
+
+/** Course output directory in root deploy mode (subdir deploy uses {courseName}/, see utils/outputLayout.ts) */
+export const BUILT_DIR = 'built';
+
+/** slidev build output inside a lecture folder (copied into the course output directory) */
+export const LECTURE_DIST_DIR = 'dist';
 
 /** Template filenames */
 export const TEMPLATE_SLIDES = 'slides.md';
@@ -48,6 +90,27 @@ export const DEFAULT_ROUTER_MODE = 'history';
 export const CONFIG_SECTION = 'sliDevCourse';
 export const CONFIG_COURSE_ROOT = 'courseRoot';
 export const CONFIG_DEPLOY_ROOT = 'deployRoot';
+export const CONFIG_BUILD_MODE = 'buildMode';
+export const CONFIG_BUILD_CONCURRENCY = 'buildConcurrency';
+export const CONFIG_FAIL_FAST = 'failFast';
+export const CONFIG_BUILD_TIMEOUT = 'buildTimeoutSeconds';
+export const CONFIG_BUILD_POLL_INTERVAL = 'buildPollIntervalMs';
+export const CONFIG_EXPORTS_DIR = 'exportsDir';
+
+/** Default build mode: commands typed into a visible VS Code terminal */
+export const DEFAULT_BUILD_MODE = 'terminal';
+
+/** Default number of lectures built at the same time by buildCourse */
+export const DEFAULT_BUILD_CONCURRENCY = 2;
+
+/** Default max duration of one lecture build (10 minutes) */
+export const DEFAULT_BUILD_TIMEOUT_SECONDS = 600;
+
+/** Default exports directory (relative to the course output directory) */
+export const DEFAULT_EXPORTS_DIR = 'exports';
+
+/** Default interval of build status file polling in terminal mode (fallback when fs.watch is unavailable) */
+export const DEFAULT_BUILD_POLL_INTERVAL_MS = 500;
 
 /** Lecture file names */
 export const LECTURE_SLIDES = 'slides.md';
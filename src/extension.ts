@@ -1,18 +1,35 @@
 ﻿'use strict';
 
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { managersContainer } from './managers/ManagersContainer';
-import { EXTENSION_ID, OUTPUT_CHANNEL_NAME } from './constants';
+import type { CourseManagers } from './managers/ManagersContainer';
+import { TitleSyncWatcher } from './managers/TitleSyncWatcher';
+import { CourseFilesWatcher } from './managers/CourseFilesWatcher';
+import { ConfigDiagnosticsProvider } from './providers/ConfigDiagnosticsProvider';
+import { EXTENSION_ID, OUTPUT_CHANNEL_NAME, CONFIG_SECTION, CONFIG_COURSE_ROOT, SCHEMAS_DIR, SLIDES_SCHEMA_FILENAME } from './constants';
 import {
   createCourse,
   scanCourse,
   addLecture,
   buildLecture,
+  buildCourse,
+  rebuildCourse,
+  exportLecture,
+  exportCourse,
+  renameLecture,
+  syncCourseMetadata,
+  migrateConfig,
+  updatePortal,
+  doctor,
+  moveLectureUp,
+  moveLectureDown,
   openSlides,
   editLecture,
   deleteLecture,
   viewCourse,
   setupPages,
+  changeDeployMode,
   initializeCommands
 } from './commands';
 
@@ -23,44 +40,145 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   console.log(`Extension "${EXTENSION_ID}" is now active`);
   context.subscriptions.push(outputChannel);
 
-  // Initialize managers with current workspace
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders || workspaceFolders.length === 0) {
-    void vscode.window.showErrorMessage('No workspace folder is open');
-    // Commands are NOT registered - extension stays in idle state
-    return;
-  } else {
-    managersContainer.initialize(workspaceFolders[0].uri, context, context.extensionPath);
-
-    // Initialize Course Explorer tree view
-    const courseExplorer = managersContainer.courseExplorer;
-    if (courseExplorer) {
-      courseExplorer.initialize(managersContainer);
-      context.subscriptions.push(courseExplorer);
-    }
+  // Per-course resources, also for courses added later (workspace folders, Create Course)
+  context.subscriptions.push(managersContainer.onDidAddCourse((course) => setupCourse(course, context.extensionPath)));
+
+  // Initialize managers with current workspace (no courses without a workspace folder)
+  managersContainer.initialize(context, context.extensionPath);
+  await managersContainer.syncWorkspaceFolders();
 
-    // Initialize commands module with output channel and extension path
-    initializeCommands(outputChannel, context.extensionPath);
-
-    // Register all commands (only when workspace is valid)
-    const commands = [
-      vscode.commands.registerCommand('sliman.createCourse', createCourse),
-      vscode.commands.registerCommand('sliman.scanCourse', scanCourse),
-      vscode.commands.registerCommand('sliman.addLecture', addLecture),
-      vscode.commands.registerCommand('sliman.buildLecture', buildLecture),
-      vscode.commands.registerCommand('sliman.openSlides', openSlides),
-      vscode.commands.registerCommand('sliman.editLecture', editLecture),
-      vscode.commands.registerCommand('sliman.deleteLecture', deleteLecture),
-      vscode.commands.registerCommand('sliman.viewCourse', viewCourse),
-      vscode.commands.registerCommand('sliman.setupPages', setupPages)
-    ];
-
-    context.subscriptions.push(...commands);
+  // Initialize Course Explorer tree view (offers Open Folder / Create Course without a course)
+  const courseExplorer = managersContainer.courseExplorer;
+  if (courseExplorer) {
+    courseExplorer.initialize(managersContainer);
+    context.subscriptions.push(courseExplorer);
   }
+
+  context.subscriptions.push(
+    // One manager set per course: workspace folders with sliman.json and monorepo courses
+    vscode.workspace.onDidChangeWorkspaceFolders(() => void syncCourses()),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration(`${CONFIG_SECTION}.${CONFIG_COURSE_ROOT}`)) {
+        void syncCourses();
+      }
+    }),
+    // sliman.json created or deleted outside Create Course, slides.json and lectures changed on disk
+    new CourseFilesWatcher(syncCourses, () => managersContainer.refreshCourseExplorer()),
+    // Commands from the palette work on the course of the active editor
+    vscode.window.onDidChangeActiveTextEditor((editor) => {
+      if (editor) {
+        managersContainer.selectCourse(editor.document.uri);
+      }
+    })
+  );
+  if (vscode.window.activeTextEditor) {
+    managersContainer.selectCourse(vscode.window.activeTextEditor.document.uri);
+  }
+
+  // Initialize commands module with output channel and extension path
+  initializeCommands(outputChannel, context.extensionPath);
+
+  // Register all commands, also without a course: they report it and offer Open Folder / Create Course
+  const commands = [
+    vscode.commands.registerCommand('sliman.createCourse', createCourse),
+    vscode.commands.registerCommand('sliman.scanCourse', scanCourse),
+    vscode.commands.registerCommand('sliman.addLecture', addLecture),
+    vscode.commands.registerCommand('sliman.buildLecture', buildLecture),
+    vscode.commands.registerCommand('sliman.buildCourse', buildCourse),
+    vscode.commands.registerCommand('sliman.rebuildCourse', rebuildCourse),
+    vscode.commands.registerCommand('sliman.exportLecture', exportLecture),
+    vscode.commands.registerCommand('sliman.exportCourse', exportCourse),
+    vscode.commands.registerCommand('sliman.openSlides', openSlides),
+    vscode.commands.registerCommand('sliman.editLecture', editLecture),
+    vscode.commands.registerCommand('sliman.deleteLecture', deleteLecture),
+    vscode.commands.registerCommand('sliman.renameLecture', renameLecture),
+    vscode.commands.registerCommand('sliman.syncCourseMetadata', syncCourseMetadata),
+    vscode.commands.registerCommand('sliman.migrateConfig', migrateConfig),
+    vscode.commands.registerCommand('sliman.doctor', doctor),
+    vscode.commands.registerCommand('sliman.updatePortal', updatePortal),
+    vscode.commands.registerCommand('sliman.moveLectureUp', moveLectureUp),
+    vscode.commands.registerCommand('sliman.moveLectureDown', moveLectureDown),
+    vscode.commands.registerCommand('sliman.viewCourse', viewCourse),
+    vscode.commands.registerCommand('sliman.setupPages', setupPages),
+    vscode.commands.registerCommand('sliman.changeDeployMode', changeDeployMode)
+  ];
+
+  context.subscriptions.push(...commands);
+}
+
+/**
+ * Re-discovers the courses of the workspace and refreshes the Course Explorer.
+ * Never rejects: course discovery errors are logged to the output channel.
+ */
+async function syncCourses(): Promise<void> {
+  try {
+    await managersContainer.syncWorkspaceFolders();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    outputChannel.appendLine(`[WORKSPACE] ✗ Failed to discover courses: ${errorMessage}`);
+    return;
+  }
+  outputChannel.appendLine(`[WORKSPACE] Courses: ${managersContainer.courses.map((course) => course.root.fsPath).join(', ')}`);
+  managersContainer.refreshCourseExplorer();
+}
+
+/**
+ * Starts the per-course resources of a course: config diagnostics, title sync,
+ * the slides.json schema copy and the slides.json / sliman.json migrations. They are disposed with the course.
+ * @param course - Manager set of the added course
+ * @param extensionPath - Extension root (schemas/)
+ */
+function setupCourse(course: CourseManagers, extensionPath: string): void {
+  const { courseManager, lectureManager, buildManager } = course;
+
+  // Validate sliman.json and slides.json in the editor
+  course.disposables.push(new ConfigDiagnosticsProvider(courseManager));
+
+  // Keep slides.json titles in sync with slides.md frontmatter
+  course.disposables.push(
+    new TitleSyncWatcher(courseManager, lectureManager, async (change) => {
+      outputChannel.appendLine(`[SYNC] Title of "${change.lecture}": "${change.from}" → "${change.to}"`);
+      managersContainer.refreshCourseExplorer();
+      await buildManager.updateIndexHtml();
+    })
+  );
+
+  // Keep the course copy of the slides.json schema ("$schema" of slides.json) current
+  void courseManager.installSlidesSchema(path.join(extensionPath, SCHEMAS_DIR, SLIDES_SCHEMA_FILENAME)).catch(
+    (error) => console.error('Failed to copy the slides.json schema:', error)
+  );
+
+  // Move slides.json of an older course from the output directory to the course root
+  void courseManager.migrateSlidesJson().then(
+    (migrated) => {
+      if (migrated) {
+        outputChannel.appendLine(`[MIGRATE] ${course.root.fsPath}: slides.json copied from the output directory to the course root`);
+      }
+    },
+    (error) => console.error('Failed to migrate slides.json:', error)
+  );
+
+  // Offer to upgrade an old sliman.json (never migrated silently)
+  void courseManager.needsSlimanMigration().then(async (needed) => {
+    if (!needed) {
+      return;
+    }
+    outputChannel.appendLine(`[MIGRATE] ${course.root.fsPath}: sliman.json uses an older format`);
+    const choice = await vscode.window.showInformationMessage(
+      `sliman.json in "${path.basename(course.root.fsPath)}" uses an older format. Migrate it now? A backup is kept in .sliman/backups.`,
+      'Migrate',
+      'Later'
+    );
+    if (choice === 'Migrate') {
+      await vscode.commands.executeCommand('sliman.migrateConfig', course.root);
+    }
+  });
 }
 
 export function deactivate(): void {
   console.log(`Extension "${EXTENSION_ID}" is now deactivated`);
   managersContainer.courseExplorer?.dispose();
+  // Disposes per-course watchers and diagnostics
+  managersContainer.reset();
   outputChannel.dispose();
 }
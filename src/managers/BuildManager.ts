@@ -5,57 +5,135 @@ import * as fs from 'fs';
 import * as path from 'path';
 import type { CourseManager } from './CourseManager';
 import type { LectureManager } from './LectureManager';
+import type { IShellCommandBuilder } from '../utils/shell';
+import { createShellCommandBuilder, detectShellKind } from '../utils/shell';
+import { ProcessHelper, EXIT_CODE_CANCELLED } from '../utils/process';
+import {
+  CONFIG_SECTION,
+  CONFIG_BUILD_MODE,
+  CONFIG_BUILD_CONCURRENCY,
+  CONFIG_FAIL_FAST,
+  CONFIG_BUILD_TIMEOUT,
+  CONFIG_BUILD_POLL_INTERVAL,
+  DEFAULT_BUILD_MODE,
+  DEFAULT_BUILD_CONCURRENCY,
+  DEFAULT_BUILD_TIMEOUT_SECONDS,
+  DEFAULT_BUILD_POLL_INTERVAL_MS,
+  SLIMAN_STATE_DIR,
+  BUILD_STATUS_DIR,
+  BUILD_LOGS_DIR,
+  LECTURE_DIST_DIR,
+} from '../constants';
+import type {
+  BuildMode,
+  BuildErrorType,
+  BuildStatus,
+  BuildCourseOptions,
+  BuildLectureOptions,
+  BuildStep,
+  BuildTimings,
+  BuildManifestEntry,
+  CourseBuildReport,
+  CourseOutputLayout,
+  LectureBuildResult,
+} from '../types';
+import { isBuildError } from '../types';
+import { runWithConcurrency } from '../utils/concurrency';
+import { BuildCompletionWatcher } from '../utils/completionWatcher';
+import { EXPORT_FORMAT_LABELS, findLectureExports, getExportsDirName } from '../utils/exports';
+import { hashLectureSources, readBuildManifest, writeBuildManifest } from '../utils/buildManifest';
 
 /**
- * Build Manager — Orchestrates build processes via VS Code terminals.
+ * Build Manager — Orchestrates build processes via VS Code terminals or headless processes.
  *
- * All build commands run in real VS Code terminals that the user can see,
- * interact with, and cancel (Ctrl+C / close terminal).
+ * Build mode is chosen by the `sliDevCourse.buildMode` setting:
+ * - `terminal` (default) — commands run in real VS Code terminals that the user can see,
+ *   interact with, and cancel (Ctrl+C / close terminal).
+ * - `headless` — `slidev build` is spawned via ProcessHelper.execStream, output is streamed
+ *   to the output channel and the exit code decides success. Cleaning and copying are done
+ *   with Node fs. Gives deterministic pass/fail results for CI-like runs and tests.
  *
- * Build execution path:
+ * Terminal build execution path:
  * - buildLecture(name) — creates/reuses a terminal, sends clean + build + copy commands,
- *   waits for '.sliman-build-status.json' file to detect completion.
- * - buildCourse() — reuses the shared 'sli.dev' terminal, sends commands for each lecture
- *   sequentially, then updates index.html via FS.
+ *   waits for its own status file to detect completion.
+ * - buildCourse() — builds lectures in parallel, up to `sliDevCourse.buildConcurrency` at a time.
+ *   Each worker slot has its own terminal ('sli.dev', 'sli.dev #2', ...) and builds its lectures
+ *   one after another; a slot gets a fresh terminal when its previous build did not report completion.
+ *   index.html is updated via FS once every lecture succeeded or failed.
+ *   Builds are incremental: lectures whose source hash and base path match the build manifest
+ *   ('.sliman-build-manifest.json' in the output directory) are skipped unless `force` is set.
+ *   With `sliDevCourse.failFast` no new lecture starts after a failure. Returns a per-lecture
+ *   report (succeeded / failed / skipped) instead of stopping at the first error.
  * - runDevServer(name) — creates/reuses a per-lecture terminal, runs pnpm run dev.
  *
+ * Build logs:
+ * - Every lecture build writes '.sliman/logs/{lecture}.log'. Headless builds log the full
+ *   slidev output; terminal builds log the commands and the result (output stays in the terminal).
+ *
+ * Shell support:
+ * - Commands are generated for the shell of the terminal profile (vscode.env.shell),
+ *   falling back to the platform default: PowerShell on Windows, POSIX sh on Unix.
+ * - PowerShell, POSIX shells (bash/zsh/sh) and cmd.exe are supported (see utils/shell.ts).
+ *
  * Signal protocol:
- * - After each lecture build, the last command writes '.sliman-build-status.json' file
- *   with content {"status": "done"}.
- * - The manager polls for this file to know the build completed.
- * - If the file is not detected within 10 minutes, the build is considered failed.
+ * - Every lecture build gets a unique build id and its own status file
+ *   '.sliman/build-status/{buildId}.json', so several lectures can build at once
+ *   (each in its own terminal) without resolving each other's promises.
+ * - The exit code of `slidev build` is captured in the shell; dist is copied only on success.
+ * - Before each step (clean, build, copy) the terminal writes {"status": "running", "step": "..."},
+ *   which drives progress reporting and tells a cancelled build whether copying had started.
+ * - The last command writes {"status": "done", "exitCode": 0} or
+ *   {"status": "failed", "exitCode": N, "error": "..."} into the status file.
+ * - BuildCompletionWatcher watches this file (fs.watch, polling as fallback) to know the build completed.
+ * - If the build does not finish in time, it is considered failed (type 'timeout') and its terminal
+ *   is disposed, so the still running build neither blocks later builds nor rewrites its status file.
  * - If the user closes the terminal, the build is considered cancelled.
+ *
+ * Timing: the build timeout and the status file poll interval come from sliman.json
+ * ("build": { "timeoutSeconds", "pollIntervalMs" }), then from the
+ * `sliDevCourse.buildTimeoutSeconds` / `sliDevCourse.buildPollIntervalMs` settings (see getBuildTimings).
+ *
+ * Cancellation (BuildLectureOptions.signal):
+ * - headless: the build process tree is killed (the process group of the shell on POSIX); terminal: the build terminal is disposed.
+ * - If copying had already started, the half-copied output directory is removed
+ *   (also when a build times out during copying).
  */
 
-// Max wait time for build signal (10 minutes)
-const BUILD_SIGNAL_TIMEOUT_MS = 600000;
-
 export class BuildManager {
-  /** Shared terminal for course-level builds (buildCourse) */
-  private courseTerminal: vscode.Terminal | null = null;
+  /** Worker terminals for course-level builds (buildCourse): slot -> Terminal */
+  private readonly courseTerminals = new Map<number, vscode.Terminal>();
 
   /** Map of per-lecture terminals: lectureName -> Terminal */
   private readonly lectureTerminals = new Map<string, vscode.Terminal>();
 
+  /** Terminals whose last build has not reported its final status yet */
+  private readonly pendingTerminals = new Set<vscode.Terminal>();
+
   /**
    * Creates a new BuildManager instance.
+   * @param createTerminal - Creates build and dev server terminals (replaced in tests)
    */
   constructor(
     private readonly courseManager: CourseManager,
-    private readonly lectureManager: LectureManager
+    private readonly lectureManager: LectureManager,
+    private readonly createTerminal: (options: vscode.TerminalOptions) => vscode.Terminal =
+      (options) => vscode.window.createTerminal(options)
   ) {}
 
   /**
    * Disposes all resources held by BuildManager.
    */
   dispose(): void {
-    this.courseTerminal?.dispose();
-    this.courseTerminal = null;
+    for (const [, terminal] of this.courseTerminals) {
+      terminal.dispose();
+    }
+    this.courseTerminals.clear();
 
     for (const [, terminal] of this.lectureTerminals) {
       terminal.dispose();
     }
     this.lectureTerminals.clear();
+    this.pendingTerminals.clear();
   }
 
   // ============================================
@@ -65,23 +143,27 @@ export class BuildManager {
   /**
    * Builds a single lecture using a dedicated terminal.
    *
-   * Steps (sent via terminal.sendText):
+   * Steps (sent via terminal.sendText, in the syntax of the terminal's shell):
    * 1. cd lecture-path
-   * 2. Clean Vite cache: rm -rf node_modules/.vite; rm -rf dist
-   * 3. Build: pnpm build --base /...
-   * 4. Clean destination: rm -rf dest-path
-   * 5. Copy: cp -r dist dest-path
-   * 6. Signal: write .sliman-build-status.json file
+   * 2. Clean Vite cache: remove node_modules/.vite and dist
+   * 3. Build: npx slidev build --base /...
+   * 4. Clean destination: remove dest-path
+   * 5. Copy: copy dist contents to dest-path (only if the build exited with code 0)
+   * 6. Signal: write the status file of this build
+   *
+   * Waits for the build's own status file to detect completion.
    *
-   * Waits for '.sliman-build-status.json' file to detect completion.
+   * In headless mode the same steps run without a terminal (see runHeadlessBuild).
    *
    * @param name - Lecture folder name
    * @param deployRoot - When false: --base /{courseName}/{lectureName}/, copy to {courseName}/{lectureName}/
    *                     When true:  --base /{lectureName}/, copy to built/{lectureName}/
-   * @returns Promise resolving when build completes (signal detected)
-   * @throws Error if lecture doesn't exist or build fails
+   *                     (the output folder is sliman.json `outputDir` when set, see CourseManager.getOutputLayout)
+   * @param options - Output channel (headless mode), cancellation signal and step callback
+   * @returns Promise resolving when build completes (signal detected or process exited)
+   * @throws Error if lecture doesn't exist, build fails or is cancelled (type 'cancelled')
    */
-  async buildLecture(name: string, deployRoot: boolean = false): Promise<void> {
+  async buildLecture(name: string, deployRoot: boolean = false, options: BuildLectureOptions = {}): Promise<void> {
     // Check if lecture exists
     if (!(await this.lectureManager.lectureExists(name))) {
       throw Object.assign(
@@ -90,69 +172,352 @@ export class BuildManager {
       );
     }
 
+    // Resolve output directory and base path
+    const layout = await this.courseManager.getOutputLayout(deployRoot);
+    if (!layout) {
+      throw new Error('Course name not found in sliman.json');
+    }
+
+    // Hash sources before building, so edits made during the build trigger the next rebuild
+    const { basePath } = this.getLectureBuildTarget(name, layout);
+    const hash = await hashLectureSources(this.lectureManager.getLectureDir(name).fsPath);
+
+    // Build in a terminal dedicated to this lecture
+    const timings = await this.getBuildTimings();
+    await this.runLectureBuild(name, layout, () => this.getOrCreateLectureTerminal(name), options, timings);
+
+    // Record the build so the next course build can skip this lecture
+    const outputDir = layout.outputDir.fsPath;
+    const manifest = await readBuildManifest(outputDir);
+    manifest.lectures[name] = { hash, basePath, builtAt: new Date().toISOString() };
+    await writeBuildManifest(outputDir, manifest);
+  }
+
+  /**
+   * Runs one lecture build in the configured build mode and records it in the lecture's build log.
+   * A cancelled or timed-out build that had started copying removes its half-copied output.
+   * @param getTerminal - Supplies the terminal to use in terminal mode
+   */
+  private async runLectureBuild(
+    name: string,
+    layout: CourseOutputLayout,
+    getTerminal: () => vscode.Terminal,
+    options: BuildLectureOptions,
+    timings: BuildTimings
+  ): Promise<void> {
+    this.throwIfCancelled(name, options.signal);
     const lecturePath = this.lectureManager.getLectureDir(name).fsPath;
 
-    // Get course name for base path
-    const courseName = await this.courseManager.readCourseName();
-    if (!courseName) {
-      throw new Error('Course name not found in sliman.json');
+    // Determine base path and copy destination from the output layout
+    const { basePath, copyDestination } = this.getLectureBuildTarget(name, layout);
+
+    const mode = this.getBuildMode();
+    const logFile = this.startLectureLog(name, [
+      `Lecture: ${name}`,
+      `Mode: ${mode}`,
+      `Base: ${basePath}`,
+      `Output: ${copyDestination}`,
+    ]);
+
+    try {
+      if (mode === 'headless') {
+        await this.runHeadlessBuild(name, lecturePath, basePath, copyDestination, logFile, options, timings);
+      } else {
+        const terminal = getTerminal();
+        this.pendingTerminals.add(terminal);
+        this.appendLectureLog(logFile, `Build output: terminal "${terminal.name}"`);
+
+        // Send build commands with a status file unique to this build
+        const statusFilePath = this.prepareStatusFile(name);
+        const commands = this.sendBuildCommands(terminal, lecturePath, basePath, copyDestination, statusFilePath);
+        this.appendLectureLog(logFile, ...commands.map((command) => `$ ${command}`));
+
+        // Wait for build signal
+        await this.waitForBuildDone(terminal, name, statusFilePath, options, timings);
+      }
+    } catch (error) {
+      const { type, step } = isBuildError(error) ? error : { type: undefined, step: undefined };
+      if (type === 'cancelled') {
+        this.appendLectureLog(logFile, `[RESULT] cancelled${step ? ` during ${step}` : ''}`);
+      } else {
+        this.appendLectureLog(logFile, `[RESULT] failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      if ((type === 'cancelled' || type === 'timeout') && step === 'copy') {
+        await fs.promises.rm(copyDestination, { recursive: true, force: true });
+        this.appendLectureLog(logFile, `Removed half-copied output: ${copyDestination}`);
+      }
+      throw error;
     }
 
-    // Determine base path and copy destination based on deployRoot mode
-    let basePath: string;
-    let copyDestination: string;
+    this.appendLectureLog(logFile, '[RESULT] succeeded');
+  }
 
-    if (deployRoot) {
-      basePath = `/${name}/`;
-      copyDestination = path.join(this.courseManager.getCourseRoot().fsPath, 'built', name);
-    } else {
-      basePath = `/${courseName}/${name}/`;
-      copyDestination = path.join(this.courseManager.getCourseRoot().fsPath, courseName, name);
+  /**
+   * Determines the --base path and copy destination of a lecture in the given output layout.
+   */
+  private getLectureBuildTarget(name: string, layout: CourseOutputLayout): { basePath: string; copyDestination: string } {
+    const { dir, basePath } = this.courseManager.getLectureOutput(layout, name);
+    return { basePath, copyDestination: dir.fsPath };
+  }
+
+  /**
+   * Checks whether a lecture's output is current: same source hash and base path
+   * as in the manifest, and the output directory still exists.
+   */
+  private isLectureUpToDate(
+    entry: BuildManifestEntry | undefined,
+    hash: string,
+    basePath: string,
+    copyDestination: string
+  ): boolean {
+    return !!entry && entry.hash === hash && entry.basePath === basePath && fs.existsSync(copyDestination);
+  }
+
+  /**
+   * Reads the build mode from the `sliDevCourse.buildMode` setting.
+   */
+  private getBuildMode(): BuildMode {
+    const mode = vscode.workspace
+      .getConfiguration(CONFIG_SECTION, this.courseManager.getCourseRoot())
+      .get<string>(CONFIG_BUILD_MODE, DEFAULT_BUILD_MODE);
+    return mode === 'headless' ? 'headless' : 'terminal';
+  }
+
+  /**
+   * Reads the number of lectures built at the same time from `sliDevCourse.buildConcurrency`.
+   */
+  private getBuildConcurrency(): number {
+    const concurrency = vscode.workspace
+      .getConfiguration(CONFIG_SECTION, this.courseManager.getCourseRoot())
+      .get<number>(CONFIG_BUILD_CONCURRENCY, DEFAULT_BUILD_CONCURRENCY);
+    return Number.isInteger(concurrency) && concurrency > 0 ? concurrency : DEFAULT_BUILD_CONCURRENCY;
+  }
+
+  /**
+   * Throws the 'cancelled' build error if the signal was aborted.
+   */
+  private throwIfCancelled(name: string, signal: AbortSignal | undefined, step?: BuildStep): void {
+    if (signal?.aborted) {
+      throw Object.assign(
+        new Error(`Build cancelled for lecture "${name}"`),
+        { type: 'cancelled' as const, lecture: name, step }
+      );
     }
+  }
 
-    // Get or create terminal for this lecture
-    const terminal = this.getOrCreateLectureTerminal(name);
+  /**
+   * Resolves build timing for this course.
+   * Precedence: sliman.json "build" overrides, then `sliDevCourse.buildTimeoutSeconds` /
+   * `sliDevCourse.buildPollIntervalMs`, then the defaults (10 minutes / 500 ms).
+   * Also used as the `slidev export` timeout.
+   */
+  async getBuildTimings(): Promise<BuildTimings> {
+    const settings = vscode.workspace.getConfiguration(CONFIG_SECTION, this.courseManager.getCourseRoot());
+    const overrides = await this.courseManager.readBuildConfig();
+    const positive = (value: number | undefined, fallback: number): number =>
+      typeof value === 'number' && value > 0 ? value : fallback;
+
+    const timeoutSeconds = overrides.timeoutSeconds
+      ?? positive(settings.get<number>(CONFIG_BUILD_TIMEOUT), DEFAULT_BUILD_TIMEOUT_SECONDS);
+    const pollIntervalMs = overrides.pollIntervalMs
+      ?? positive(settings.get<number>(CONFIG_BUILD_POLL_INTERVAL), DEFAULT_BUILD_POLL_INTERVAL_MS);
+
+    return { timeoutMs: timeoutSeconds * 1000, pollIntervalMs };
+  }
+
+  /**
+   * Reads `sliDevCourse.failFast`: stop starting lectures after the first failure.
+   */
+  private getFailFast(): boolean {
+    return vscode.workspace
+      .getConfiguration(CONFIG_SECTION, this.courseManager.getCourseRoot())
+      .get<boolean>(CONFIG_FAIL_FAST, false) === true;
+  }
+
+  // ============================================
+  // Build logs
+  // ============================================
+
+  /**
+   * Gets the build log path of a lecture: '.sliman/logs/{lecture}.log'.
+   */
+  getLectureLogPath(name: string): string {
+    return path.join(this.courseManager.getCourseRoot().fsPath, SLIMAN_STATE_DIR, BUILD_LOGS_DIR, `${name}.log`);
+  }
 
-    // Send build commands
-    this.sendBuildCommands(terminal, lecturePath, basePath, copyDestination);
+  /**
+   * Starts a fresh build log for a lecture, replacing the previous one.
+   * @param header - Lines written after the timestamp line
+   * @returns Absolute path of the log file
+   */
+  private startLectureLog(name: string, header: string[]): string {
+    const logFile = this.getLectureLogPath(name);
+    fs.mkdirSync(path.dirname(logFile), { recursive: true });
+    fs.writeFileSync(logFile, [`Build started: ${new Date().toISOString()}`, ...header, ''].join('\n'), 'utf-8');
+    return logFile;
+  }
 
-    // Wait for build signal
-    await this.waitForBuildDone(terminal, name);
+  /**
+   * Appends lines to a lecture build log. Logging never fails a build.
+   */
+  private appendLectureLog(logFile: string, ...lines: string[]): void {
+    try {
+      fs.appendFileSync(logFile, lines.map((line) => `${line}\n`).join(''), 'utf-8');
+    } catch {
+      // Log directory removed during the build — ignore
+    }
   }
 
+  // ============================================
+  // Build single lecture without terminal (headless)
+  // ============================================
+
+  /**
+   * Builds a lecture by spawning `slidev build` directly.
+   *
+   * Steps:
+   * 1. Clean Vite cache and dist (Node fs)
+   * 2. Build: npx slidev build --base /... (ProcessHelper.execStream, output streamed)
+   * 3. Clean destination and copy dist contents (Node fs) — only after exit code 0
+   *
+   * Cancellation kills the build process; it is honoured until copying starts.
+   *
+   * @param logFile - Lecture build log receiving the full build output
+   * @throws Error with type 'build-failed', 'timeout' or 'cancelled' when the build process fails
+   */
+  private async runHeadlessBuild(
+    name: string,
+    lecturePath: string,
+    basePath: string,
+    copyDestination: string,
+    logFile: string,
+    options: BuildLectureOptions,
+    timings: BuildTimings
+  ): Promise<void> {
+    const { outputChannel, signal, onStep } = options;
+    const distPath = path.join(lecturePath, LECTURE_DIST_DIR);
+
+    // Step 1: Clean Vite cache and dist
+    onStep?.(name, 'clean');
+    outputChannel?.appendLine(`[BUILD] ${name}: cleaning Vite cache and dist`);
+    await fs.promises.rm(path.join(lecturePath, 'node_modules', '.vite'), { recursive: true, force: true });
+    await fs.promises.rm(distPath, { recursive: true, force: true });
+
+    // Step 2: Build (real exit code, output streamed to the channel)
+    this.throwIfCancelled(name, signal, 'clean');
+    onStep?.(name, 'build');
+    const command = `npx slidev build --base ${basePath}`;
+    outputChannel?.appendLine(`[BUILD] ${name}: ${command}`);
+    this.appendLectureLog(logFile, `$ ${command}`);
+    const result = await ProcessHelper.execStream(
+      command,
+      { cwd: lecturePath, timeout: timings.timeoutMs, outputChannel, signal },
+      (_type, data) => this.appendLectureLog(logFile, data.replace(/\n$/, ''))
+    );
+    this.appendLectureLog(logFile, `Exit code: ${result.exitCode}`);
+
+    if (result.exitCode === EXIT_CODE_CANCELLED) {
+      this.throwIfCancelled(name, signal, 'build');
+    }
+
+    if (!result.success) {
+      const type: BuildErrorType = result.exitCode === 124 ? 'timeout' : 'build-failed';
+      const reason = type === 'timeout'
+        ? `timed out after ${timings.timeoutMs / 1000} seconds`
+        : `slidev build exited with code ${result.exitCode}`;
+      throw Object.assign(
+        new Error(`Build failed for lecture "${name}": ${reason}`),
+        { type, lecture: name, exitCode: result.exitCode }
+      );
+    }
+
+    if (!fs.existsSync(distPath)) {
+      throw Object.assign(
+        new Error(`Build failed for lecture "${name}": dist directory was not produced`),
+        { type: 'build-failed' as const, lecture: name, exitCode: result.exitCode }
+      );
+    }
+
+    // Step 3: Clean destination and copy built files
+    this.throwIfCancelled(name, signal, 'build');
+    onStep?.(name, 'copy');
+    outputChannel?.appendLine(`[BUILD] ${name}: copying dist to ${copyDestination}`);
+    await fs.promises.rm(copyDestination, { recursive: true, force: true });
+    await fs.promises.mkdir(copyDestination, { recursive: true });
+    await fs.promises.cp(distPath, copyDestination, { recursive: true });
+  }
+
+  // ============================================
+  // Terminal build helpers
+  // ============================================
+
   /**
    * Sends all build commands to the terminal sequentially.
    * The last command writes a status file for the extension to detect completion.
+   * @returns The command lines sent, in order
    */
   private sendBuildCommands(
     terminal: vscode.Terminal,
     lecturePath: string,
     basePath: string,
-    copyDestination: string
-  ): void {
-    // Step 1: Change to lecture directory (PowerShell: Set-Location)
-    terminal.sendText('Set-Location "' + lecturePath + '"');
-
-    // Step 2: Clean Vite cache and dist (PowerShell: Remove-Item -Recurse -Force)
-    // Use forward slashes — PowerShell accepts them on Windows
-    terminal.sendText('Remove-Item -Path "node_modules/.vite" -Recurse -Force -ErrorAction SilentlyContinue');
-    terminal.sendText('Remove-Item -Path "dist" -Recurse -Force -ErrorAction SilentlyContinue');
-
-    // Step 3: Build (use npx to avoid pnpm wrapping args in PowerShell)
-    terminal.sendText(`npx slidev build --base ${basePath}`);
-
-    // Step 4: Clean destination (PowerShell)
-    terminal.sendText(`Remove-Item -Path "${copyDestination}" -Recurse -Force -ErrorAction SilentlyContinue`);
-
-    // Step 5: Copy built files (PowerShell: Copy-Item -Recurse)
-    // Only copy if dist exists (build succeeded)
-    // Use "dist/." to copy all contents including subdirectories
-    terminal.sendText('if (Test-Path "dist") { Copy-Item -Path "dist/." -Destination "' + copyDestination + '" -Recurse -Force }');
-
-    // Step 6: Write status file (PowerShell: Set-Content)
-    const courseRoot = this.courseManager.getCourseRoot().fsPath;
-    const statusFile = JSON.stringify({ status: 'done' });
-    terminal.sendText(`Set-Content -Path "${path.join(courseRoot, '.sliman-build-status.json')}" -Value '${statusFile}'`);
+    copyDestination: string,
+    statusFilePath: string
+  ): string[] {
+    const shell = this.getShellCommands();
+    const running = (step: BuildStep): string =>
+      shell.writeFile(statusFilePath, JSON.stringify({ status: 'running', step } satisfies BuildStatus));
+
+    const commands = [
+      // Step 1: Change to lecture directory
+      shell.changeDirectory(lecturePath),
+
+      // Step 2: Clean Vite cache and dist (paths are relative to the lecture directory)
+      running('clean'),
+      shell.removeDirectory(path.join('node_modules', '.vite')),
+      shell.removeDirectory(LECTURE_DIST_DIR),
+
+      // Step 3: Build (use npx to avoid pnpm wrapping args in PowerShell)
+      running('build'),
+      `npx slidev build --base ${basePath}`,
+      shell.captureExitCode(),
+
+      // Step 4: Clean destination and copy built files — only if the build succeeded
+      shell.ifBuildSucceeded(running('copy')),
+      shell.ifBuildSucceeded(shell.removeDirectory(copyDestination)),
+      shell.ifBuildSucceeded(shell.copyDirectoryContentsIfExists(LECTURE_DIST_DIR, copyDestination)),
+
+      // Step 5: Write status file with the captured exit code
+      shell.writeBuildStatus(statusFilePath),
+    ];
+
+    for (const command of commands) {
+      terminal.sendText(command);
+    }
+    return commands;
+  }
+
+  /**
+   * Allocates the status file of a new build: '.sliman/build-status/{buildId}.json'.
+   * The directory is created up front because shells only write the file itself.
+   * @param lectureName - Lecture the build id is derived from
+   * @returns Absolute path of the status file
+   */
+  private prepareStatusFile(lectureName: string): string {
+    const statusDir = path.join(this.courseManager.getCourseRoot().fsPath, SLIMAN_STATE_DIR, BUILD_STATUS_DIR);
+    fs.mkdirSync(statusDir, { recursive: true });
+
+    const buildId = `${lectureName}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    const statusFilePath = path.join(statusDir, `${buildId}.json`);
+    try { fs.unlinkSync(statusFilePath); } catch { /* ignore */ }
+    return statusFilePath;
+  }
+
+  /**
+   * Gets the command builder for the shell new terminals start with
+   * (terminal profile shell, or the platform default).
+   */
+  private getShellCommands(): IShellCommandBuilder {
+    return createShellCommandBuilder(detectShellKind());
   }
 
   /**
@@ -169,198 +534,268 @@ export class BuildManager {
     }
 
     // Create new terminal
-    terminal = vscode.window.createTerminal({ name: terminalName });
+    terminal = this.createTerminal({ name: terminalName });
     this.lectureTerminals.set(name, terminal);
 
     return terminal;
   }
 
   /**
-   * Waits for the build status file to appear (file-based signal).
-   * Rejects if the file does not appear within timeout or terminal is closed.
+   * Removes a disposed terminal from the terminal maps so it is not reused.
    */
-  private waitForBuildDone(terminal: vscode.Terminal, lectureName: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const statusFilePath = path.join(this.courseManager.getCourseRoot().fsPath, '.sliman-build-status.json');
-      let done = false;
-
-      // Poll for the status file
-      const pollInterval = setInterval(() => {
-        if (done) return;
-
-        try {
-          if (fs.existsSync(statusFilePath)) {
-            const content = fs.readFileSync(statusFilePath, 'utf-8');
-            const status = JSON.parse(content);
-
-            done = true;
-            clearInterval(pollInterval);
-
-            // Clean up the status file
-            try { fs.unlinkSync(statusFilePath); } catch { /* ignore */ }
-
-            if (status.status === 'done') {
-              resolve();
-            } else {
-              reject(new Error(`Build failed for lecture "${lectureName}": ${status.error || 'unknown error'}`));
-            }
-          }
-        } catch {
-          // File not ready yet or parse error — keep polling
-        }
-      }, 500);
-
-      // Timeout: if signal not received within BUILD_SIGNAL_TIMEOUT_MS
-      const timeoutHandle = setTimeout(() => {
-        if (!done) {
-          done = true;
-          clearInterval(pollInterval);
-          reject(Object.assign(
-            new Error(`Build timed out after ${BUILD_SIGNAL_TIMEOUT_MS / 1000} seconds for lecture "${lectureName}"`),
-            { type: 'timeout' as const, lecture: lectureName }
-          ));
-        }
-      }, BUILD_SIGNAL_TIMEOUT_MS);
-
-      // If terminal is closed by user, cancel the build
-      const closeListener = vscode.window.onDidCloseTerminal((closed) => {
-        if (closed === terminal && !done) {
-          done = true;
-          clearInterval(pollInterval);
-          clearTimeout(timeoutHandle);
-          closeListener.dispose();
-          reject(new Error(`Build cancelled: terminal "${terminal.name}" was closed`));
+  private forgetTerminal(terminal: vscode.Terminal): void {
+    this.pendingTerminals.delete(terminal);
+    for (const [name, lectureTerminal] of this.lectureTerminals) {
+      if (lectureTerminal === terminal) {
+        this.lectureTerminals.delete(name);
+      }
+    }
+    for (const [slot, courseTerminal] of this.courseTerminals) {
+      if (courseTerminal === terminal) {
+        this.courseTerminals.delete(slot);
+      }
+    }
+  }
+
+  /**
+   * Waits for the build status file to report completion (see BuildCompletionWatcher).
+   * 'running' statuses are reported through `options.onStep`.
+   * Rejects if the build fails, does not finish within timeout, the terminal is closed
+   * or `options.signal` is aborted. On timeout and abort the terminal is disposed, which stops the build.
+   */
+  private async waitForBuildDone(
+    terminal: vscode.Terminal,
+    lectureName: string,
+    statusFilePath: string,
+    options: BuildLectureOptions,
+    timings: BuildTimings
+  ): Promise<void> {
+    const { signal, onStep } = options;
+    const watcher = new BuildCompletionWatcher({
+      statusFilePath,
+      timeoutMs: timings.timeoutMs,
+      pollIntervalMs: timings.pollIntervalMs,
+      terminal,
+      signal,
+      onStatus: (status) => {
+        if (status.step) {
+          onStep?.(lectureName, status.step);
         }
-      });
+      },
     });
+
+    const outcome = await watcher.wait();
+
+    // Clean up the status file
+    try { fs.unlinkSync(statusFilePath); } catch { /* ignore */ }
+
+    switch (outcome.kind) {
+      case 'finished':
+        // The shell is idle again and the terminal can take the next build
+        this.pendingTerminals.delete(terminal);
+        if (outcome.status.status === 'done') {
+          return;
+        }
+        throw Object.assign(
+          new Error(`Build failed for lecture "${lectureName}": ${outcome.status.error || 'unknown error'}`),
+          { type: 'build-failed' as const, lecture: lectureName, exitCode: outcome.status.exitCode }
+        );
+
+      case 'timeout': {
+        // The build may still be running: dispose the terminal so it neither blocks the next build
+        // in this terminal nor writes the status file after it was removed
+        this.forgetTerminal(terminal);
+        terminal.dispose();
+
+        const step = outcome.lastStatus?.status === 'running' ? outcome.lastStatus.step : undefined;
+        throw Object.assign(
+          new Error(`Build timed out after ${timings.timeoutMs / 1000} seconds for lecture "${lectureName}"`),
+          { type: 'timeout' as const, lecture: lectureName, step }
+        );
+      }
+
+      case 'terminal-closed':
+        throw new Error(`Build cancelled: terminal "${terminal.name}" was closed`);
+
+      case 'aborted': {
+        // Cancellation: dispose the terminal, which stops the build
+        this.forgetTerminal(terminal);
+        terminal.dispose();
+
+        // The shell writes each step before running it, so the last status tells whether copying had started
+        const step = outcome.lastStatus?.status === 'running' ? outcome.lastStatus.step : undefined;
+        throw Object.assign(
+          new Error(`Build cancelled for lecture "${lectureName}"`),
+          { type: 'cancelled' as const, lecture: lectureName, step }
+        );
+      }
+    }
   }
 
   // ============================================
-  // Build entire course via shared terminal
+  // Build entire course in parallel
   // ============================================
 
   /**
-   * Builds the entire course using a shared terminal.
-   * Each lecture is built sequentially in the same terminal.
-   * After all lectures are built, updates index.html via FS.
+   * Builds the entire course, up to `sliDevCourse.buildConcurrency` lectures at a time.
+   * Lectures unchanged since their last successful build are skipped unless `options.force` is set.
+   * A failing lecture does not stop the others unless `sliDevCourse.failFast` is enabled:
+   * then lectures not started yet are skipped, lectures already building are finished.
+   * Per-lecture progress is reported through `options.onProgress` and the output channel.
+   * Aborting `options.signal` cancels running lectures and skips the remaining ones.
+   * After all lectures settled, writes the build manifest and updates index.html via FS.
+   * @param options - Output channel, progress and step callbacks, cancellation signal and force flag
+   * @returns Per-lecture results (succeeded / failed / skipped)
+   * @throws Error if the course has no lectures or no course name
    */
-  async buildCourse(): Promise<void> {
-    const terminal = this.getCourseTerminal();
+  async buildCourse(options: BuildCourseOptions = {}): Promise<CourseBuildReport> {
+    const { outputChannel, onProgress, signal, force = false } = options;
     const lectureDirs = await this.courseManager.getLectureDirectories();
 
     if (lectureDirs.length === 0) {
       throw new Error('No lectures found in course');
     }
 
-    const courseRoot = this.courseManager.getCourseRoot();
-    const courseName = await this.courseManager.readCourseName();
-    if (!courseName) {
+    // Resolve output directory and base paths (deploy mode from sliman.json)
+    const layout = await this.courseManager.getOutputLayout();
+    if (!layout) {
       throw new Error('Course name not found in sliman.json');
     }
 
-    // Get deployRoot mode
-    const deployRoot = await this.courseManager.readDeployRoot();
-
+    // Skip non-existent lectures
+    const lectures: string[] = [];
     for (const lectureName of lectureDirs) {
-      // Check if lecture exists
-      if (!(await this.lectureManager.lectureExists(lectureName))) {
-        continue; // Skip non-existent lectures
+      if (await this.lectureManager.lectureExists(lectureName)) {
+        lectures.push(lectureName);
       }
+    }
+
+    // Load the manifest, dropping entries of lectures that no longer exist
+    const outputDir = layout.outputDir.fsPath;
+    const manifest = await readBuildManifest(outputDir);
+    for (const lectureName of Object.keys(manifest.lectures)) {
+      if (!lectures.includes(lectureName)) {
+        delete manifest.lectures[lectureName];
+      }
+    }
 
-      const lecturePath = this.lectureManager.getLectureDir(lectureName).fsPath;
+    const total = lectures.length;
+    const concurrency = this.getBuildConcurrency();
+    const failFast = this.getFailFast();
+    const timings = await this.getBuildTimings();
+    const results: LectureBuildResult[] = new Array(total);
+    let completed = 0;
+    let stoppedEarly = false;
+    outputChannel?.appendLine(
+      `[BUILD] Building ${total} lectures (concurrency: ${Math.min(concurrency, total)}` +
+      `${force ? ', forced rebuild' : ''}${failFast ? ', fail-fast' : ''})`
+    );
+
+    // Records a settled lecture and reports it
+    const settle = (index: number, result: LectureBuildResult): void => {
+      results[index] = result;
+      completed++;
+      const marks: Record<LectureBuildResult['outcome'], string> = { succeeded: '✓', failed: '✗', skipped: '=' };
+      const details = result.message ? `: ${result.message}` : '';
+      outputChannel?.appendLine(`[BUILD] (${completed}/${total}) ${marks[result.outcome]} ${result.lecture}${details}`);
+      onProgress?.({
+        lecture: result.lecture,
+        state: result.outcome,
+        completed,
+        total,
+        error: result.outcome === 'failed' ? result.message : undefined,
+      });
+    };
 
-      // Determine base path and copy destination
-      let basePath: string;
-      let copyDestination: string;
+    await runWithConcurrency(lectures, concurrency, async (lectureName, slot) => {
+      const index = lectures.indexOf(lectureName);
 
-      if (deployRoot) {
-        basePath = `/${lectureName}/`;
-        copyDestination = path.join(courseRoot.fsPath, 'built', lectureName);
-      } else {
-        basePath = `/${courseName}/${lectureName}/`;
-        copyDestination = path.join(courseRoot.fsPath, courseName, lectureName);
+      if (signal?.aborted) {
+        settle(index, { lecture: lectureName, outcome: 'skipped', durationMs: 0, message: 'cancelled' });
+        return;
+      }
+      if (stoppedEarly) {
+        settle(index, { lecture: lectureName, outcome: 'skipped', durationMs: 0, message: 'not started (fail-fast)' });
+        return;
       }
 
-      // Send build commands for this lecture
-      this.sendBuildCommands(terminal, lecturePath, basePath, copyDestination);
-    }
+      const startedAt = Date.now();
+      try {
+        const { basePath, copyDestination } = this.getLectureBuildTarget(lectureName, layout);
+        const hash = await hashLectureSources(this.lectureManager.getLectureDir(lectureName).fsPath);
+
+        if (!force && this.isLectureUpToDate(manifest.lectures[lectureName], hash, basePath, copyDestination)) {
+          settle(index, { lecture: lectureName, outcome: 'skipped', durationMs: 0, message: 'unchanged' });
+          return;
+        }
+
+        outputChannel?.appendLine(`[BUILD] (${completed}/${total}) ▶ ${lectureName}`);
+        onProgress?.({ lecture: lectureName, state: 'started', completed, total });
+
+        await this.runLectureBuild(lectureName, layout, () => this.getCourseTerminal(slot), options, timings);
+
+        manifest.lectures[lectureName] = { hash, basePath, builtAt: new Date().toISOString() };
+        settle(index, {
+          lecture: lectureName,
+          outcome: 'succeeded',
+          durationMs: Date.now() - startedAt,
+          logFile: this.getLectureLogPath(lectureName),
+        });
+      } catch (error) {
+        delete manifest.lectures[lectureName];
+
+        if (isBuildError(error) && error.type === 'cancelled') {
+          settle(index, {
+            lecture: lectureName,
+            outcome: 'skipped',
+            durationMs: Date.now() - startedAt,
+            message: 'cancelled',
+            logFile: this.getLectureLogPath(lectureName),
+          });
+          return;
+        }
 
-    // After all lectures, send course build signal (write status file)
-    const statusFile = JSON.stringify({ status: 'done' });
-    terminal.sendText(`Set-Content -Path "${path.join(courseRoot.fsPath, '.sliman-build-status.json')}" -Value '${statusFile}'`);
+        stoppedEarly = stoppedEarly || failFast;
+        settle(index, {
+          lecture: lectureName,
+          outcome: 'failed',
+          durationMs: Date.now() - startedAt,
+          message: error instanceof Error ? error.message : String(error),
+          logFile: this.getLectureLogPath(lectureName),
+        });
+      }
+    });
 
-    // Wait for course build signal
-    await this.waitForCourseBuildDone(terminal);
+    // Written once after all workers settled, so parallel builds never race on the file
+    await writeBuildManifest(outputDir, manifest);
 
-    // Update index.html via FS (not via terminal)
+    // Update index.html via FS (not via terminal) once every lecture is settled
     await this.updateIndexHtml();
+
+    return { results, stoppedEarly, cancelled: signal?.aborted === true };
   }
 
   /**
-   * Gets or creates the shared course build terminal.
+   * Gets or creates the course build terminal of a worker slot.
+   * Slot 0 keeps the historical 'sli.dev' name.
+   * A terminal whose last build did not report its final status is replaced (and disposed),
+   * so the next lecture never queues behind a build that may still be running.
    */
-  private getCourseTerminal(): vscode.Terminal {
-    if (!this.courseTerminal || this.courseTerminal.exitStatus) {
-      this.courseTerminal = vscode.window.createTerminal({ name: 'sli.dev' });
+  private getCourseTerminal(slot: number): vscode.Terminal {
+    let terminal = this.courseTerminals.get(slot);
+
+    if (terminal && this.pendingTerminals.has(terminal)) {
+      this.forgetTerminal(terminal);
+      terminal.dispose();
+      terminal = undefined;
     }
-    return this.courseTerminal;
-  }
 
-  /**
-   * Waits for the build status file to appear (file-based signal for course build).
-   * Rejects if the file does not appear within timeout or terminal is closed.
-   */
-  private waitForCourseBuildDone(terminal: vscode.Terminal): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const statusFilePath = path.join(this.courseManager.getCourseRoot().fsPath, '.sliman-build-status.json');
-      let done = false;
-
-      // Poll for the status file
-      const pollInterval = setInterval(() => {
-        if (done) return;
-
-        try {
-          if (fs.existsSync(statusFilePath)) {
-            const content = fs.readFileSync(statusFilePath, 'utf-8');
-            const status = JSON.parse(content);
-
-            done = true;
-            clearInterval(pollInterval);
-
-            // Clean up the status file
-            try { fs.unlinkSync(statusFilePath); } catch { /* ignore */ }
-
-            if (status.status === 'done') {
-              resolve();
-            } else {
-              reject(new Error(`Course build failed: ${status.error || 'unknown error'}`));
-            }
-          }
-        } catch {
-          // File not ready yet — keep polling
-        }
-      }, 500);
-
-      // Timeout
-      const timeoutHandle = setTimeout(() => {
-        if (!done) {
-          done = true;
-          clearInterval(pollInterval);
-          reject(new Error('Course build timed out'));
-        }
-      }, BUILD_SIGNAL_TIMEOUT_MS);
-
-      // If terminal is closed by user, cancel the build
-      const closeListener = vscode.window.onDidCloseTerminal((closed) => {
-        if (closed === terminal && !done) {
-          done = true;
-          clearInterval(pollInterval);
-          clearTimeout(timeoutHandle);
-          closeListener.dispose();
-          reject(new Error('Course build cancelled: terminal was closed'));
-        }
-      });
-    });
+    if (!terminal || terminal.exitStatus) {
+      terminal = this.createTerminal({ name: slot === 0 ? 'sli.dev' : `sli.dev #${slot + 1}` });
+      this.courseTerminals.set(slot, terminal);
+    }
+
+    return terminal;
   }
 
   // ============================================
@@ -387,14 +822,15 @@ export class BuildManager {
     const nodeModulesPath = path.join(lecturePath, 'node_modules');
     const hasDeps = fs.existsSync(nodeModulesPath);
 
+    const shell = this.getShellCommands();
+    terminal.sendText(shell.changeDirectory(lecturePath));
+
     if (!hasDeps) {
       // Dependencies not installed — run install first, then dev
-      // Use && to only start dev if install succeeds
-      terminal.sendText('Set-Location "' + lecturePath + '"');
-      terminal.sendText('pnpm install && pnpm run dev');
+      // Only start dev if install succeeds
+      terminal.sendText(shell.chainOnSuccess(['pnpm install', 'pnpm run dev']));
     } else {
-      // Run pnpm run dev (PowerShell: Set-Location)
-      terminal.sendText('Set-Location "' + lecturePath + '"; pnpm run dev');
+      terminal.sendText('pnpm run dev');
     }
     terminal.show();
   }
@@ -404,23 +840,21 @@ export class BuildManager {
   // ============================================
 
   /**
-   * Updates index.html with lecture list from slides.json.
+   * Updates the generated files of the course output directory from slides.json in the course root:
+   * writes the slides.json copy (read by Courser.vue in built lectures) and updates index.html.
    * Finds <!-- Place to insert slide list --><div id="slide_list"></div>
-   * and replaces the content with a numbered list of lectures.
+   * and replaces the content with a numbered list of lectures,
+   * linking each lecture's exports (PDF / PNG / PPTX) when present.
    */
   async updateIndexHtml(): Promise<void> {
     try {
-      const courseName = await this.courseManager.readCourseName();
-      if (!courseName) {
+      const layout = await this.courseManager.getOutputLayout();
+      if (!layout) {
         throw new Error('Course name not found in sliman.json');
       }
 
-      // Determine output directory based on deployRoot mode
-      const deployRoot = await this.courseManager.readDeployRoot();
-      const outputDir = deployRoot ? 'built' : courseName;
-
       const courseRoot = this.courseManager.getCourseRoot();
-      const indexHtmlPath = vscode.Uri.joinPath(courseRoot, outputDir, 'index.html');
+      const indexHtmlPath = layout.indexHtml;
 
       // Read current index.html content
       let indexHtmlContent: string;
@@ -432,17 +866,23 @@ export class BuildManager {
       }
 
       // Read slides.json to get lecture list
-      let slidesConfig: { slides: Array<{ name: string; title: string }> };
+      const slidesConfig = await this.courseManager.readSlidesJson();
+      if (!slidesConfig) {
+        throw new Error('Failed to read slides.json: not found or invalid');
+      }
+
+      // Emit the slides.json copy for the built course (without "$schema": the schema is not deployed)
       try {
-        const slidesPath = vscode.Uri.joinPath(courseRoot, outputDir, 'slides.json');
-        const slidesContent = await vscode.workspace.fs.readFile(slidesPath);
-        slidesConfig = JSON.parse(new TextDecoder().decode(slidesContent));
+        const emitted = JSON.stringify({ slides: slidesConfig.slides }, null, 2);
+        await vscode.workspace.fs.writeFile(layout.slidesJson, new TextEncoder().encode(emitted));
       } catch (error) {
-        throw new Error(`Failed to read slides.json: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw new Error(`Failed to write slides.json: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
 
       // Generate numbered list HTML
-      const lectureListHtml = this.generateLectureListHtml(slidesConfig.slides);
+      const exportsDirName = getExportsDirName(courseRoot);
+      const exportsDir = path.join(layout.outputDir.fsPath, exportsDirName);
+      const lectureListHtml = this.generateLectureListHtml(slidesConfig.slides, exportsDir, exportsDirName);
 
       // Find and replace the slide_list div content
       const placeholderPattern = /<!-- Place to insert slide list -->[\s\S]*?<div id="slide_list">[\s\S]*?<\/div>/;
@@ -475,8 +915,14 @@ export class BuildManager {
 
   /**
    * Generates HTML for numbered list of lectures.
+   * @param exportsDir - Absolute exports directory (checked for each lecture's exports)
+   * @param exportsDirName - Exports directory relative to index.html (used in links)
    */
-  private generateLectureListHtml(lectures: Array<{ name: string; title: string }>): string {
+  private generateLectureListHtml(
+    lectures: Array<{ name: string; title: string }>,
+    exportsDir: string,
+    exportsDirName: string
+  ): string {
     if (!lectures || lectures.length === 0) {
       return '<div id="slide_list"><p>Лекции не найдены</p></div>';
     }
@@ -484,7 +930,13 @@ export class BuildManager {
     const listItems = lectures.map((lecture) => {
       const safeTitle = this.escapeHtml(lecture.title);
       const safeName = this.escapeHtml(lecture.name);
-      return `  <li><a href="./${safeName}">${safeTitle}</a></li>`;
+      const exportLinks = findLectureExports(exportsDir, lecture.name).map(({ format, fileName }) => {
+        // PNG exports are directories with their own index.html
+        const href = `./${exportsDirName}/${fileName}${format === 'png' ? '/' : ''}`;
+        return `<a href="${this.escapeHtml(href)}">${EXPORT_FORMAT_LABELS[format]}</a>`;
+      });
+      const exportsHtml = exportLinks.length > 0 ? ` (${exportLinks.join(', ')})` : '';
+      return `  <li><a href="./${safeName}">${safeTitle}</a>${exportsHtml}</li>`;
     }).join('\n');
 
     return `<div id="slide_list">
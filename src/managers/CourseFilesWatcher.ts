@@ -0,0 +1,97 @@
+/**
+ * Course Files Watcher - Notices course files changed outside the extension
+ *
+ * Watches sliman.json, slides.json and slides/{lecture}/slides.md in all workspace
+ * folders (git checkout, terminal, other editors). A created or deleted sliman.json
+ * adds or removes a course; any other change only needs the Course Explorer refreshed.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LECTURE_SLIDES, SLIDES_DIR, SLIDES_FILENAME, SLIMAN_FILENAME } from '../constants';
+
+/** Delay before reacting, so bursts of file events (checkout, build) are handled once */
+const REFRESH_DELAY_MS = 200;
+
+/** Folders whose files never belong to a course */
+const IGNORED_SEGMENTS = ['node_modules', '.git'];
+
+/**
+ * Watches course files in the workspace and reports changes
+ */
+export class CourseFilesWatcher implements vscode.Disposable {
+  private readonly watchers: vscode.FileSystemWatcher[];
+  private timer: NodeJS.Timeout | null = null;
+  private coursesChanged = false;
+
+  /**
+   * Creates the watchers and starts watching
+   * @param onCoursesChanged - Called after sliman.json was created or deleted (courses must be re-discovered)
+   * @param onFilesChanged - Called after slides.json, a lecture slides.md or the content of sliman.json changed
+   */
+  constructor(
+    private readonly onCoursesChanged: () => void | Promise<void>,
+    private readonly onFilesChanged: () => void
+  ) {
+    const sliman = vscode.workspace.createFileSystemWatcher(`**/${SLIMAN_FILENAME}`);
+    sliman.onDidCreate((uri) => this.schedule(uri, true));
+    sliman.onDidDelete((uri) => this.schedule(uri, true));
+    sliman.onDidChange((uri) => this.schedule(uri, false));
+
+    const slides = vscode.workspace.createFileSystemWatcher(`**/${SLIDES_FILENAME}`);
+    slides.onDidCreate((uri) => this.schedule(uri, false));
+    slides.onDidDelete((uri) => this.schedule(uri, false));
+    slides.onDidChange((uri) => this.schedule(uri, false));
+
+    // Lecture folders appear and disappear with their slides.md (title changes: TitleSyncWatcher)
+    const lectures = vscode.workspace.createFileSystemWatcher(`**/${SLIDES_DIR}/*/${LECTURE_SLIDES}`, false, true, false);
+    lectures.onDidCreate((uri) => this.schedule(uri, false));
+    lectures.onDidDelete((uri) => this.schedule(uri, false));
+
+    this.watchers = [sliman, slides, lectures];
+  }
+
+  /**
+   * Stops watching and cancels a pending refresh
+   */
+  dispose(): void {
+    this.watchers.forEach((watcher) => watcher.dispose());
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Schedules a refresh; one course re-discovery in a burst of events is enough
+   */
+  private schedule(uri: vscode.Uri, coursesChanged: boolean): void {
+    if (uri.fsPath.split(path.sep).some((segment) => IGNORED_SEGMENTS.includes(segment))) {
+      return;
+    }
+
+    this.coursesChanged ||= coursesChanged;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const rediscover = this.coursesChanged;
+      this.coursesChanged = false;
+      void this.notify(rediscover);
+    }, REFRESH_DELAY_MS);
+  }
+
+  private async notify(rediscover: boolean): Promise<void> {
+    try {
+      if (rediscover) {
+        await this.onCoursesChanged();
+      } else {
+        this.onFilesChanged();
+      }
+    } catch (error) {
+      console.error('[CourseFilesWatcher] Failed to handle course file changes:', error);
+    }
+  }
+}
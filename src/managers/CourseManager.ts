@@ -10,22 +10,53 @@ import {
   SLIDES_FILENAME,
   SLIDES_DIR,
   BUILT_DIR,
+  LECTURE_DIST_DIR,
   TEMPLATE_SLIDES,
+  TEMPLATE_INDEX,
+  TEMPLATE_STATIC,
+  TEMPLATE_GITIGNORE,
   CONFIG_DEPLOY_ROOT,
+  SLIMAN_STATE_DIR,
+  SLIMAN_BACKUPS_DIR,
+  SLIMAN_SERVE_DIR,
+  SLIMAN_SCHEMA_VERSION,
+  SCHEMAS_DIR,
+  SLIDES_SCHEMA_FILENAME,
+  SLIDES_SCHEMA_REF,
 } from '../constants';
-import type { SlimanConfig, SlidesConfig, LectureInfo, CourseData } from '../types';
+import { moveLectures, shiftLecture, sortByLectureOrder } from '../utils/lectureOrder';
+import { getSlimanSchemaVersion, runSlimanMigrations } from '../utils/slimanMigrations';
+import type { RawSlimanConfig } from '../utils/slimanMigrations';
+import {
+  getLectureBasePath,
+  getServeRoot,
+  resolveCourseBasePath,
+  resolveOutputDirName,
+  setOutputDirIgnored,
+} from '../utils/outputLayout';
+import type {
+  SlimanConfig,
+  SlimanBuildConfig,
+  SlidesConfig,
+  LectureInfo,
+  CourseData,
+  SlimanMigrationResult,
+  DeployModeChange,
+  CourseOutputLayout,
+  LectureOutput,
+} from '../types';
 
 /**
- * Course Manager handles course configuration (sliman.json for course_name, {course_name}/slides.json for slides)
+ * Course Manager handles course configuration (sliman.json for course_name, slides.json for the lecture list)
  * and provides URI helpers for project structure navigation.
  */
 export class CourseManager {
-  /** Workspace folder URI */
+  /** Course root URI (a workspace folder, or a course folder inside it in a monorepo) */
   private readonly workspaceUri: vscode.Uri;
 
   /**
    * Creates a new CourseManager instance
-   * @param workspaceUri - Workspace folder URI (defaults to first workspace folder)
+   * @param workspaceUri - Course root URI (the folder with sliman.json)
    */
   constructor(workspaceUri: vscode.Uri) {
     this.workspaceUri = workspaceUri;
@@ -52,13 +83,26 @@ export class CourseManager {
   }
 
   /**
-   * Gets the built course output directory URI (for backward compatibility)
-   * @returns The URI of the built/ directory (deprecated, use getBuiltCourseDirWithName instead)
+   * Gets the slides.json URI (lecture list of the course, next to sliman.json)
+   * @returns The URI of {courseRoot}/slides.json
+   */
+  getSlidesJsonUri(): vscode.Uri {
+    return vscode.Uri.joinPath(this.workspaceUri, SLIDES_FILENAME);
+  }
+
+  /**
+   * Gets the course copy of the slides.json schema (referenced by "$schema" in slides.json)
+   * @returns The URI of {courseRoot}/.sliman/schemas/slides.schema.json
+   */
+  getSlidesSchemaUri(): vscode.Uri {
+    return vscode.Uri.joinPath(this.workspaceUri, SLIMAN_STATE_DIR, SCHEMAS_DIR, SLIDES_SCHEMA_FILENAME);
+  }
+
+  /**
+   * Gets the default output directory URI of root deploy mode (for backward compatibility)
+   * @returns The URI of the built/ directory (deprecated, use getOutputLayout instead)
    */
   getBuiltCourseDir(): vscode.Uri {
-    // First get the course name, then return the directory with course name
-    // This method should be used after course name is known
-    // For backward compatibility, fall back to "built" if course name is not available
     return vscode.Uri.joinPath(this.workspaceUri, BUILT_DIR);
   }
 
@@ -71,6 +115,65 @@ export class CourseManager {
     return vscode.Uri.joinPath(this.workspaceUri, courseName);
   }
 
+  /**
+   * Resolves the output layout of the course: output directory, slides.json and index.html
+   * locations and the base path, for the deploy mode, `outputDir` and `basePath` of sliman.json.
+   * @param deployRoot - Deploy mode to resolve for (defaults to sliman.json)
+   * @returns Layout, or null if sliman.json has no course name
+   */
+  async getOutputLayout(deployRoot?: boolean): Promise<CourseOutputLayout | null> {
+    const config = await this.readSlimanConfig();
+    if (!config?.course_name) {
+      return null;
+    }
+
+    const mode = deployRoot ?? config.deployRoot === true;
+    const outputDirName = resolveOutputDirName(config.course_name, mode, config.outputDir);
+    const outputDir = vscode.Uri.joinPath(this.workspaceUri, ...outputDirName.split('/'));
+    return {
+      deployRoot: mode,
+      outputDirName,
+      outputDir,
+      slidesJson: vscode.Uri.joinPath(outputDir, SLIDES_FILENAME),
+      indexHtml: vscode.Uri.joinPath(outputDir, TEMPLATE_INDEX),
+      basePath: resolveCourseBasePath(config.course_name, mode, config.basePath),
+    };
+  }
+
+  /**
+   * Gets the build destination and --base of a lecture
+   * @param layout - Output layout of the course (getOutputLayout)
+   * @param name - Lecture folder name
+   */
+  getLectureOutput(layout: CourseOutputLayout, name: string): LectureOutput {
+    return {
+      dir: vscode.Uri.joinPath(layout.outputDir, name),
+      basePath: getLectureBasePath(layout.basePath, name),
+    };
+  }
+
+  /**
+   * Gets the folder a static server must serve so that the built course is reachable under
+   * its base path. When the output directory path does not end with the base path (e.g. a
+   * custom basePath), .sliman/serve/{basePath} is linked to the output directory.
+   * @param layout - Output layout of the course (getOutputLayout)
+   * @returns Absolute path of the folder to serve
+   */
+  async prepareServeRoot(layout: CourseOutputLayout): Promise<string> {
+    const serveRoot = getServeRoot(layout.outputDirName, layout.basePath);
+    if (serveRoot !== null) {
+      return path.join(this.workspaceUri.fsPath, ...serveRoot.split('/'));
+    }
+
+    const mirrorRoot = path.join(this.workspaceUri.fsPath, SLIMAN_STATE_DIR, SLIMAN_SERVE_DIR);
+    const link = path.join(mirrorRoot, ...layout.basePath.split('/').filter((segment) => segment !== ''));
+    await fs.rm(mirrorRoot, { recursive: true, force: true });
+    await fs.mkdir(path.dirname(link), { recursive: true });
+    // A junction needs no privileges on Windows; other platforms ignore the type
+    await fs.symlink(layout.outputDir.fsPath, link, 'junction');
+    return mirrorRoot;
+  }
+
   /**
    * Checks if a given URI is within the course root directory
    * @param uri - The URI to check
@@ -103,30 +206,23 @@ export class CourseManager {
   }
 
   /**
-   * Reads the course configuration from sliman.json
+   * Reads the course configuration from sliman.json.
+   * Old files are not rewritten here: missing fields get their defaults in memory,
+   * and upgrading the file is an explicit step (migrateSlimanConfig).
    * @returns Promise that resolves to SlimanConfig or null if not found/invalid
    */
   async readSlimanConfig(): Promise<SlimanConfig | null> {
-    const slimanJsonUri = vscode.Uri.joinPath(this.workspaceUri, SLIMAN_FILENAME);
     try {
-      const content = await vscode.workspace.fs.readFile(slimanJsonUri);
-      const parsed = JSON.parse(new TextDecoder().decode(content));
+      const parsed = await this.readRawSlimanConfig();
 
       // Validate structure: must be object with course_name as string
-      if (!parsed?.course_name || typeof parsed.course_name !== 'string' || parsed.course_name.trim() === '') {
+      if (!parsed || typeof parsed.course_name !== 'string' || parsed.course_name.trim() === '') {
         console.error(`Invalid ${SLIMAN_FILENAME}: missing or invalid 'course_name' field`);
         return null;
       }
 
-      // Backward compatibility migration: auto-add deployRoot if missing
-      const config = parsed as SlimanConfig;
-      if (config.deployRoot === undefined || config.deployRoot === null) {
-        config.deployRoot = false;
-        // Write back the updated config for migration
-        await this.writeSlimanConfig(config);
-      }
-
-      return config;
+      const config = parsed as unknown as SlimanConfig;
+      return { ...config, [CONFIG_DEPLOY_ROOT]: config.deployRoot === true };
     } catch (error) {
       console.error(`Failed to read ${SLIMAN_FILENAME}:`, error);
       return null;
@@ -134,15 +230,26 @@ export class CourseManager {
   }
 
   /**
-   * Writes the course configuration to sliman.json
+   * Writes the course configuration to sliman.json.
+   * The config is merged into the existing file, so fields unknown to this
+   * version of the extension are kept. A new file gets the current schemaVersion.
    * @param config - The SlimanConfig to write
    * @returns Promise that resolves when complete
    */
   async writeSlimanConfig(config: SlimanConfig): Promise<void> {
-    // Ensure deployRoot is always set for consistency
-    const configToWrite: SlimanConfig = {
+    let existing: RawSlimanConfig | null = null;
+    try {
+      existing = await this.readRawSlimanConfig();
+    } catch {
+      // Missing or invalid file is replaced
+    }
+
+    // Ensure deployRoot is always set for consistency. An existing file keeps its
+    // schemaVersion: only migrateSlimanConfig may raise it
+    const configToWrite: RawSlimanConfig = {
+      ...(existing ?? { schemaVersion: SLIMAN_SCHEMA_VERSION }),
       ...config,
-      [CONFIG_DEPLOY_ROOT]: config.deployRoot ?? false,
+      [CONFIG_DEPLOY_ROOT]: config.deployRoot ?? existing?.deployRoot ?? false,
     };
 
     const slimanJsonUri = vscode.Uri.joinPath(this.workspaceUri, SLIMAN_FILENAME);
@@ -155,6 +262,76 @@ export class CourseManager {
     }
   }
 
+  /**
+   * Checks whether sliman.json has an older schemaVersion than this extension uses
+   * @returns Promise that resolves to true if migrateSlimanConfig would change the file
+   */
+  async needsSlimanMigration(): Promise<boolean> {
+    try {
+      const raw = await this.readRawSlimanConfig();
+      return raw !== null && getSlimanSchemaVersion(raw) < SLIMAN_SCHEMA_VERSION;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Upgrades sliman.json to the current schemaVersion.
+   * The original file is copied to .sliman/backups/ before it is rewritten.
+   * @returns Promise that resolves to the migration result, or null if the file is up to date
+   * @throws Error if sliman.json is missing or invalid, or is newer than this extension
+   */
+  async migrateSlimanConfig(): Promise<SlimanMigrationResult | null> {
+    const slimanJsonUri = vscode.Uri.joinPath(this.workspaceUri, SLIMAN_FILENAME);
+    const original = await vscode.workspace.fs.readFile(slimanJsonUri);
+    const raw = await this.readRawSlimanConfig();
+    if (!raw) {
+      throw new Error(`${SLIMAN_FILENAME} must contain a JSON object`);
+    }
+
+    const fromVersion = getSlimanSchemaVersion(raw);
+    if (fromVersion === SLIMAN_SCHEMA_VERSION) {
+      return null;
+    }
+
+    // Step 1: Run the pipeline first, so a failing migration leaves no backup behind
+    const { config, applied } = runSlimanMigrations(raw);
+
+    // Step 2: Back up the original bytes
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = path.join(
+      this.workspaceUri.fsPath,
+      SLIMAN_STATE_DIR,
+      SLIMAN_BACKUPS_DIR,
+      `sliman.v${fromVersion}.${timestamp}.json`
+    );
+    await fs.mkdir(path.dirname(backupPath), { recursive: true });
+    await fs.writeFile(backupPath, original);
+
+    // Step 3: Write the migrated config
+    await vscode.workspace.fs.writeFile(slimanJsonUri, new TextEncoder().encode(JSON.stringify(config, null, 2)));
+
+    return { fromVersion, toVersion: SLIMAN_SCHEMA_VERSION, applied, backupPath };
+  }
+
+  /**
+   * Reads sliman.json as it is on disk (including unknown fields)
+   * @returns Parsed object, or null if the file is missing or not a JSON object
+   * @throws Error if the file contains invalid JSON
+   */
+  private async readRawSlimanConfig(): Promise<RawSlimanConfig | null> {
+    const slimanJsonUri = vscode.Uri.joinPath(this.workspaceUri, SLIMAN_FILENAME);
+    let content: Uint8Array;
+    try {
+      content = await vscode.workspace.fs.readFile(slimanJsonUri);
+    } catch {
+      return null;
+    }
+
+    const parsed: unknown = JSON.parse(new TextDecoder().decode(content).replace(/^\uFEFF/, ''));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as RawSlimanConfig) : null;
+  }
+
   /**
    * Reads the course name from sliman.json
    * @returns Promise that resolves to course name string or null if not found
@@ -165,13 +342,13 @@ export class CourseManager {
   }
 
   /**
-   * Writes the course name to sliman.json
+   * Writes the course name to sliman.json (other fields are kept)
    * @param name - The course name to write
    * @returns Promise that resolves when complete
    */
   async writeCourseName(name: string): Promise<void> {
-    const config: SlimanConfig = { course_name: name };
-    await this.writeSlimanConfig(config);
+    const config = await this.readSlimanConfig();
+    await this.writeSlimanConfig({ ...config, course_name: name });
   }
 
   /**
@@ -183,6 +360,28 @@ export class CourseManager {
     return config?.deployRoot === true;
   }
 
+  /**
+   * Reads the per-course build overrides ("build" object) from sliman.json.
+   * Values that are not positive numbers are dropped.
+   * @returns Promise that resolves to the valid overrides (empty when none are set)
+   */
+  async readBuildConfig(): Promise<SlimanBuildConfig> {
+    const config = await this.readSlimanConfig();
+    const build = config?.build;
+    const result: SlimanBuildConfig = {};
+
+    if (!build || typeof build !== 'object') {
+      return result;
+    }
+    if (typeof build.timeoutSeconds === 'number' && build.timeoutSeconds > 0) {
+      result.timeoutSeconds = build.timeoutSeconds;
+    }
+    if (typeof build.pollIntervalMs === 'number' && build.pollIntervalMs > 0) {
+      result.pollIntervalMs = build.pollIntervalMs;
+    }
+    return result;
+  }
+
   /**
    * Checks if root deploy mode is enabled.
    * Root deploy mode means the course is deployed at domain root (--base /)
@@ -194,31 +393,125 @@ export class CourseManager {
   }
 
   // ============================================
-  // Slides.json Operations (stored in {course_name}/ directory)
+  // Deploy Mode Switch
+  // ============================================
+
+  /**
+   * Switches the deploy mode of the course: moves the output directory (slides.json,
+   * index.html and built lectures), sets deployRoot in sliman.json, creates or removes
+   * the GitHub Pages workflow and updates the output directory entry of .gitignore.
+   * Completed steps are undone when a later step fails.
+   * Built lectures keep their old --base until they are rebuilt.
+   * @param deployRoot - New deploy mode
+   * @param templateDir - Extension template directory (static.yml, .gitignore)
+   * @returns Layouts before and after the switch and the applied steps
+   * @throws Error if sliman.json has no course name, the course already uses the mode
+   *   or the new output directory is not empty
+   */
+  async changeDeployMode(deployRoot: boolean, templateDir: string): Promise<DeployModeChange> {
+    const config = await this.readSlimanConfig();
+    const from = await this.getOutputLayout();
+    const to = await this.getOutputLayout(deployRoot);
+    if (!config || !from || !to) {
+      throw new Error(`${SLIMAN_FILENAME} has no course name`);
+    }
+    if (from.deployRoot === deployRoot) {
+      throw new Error(`The course already uses ${deployRoot ? 'root' : 'subdir'} deploy mode`);
+    }
+
+    const root = this.workspaceUri.fsPath;
+    const applied: string[] = [];
+    const rollback: Array<{ description: string; undo: () => Promise<void> }> = [];
+
+    try {
+      // Step 1: Move the output directory (an empty target, e.g. left by createCourse, is replaced)
+      const source = from.outputDir.fsPath;
+      const target = to.outputDir.fsPath;
+      if (source !== target && await pathExists(source)) {
+        if (await pathExists(target)) {
+          if ((await fs.readdir(target)).length > 0) {
+            throw new Error(`${to.outputDirName}/ already exists and is not empty. Move or remove it and try again`);
+          }
+          await fs.rmdir(target);
+          rollback.push({ description: `remove ${to.outputDirName}/`, undo: () => fs.mkdir(target).then(() => undefined) });
+        }
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.rename(source, target);
+        rollback.push({ description: `move ${from.outputDirName}/`, undo: () => fs.rename(target, source) });
+        applied.push(`Moved ${from.outputDirName}/ to ${to.outputDirName}/`);
+      }
+
+      // Step 2: Set deployRoot in sliman.json
+      const slimanPath = path.join(root, SLIMAN_FILENAME);
+      const slimanContent = await fs.readFile(slimanPath, 'utf-8');
+      await this.writeSlimanConfig({ ...config, [CONFIG_DEPLOY_ROOT]: deployRoot });
+      rollback.push({ description: `update ${SLIMAN_FILENAME}`, undo: () => fs.writeFile(slimanPath, slimanContent) });
+      applied.push(`Set "${CONFIG_DEPLOY_ROOT}": ${deployRoot} in ${SLIMAN_FILENAME}`);
+
+      // Step 3: GitHub Pages workflow (subdir deploy only)
+      const workflowPath = path.join(root, '.github', 'workflows', TEMPLATE_STATIC);
+      const workflow = await readOptionalFile(workflowPath);
+      const newWorkflow = deployRoot
+        ? null
+        : (await fs.readFile(path.join(templateDir, TEMPLATE_STATIC), 'utf-8')).replace(/{{COURSE_NAME}}/g, config.course_name);
+      if (workflow !== newWorkflow) {
+        if (newWorkflow === null) {
+          await fs.rm(workflowPath);
+        } else {
+          await fs.mkdir(path.dirname(workflowPath), { recursive: true });
+          await fs.writeFile(workflowPath, newWorkflow);
+        }
+        rollback.push({ description: `update ${TEMPLATE_STATIC}`, undo: () => restoreOptionalFile(workflowPath, workflow) });
+        applied.push(`${newWorkflow === null ? 'Removed' : workflow === null ? 'Created' : 'Rewrote'} .github/workflows/${TEMPLATE_STATIC}`);
+      }
+
+      // Step 4: .gitignore (subdir deploy ignores the output built in CI, root deploy commits it)
+      const gitignorePath = path.join(root, TEMPLATE_GITIGNORE);
+      const gitignore = await readOptionalFile(gitignorePath);
+      let newGitignore: string | null = null;
+      if (gitignore !== null) {
+        const withoutOld = setOutputDirIgnored(gitignore, from.outputDirName, false);
+        newGitignore = setOutputDirIgnored(withoutOld, to.outputDirName, !deployRoot);
+      } else if (!deployRoot) {
+        const template = await fs.readFile(path.join(templateDir, TEMPLATE_GITIGNORE), 'utf-8');
+        newGitignore = template.replace(/{{COURSE_NAME}}\//g, `${to.outputDirName}/`);
+      }
+      if (newGitignore !== null && newGitignore !== gitignore) {
+        await fs.writeFile(gitignorePath, newGitignore);
+        rollback.push({ description: `update ${TEMPLATE_GITIGNORE}`, undo: () => restoreOptionalFile(gitignorePath, gitignore) });
+        applied.push(`${gitignore === null ? 'Created' : 'Updated'} ${TEMPLATE_GITIGNORE}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      for (const step of rollback.reverse()) {
+        try {
+          await step.undo();
+        } catch (undoError) {
+          console.error(`Rollback failed (${step.description}):`, undoError);
+        }
+      }
+      throw new Error(`Failed to change deploy mode: ${errorMessage}`);
+    }
+
+    return { from, to, applied };
+  }
+
+  // ============================================
+  // Slides.json Operations (stored in the course root)
   // ============================================
 
   /**
-   * Reads the slides configuration from the appropriate location based on deployRoot mode
-   * - deployRoot: false → {course_name}/slides.json
-   * - deployRoot: true  → built/slides.json
+   * Reads the lecture list from slides.json in the course root.
+   * A course that was not migrated yet (migrateSlidesJson) is read from the copy in its output directory.
    * @returns Promise that resolves to SlidesConfig or null if not found/invalid
    */
   async readSlidesJson(): Promise<SlidesConfig | null> {
-    // Get course name to build path
-    const courseName = await this.readCourseName();
-    if (!courseName) {
-      console.error('Cannot read slides.json: course name not found in sliman.json');
+    const slidesJsonUri = await this.findSlidesJson();
+    if (!slidesJsonUri) {
+      console.error(`Cannot read ${SLIDES_FILENAME}: not found in the course root`);
       return null;
     }
 
-    // Determine slides.json location based on deployRoot mode
-    // - deployRoot: false → {courseName}/slides.json
-    // - deployRoot: true  → built/slides.json (BuildManager copies to 'built/' for root deploy)
-    const deployRoot = await this.readDeployRoot();
-    const slidesJsonUri = deployRoot
-      ? vscode.Uri.joinPath(this.workspaceUri, 'built', SLIDES_FILENAME)
-      : vscode.Uri.joinPath(this.workspaceUri, courseName, SLIDES_FILENAME);
-
     try {
       const content = await vscode.workspace.fs.readFile(slidesJsonUri);
       const parsed = JSON.parse(new TextDecoder().decode(content));
@@ -237,36 +530,69 @@ export class CourseManager {
   }
 
   /**
-   * Writes the slides configuration to the appropriate location based on deployRoot mode
-   * - deployRoot: false → {course_name}/slides.json
-   * - deployRoot: true  → built/slides.json
+   * Writes the lecture list to slides.json in the course root.
+   * Adds "$schema" pointing to the course copy of the schema unless the file sets its own.
+   * The copy in the output directory is regenerated by BuildManager.updateIndexHtml.
    * @param config - The SlidesConfig to write
    * @returns Promise that resolves when complete
    */
   async writeSlidesJson(config: SlidesConfig): Promise<void> {
-    // Get course name to build path
-    const courseName = await this.readCourseName();
-    if (!courseName) {
-      throw new Error('Cannot write slides.json: course name not found in sliman.json');
-    }
-
-    // Determine slides.json location based on deployRoot mode
-    // - deployRoot: false → {courseName}/slides.json
-    // - deployRoot: true  → built/slides.json
-    const deployRoot = await this.readDeployRoot();
-    const slidesJsonUri = deployRoot
-      ? vscode.Uri.joinPath(this.workspaceUri, 'built', SLIDES_FILENAME)
-      : vscode.Uri.joinPath(this.workspaceUri, courseName, SLIDES_FILENAME);
-
     try {
-      const content = JSON.stringify(config, null, 2);
-      await vscode.workspace.fs.writeFile(slidesJsonUri, new TextEncoder().encode(content));
+      const content = JSON.stringify({ $schema: SLIDES_SCHEMA_REF, ...config }, null, 2);
+      await vscode.workspace.fs.writeFile(this.getSlidesJsonUri(), new TextEncoder().encode(content));
     } catch (error) {
       console.error(`Failed to write ${SLIDES_FILENAME}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Copies the slides.json schema of the extension into the course (.sliman/schemas/),
+   * so the "$schema" of slides.json resolves in VS Code and other editors
+   * @param schemaFile - Schema shipped with the extension
+   * @returns Promise that resolves to true if the course copy was created or updated
+   */
+  async installSlidesSchema(schemaFile: string): Promise<boolean> {
+    const target = this.getSlidesSchemaUri().fsPath;
+    const schema = await fs.readFile(schemaFile, 'utf-8');
+    if (await readOptionalFile(target) === schema) {
+      return false;
+    }
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, schema);
+    return true;
+  }
+
+  /**
+   * Copies slides.json of a course created before the lecture list moved to the course root
+   * ({outputDir}/slides.json) to the course root. The output copy is kept for the built course.
+   * @returns Promise that resolves to true if slides.json was copied
+   */
+  async migrateSlidesJson(): Promise<boolean> {
+    const source = this.getSlidesJsonUri();
+    const layout = await this.getOutputLayout();
+    if (!layout || await pathExists(source.fsPath) || !await pathExists(layout.slidesJson.fsPath)) {
+      return false;
+    }
+
+    await fs.copyFile(layout.slidesJson.fsPath, source.fsPath);
+    return true;
+  }
+
+  /**
+   * Finds the slides.json to read: the course root one, or the output copy of a course that was not migrated yet
+   * @returns URI, or null if neither exists
+   */
+  private async findSlidesJson(): Promise<vscode.Uri | null> {
+    const source = this.getSlidesJsonUri();
+    if (await pathExists(source.fsPath)) {
+      return source;
+    }
+    const layout = await this.getOutputLayout();
+    return layout && await pathExists(layout.slidesJson.fsPath) ? layout.slidesJson : null;
+  }
+
   /**
    * Adds or updates a lecture entry in slides.json
    * @param name - Lecture folder name (e.g., "lecture-1")
@@ -301,6 +627,89 @@ export class CourseManager {
     await this.writeSlidesJson({ slides: filteredLectures });
   }
 
+  /**
+   * Renames a lecture entry in slides.json, keeping its position
+   * @param oldName - Current lecture folder name
+   * @param newName - New lecture folder name
+   * @param title - New lecture display title
+   * @returns Promise that resolves when complete
+   */
+  async renameLectureEntry(oldName: string, newName: string, title: string): Promise<void> {
+    const config = await this.readSlidesJson();
+    const lectures: LectureInfo[] = config?.slides || [];
+
+    const index = lectures.findIndex((l) => l.name === oldName);
+    if (index >= 0) {
+      lectures[index] = { ...lectures[index], name: newName, title };
+    } else {
+      lectures.push({ name: newName, title });
+    }
+
+    await this.writeSlidesJson({ ...config, slides: lectures });
+  }
+
+  /**
+   * Rewrites slides.json in the given lecture order.
+   * Entries not named in `order` keep their relative order after the named ones.
+   * @param order - Lecture folder names in the new course order
+   * @returns Promise that resolves when complete
+   */
+  async reorderLectures(order: string[]): Promise<void> {
+    const config = await this.readSlidesJson();
+    if (!config) {
+      throw new Error(`Cannot reorder lectures: ${SLIDES_FILENAME} not found or invalid`);
+    }
+
+    const ordered = new Set(order);
+    const listed = [...ordered]
+      .map((name) => config.slides.find((lecture) => lecture.name === name))
+      .filter((lecture): lecture is LectureInfo => lecture !== undefined);
+    const unlisted = config.slides.filter((lecture) => !ordered.has(lecture.name));
+
+    await this.writeSlidesJson({ ...config, slides: [...listed, ...unlisted] });
+  }
+
+  /**
+   * Moves lectures onto the position of a target lecture in slides.json
+   * @param moved - Lecture folder names to move
+   * @param target - Lecture they are dropped onto; undefined moves them to the end
+   * @returns True if the order changed
+   */
+  async moveLectures(moved: string[], target?: string): Promise<boolean> {
+    const order = await this.getLectureOrder();
+    const newOrder = moveLectures(order, moved, target);
+    if (newOrder.join('\0') === order.join('\0')) {
+      return false;
+    }
+    await this.reorderLectures(newOrder);
+    return true;
+  }
+
+  /**
+   * Moves a lecture one position up or down in slides.json
+   * @param name - Lecture folder name
+   * @param offset - -1 moves up, 1 moves down
+   * @returns True if the order changed (false at the first/last position)
+   */
+  async shiftLecture(name: string, offset: -1 | 1): Promise<boolean> {
+    const order = await this.getLectureOrder();
+    const newOrder = shiftLecture(order, name, offset);
+    if (newOrder.join('\0') === order.join('\0')) {
+      return false;
+    }
+    await this.reorderLectures(newOrder);
+    return true;
+  }
+
+  /**
+   * Gets lecture names in slides.json order (the canonical course order)
+   * @returns Lecture folder names, empty if slides.json is missing
+   */
+  async getLectureOrder(): Promise<string[]> {
+    const config = await this.readSlidesJson();
+    return config?.slides.map((lecture) => lecture.name) ?? [];
+  }
+
   /**
    * Reads both course configuration at once
    * Useful for displaying course overview information
@@ -320,7 +729,8 @@ export class CourseManager {
 
   /**
    * Gets the list of lecture directory names from the slides/ directory
-   * Only includes directories that contain a slides.md file
+   * Only includes directories that contain a slides.md file.
+   * Ordered as in slides.json; folders missing from slides.json follow alphabetically.
    * @returns Promise that resolves to array of lecture directory names
    */
   async getLectureDirectories(): Promise<string[]> {
@@ -331,7 +741,7 @@ export class CourseManager {
 
       for (const entry of entries) {
         if (!entry.isDirectory()) continue;
-        if (entry.name.startsWith('.') || entry.name === BUILT_DIR) continue;
+        if (entry.name.startsWith('.') || entry.name === LECTURE_DIST_DIR) continue;
 
         const lecturePath = vscode.Uri.joinPath(slidesDir, entry.name, TEMPLATE_SLIDES);
         try {
@@ -342,7 +752,7 @@ export class CourseManager {
         }
       }
 
-      return lectureDirs.sort();
+      return sortByLectureOrder(lectureDirs, await this.getLectureOrder());
     } catch (error) {
       console.error('Failed to read slides directory:', error);
       return [];
@@ -350,3 +760,35 @@ export class CourseManager {
   }
 }
 
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads a text file that may be missing
+ * @returns File content, or null if the file does not exist
+ */
+async function readOptionalFile(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Restores a file read with readOptionalFile (null removes it)
+ */
+async function restoreOptionalFile(filePath: string, content: string | null): Promise<void> {
+  if (content === null) {
+    await fs.rm(filePath, { force: true });
+  } else {
+    await fs.writeFile(filePath, content);
+  }
+}
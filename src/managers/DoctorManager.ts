@@ -0,0 +1,194 @@
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TEMPLATE_COURSER, TEMPLATE_GLOBAL_TOP } from '../constants';
+import { getExportsDirName, getReservedLectureName } from '../utils/exports';
+import type { CourseManager } from './CourseManager';
+import type { LectureManager } from './LectureManager';
+import type { CourseProblem } from '../types';
+
+/**
+ * Doctor Manager — Finds and fixes drift between lecture folders, slides.json and built output.
+ *
+ * Checks:
+ * - slides.json entries without a lecture folder, and lecture folders without an entry
+ * - built lectures (in the course output directory, with an index.html) without a source folder
+ * - a lecture named like the exports folder (its build would delete the exports)
+ * - lecture folders missing node_modules/, global-top.vue or components/Courser.vue
+ */
+export class DoctorManager {
+  /**
+   * Creates a new DoctorManager instance.
+   */
+  constructor(
+    private readonly courseManager: CourseManager,
+    private readonly lectureManager: LectureManager
+  ) {}
+
+  /**
+   * Checks the course for consistency problems.
+   * @returns Problems in check order (slides.json, built output, exports folder, lecture files)
+   * @throws Error if the course name is missing
+   */
+  async diagnose(): Promise<CourseProblem[]> {
+    const layout = await this.courseManager.getOutputLayout();
+    if (!layout) {
+      throw new Error('Course name not found in sliman.json');
+    }
+
+    const problems: CourseProblem[] = [];
+    const lectures = await this.courseManager.getLectureDirectories();
+    const entries = (await this.courseManager.readSlidesJson())?.slides ?? [];
+
+    // Step 1: slides.json vs lecture folders
+    for (const entry of entries) {
+      if (!lectures.includes(entry.name)) {
+        problems.push({
+          kind: 'orphaned-entry',
+          lecture: entry.name,
+          message: `slides.json lists "${entry.name}", but slides/${entry.name}/slides.md does not exist`,
+          fixLabel: 'Remove the entry from slides.json',
+        });
+      }
+    }
+    for (const lecture of lectures) {
+      if (!entries.some((entry) => entry.name === lecture)) {
+        problems.push({
+          kind: 'missing-entry',
+          lecture,
+          message: `slides/${lecture} is not listed in slides.json`,
+          fixLabel: 'Add the lecture to slides.json',
+        });
+      }
+    }
+
+    // Step 2: Built output without sources
+    for (const built of await this.findBuiltLectures(layout.outputDir.fsPath)) {
+      if (!lectures.includes(built)) {
+        problems.push({
+          kind: 'orphaned-build',
+          lecture: built,
+          message: `${layout.outputDirName}/${built} is a built lecture without slides/${built}`,
+          fixLabel: 'Delete the built folder',
+          destructive: true,
+        });
+      }
+    }
+
+    // Step 3: Lecture sharing its output folder with the exports
+    const exportsDirName = getExportsDirName(this.courseManager.getCourseRoot());
+    const reserved = getReservedLectureName(exportsDirName);
+    if (lectures.includes(reserved)) {
+      problems.push({
+        kind: 'reserved-lecture-name',
+        lecture: reserved,
+        message: `slides/${reserved} is built into ${layout.outputDirName}/${reserved}, which holds the exports (${exportsDirName})`,
+        fixLabel: `Rename the lecture to "${this.getFreeLectureName(reserved, lectures)}"`,
+      });
+    }
+
+    // Step 4: Incomplete lecture folders
+    for (const lecture of lectures) {
+      const lectureDir = this.lectureManager.getLectureDir(lecture).fsPath;
+      const missing: Array<[string, CourseProblem['kind'], string]> = [
+        ['node_modules', 'missing-node-modules', 'Install dependencies'],
+        [TEMPLATE_GLOBAL_TOP, 'missing-global-top', `Copy ${TEMPLATE_GLOBAL_TOP} from the template`],
+        [path.join('components', TEMPLATE_COURSER), 'missing-courser', `Copy components/${TEMPLATE_COURSER} from the template`],
+      ];
+      for (const [file, kind, fixLabel] of missing) {
+        if (!fs.existsSync(path.join(lectureDir, file))) {
+          problems.push({ kind, lecture, message: `slides/${lecture} has no ${file.replace(/\\/g, '/')}`, fixLabel });
+        }
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Applies the fix of one problem.
+   * @param problem - Problem returned by diagnose()
+   * @throws Error if the fix fails
+   */
+  async fix(problem: CourseProblem): Promise<void> {
+    switch (problem.kind) {
+      case 'orphaned-entry':
+        await this.courseManager.removeLecture(problem.lecture);
+        break;
+
+      case 'missing-entry': {
+        let title = problem.lecture;
+        try {
+          title = await this.lectureManager.readTitleFromSlides(problem.lecture);
+        } catch {
+          // No title in slides.md, use folder name
+        }
+        await this.courseManager.addLecture(problem.lecture, title);
+        break;
+      }
+
+      case 'orphaned-build': {
+        const layout = await this.courseManager.getOutputLayout();
+        if (!layout) {
+          throw new Error('Course name not found in sliman.json');
+        }
+        await fs.promises.rm(this.courseManager.getLectureOutput(layout, problem.lecture).dir.fsPath, { recursive: true, force: true });
+        break;
+      }
+
+      case 'reserved-lecture-name': {
+        const lectures = await this.courseManager.getLectureDirectories();
+        const entry = (await this.courseManager.readSlidesJson())?.slides.find((slide) => slide.name === problem.lecture);
+        await this.lectureManager.renameLecture(
+          problem.lecture,
+          this.getFreeLectureName(problem.lecture, lectures),
+          entry?.title ?? problem.lecture
+        );
+        break;
+      }
+
+      case 'missing-node-modules':
+        await this.lectureManager.initLectureNpm(problem.lecture);
+        break;
+
+      case 'missing-global-top':
+        await this.lectureManager.copyGlobalTopVue(problem.lecture);
+        break;
+
+      case 'missing-courser':
+        await this.lectureManager.copyCourserVue(problem.lecture);
+        break;
+    }
+  }
+
+  /**
+   * Suggests a new name for a lecture: '{name}-2', '{name}-3', ... (first one not taken)
+   */
+  private getFreeLectureName(name: string, lectures: string[]): string {
+    let index = 2;
+    while (lectures.includes(`${name}-${index}`)) {
+      index++;
+    }
+    return `${name}-${index}`;
+  }
+
+  /**
+   * Lists built lecture folders of the output directory: folders holding an index.html,
+   * except the exports directory and hidden folders.
+   */
+  private async findBuiltLectures(outputDir: string): Promise<string[]> {
+    const exportsDirName = getReservedLectureName(getExportsDirName(this.courseManager.getCourseRoot()));
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(outputDir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    return entries
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== exportsDirName)
+      .filter((entry) => fs.existsSync(path.join(outputDir, entry.name, 'index.html')))
+      .map((entry) => entry.name);
+  }
+}
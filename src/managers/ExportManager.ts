@@ -0,0 +1,194 @@
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CourseManager } from './CourseManager';
+import type { LectureManager } from './LectureManager';
+import type { BuildManager } from './BuildManager';
+import { ProcessHelper, EXIT_CODE_CANCELLED } from '../utils/process';
+import {
+  buildExportCommand,
+  getExportFileName,
+  getExportsDirName,
+  isValidSlideRange,
+  EXPORT_FORMAT_LABELS,
+} from '../utils/exports';
+import type { BuildErrorType, ExportOptions, ExportRunOptions, LectureExportResult } from '../types';
+
+/**
+ * Export Manager — Exports lectures to PDF, PNG (one image per slide) and PPTX with `slidev export`.
+ *
+ * - Exports run headless via ProcessHelper.execStream in the lecture directory
+ *   (slidev export needs `playwright-chromium` installed in the lecture).
+ * - Output goes to the exports directory inside the course output directory
+ *   ({courseName}/exports/ or built/exports/, setting `sliDevCourse.exportsDir`):
+ *   '{lecture}.pdf', '{lecture}.pptx' and '{lecture}-png/' with a small index.html gallery.
+ * - After exporting, index.html is regenerated so the lecture list links the exports.
+ */
+export class ExportManager {
+  /**
+   * Creates a new ExportManager instance.
+   */
+  constructor(
+    private readonly courseManager: CourseManager,
+    private readonly lectureManager: LectureManager,
+    private readonly buildManager: BuildManager
+  ) {}
+
+  /**
+   * Exports one lecture and updates the index.html links.
+   * @param name - Lecture folder name
+   * @param options - Format, dark mode, click steps and slide range
+   * @param runOptions - Output channel and cancellation signal
+   * @returns Absolute path of the exported file (or PNG directory)
+   * @throws Error if the lecture doesn't exist, the range is invalid or the export fails
+   */
+  async exportLecture(name: string, options: ExportOptions, runOptions: ExportRunOptions = {}): Promise<string> {
+    if (!(await this.lectureManager.lectureExists(name))) {
+      throw Object.assign(
+        new Error(`Lecture "${name}" does not exist`),
+        { type: 'lecture-not-found' as const, lecture: name }
+      );
+    }
+
+    const exportsDir = await this.getExportsDir();
+    const outputPath = await this.runExport(name, options, exportsDir, runOptions);
+    await this.buildManager.updateIndexHtml();
+    return outputPath;
+  }
+
+  /**
+   * Exports every lecture of the course one after another (each export starts a browser).
+   * A failing lecture does not stop the others; cancellation skips the remaining ones.
+   * Slide ranges are not applied to course exports.
+   * @param options - Format, dark mode and click steps
+   * @param runOptions - Output channel, cancellation signal and per-lecture callback
+   * @returns Per-lecture results in lecture order
+   */
+  async exportCourse(options: ExportOptions, runOptions: ExportRunOptions = {}): Promise<LectureExportResult[]> {
+    const lectures = await this.courseManager.getLectureDirectories();
+    if (lectures.length === 0) {
+      throw new Error('No lectures found in course');
+    }
+
+    const exportsDir = await this.getExportsDir();
+    const courseOptions: ExportOptions = { ...options, range: undefined };
+    const results: LectureExportResult[] = [];
+
+    for (const [index, lecture] of lectures.entries()) {
+      if (runOptions.signal?.aborted) {
+        results.push({ lecture, error: 'cancelled' });
+        continue;
+      }
+
+      runOptions.onLecture?.(lecture, index, lectures.length);
+      try {
+        const outputPath = await this.runExport(lecture, courseOptions, exportsDir, runOptions);
+        results.push({ lecture, outputPath });
+      } catch (error) {
+        results.push({ lecture, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    await this.buildManager.updateIndexHtml();
+    return results;
+  }
+
+  /**
+   * Gets the absolute exports directory of the course.
+   * @throws Error if the course name is missing
+   */
+  async getExportsDir(): Promise<string> {
+    const layout = await this.courseManager.getOutputLayout();
+    if (!layout) {
+      throw new Error('Course name not found in sliman.json');
+    }
+
+    return path.join(layout.outputDir.fsPath, getExportsDirName(this.courseManager.getCourseRoot()));
+  }
+
+  /**
+   * Runs `slidev export` for one lecture into the exports directory.
+   * @throws Error with type 'build-failed', 'timeout' or 'cancelled' when the export fails
+   */
+  private async runExport(
+    name: string,
+    options: ExportOptions,
+    exportsDir: string,
+    runOptions: ExportRunOptions
+  ): Promise<string> {
+    if (options.range && !isValidSlideRange(options.range)) {
+      throw new Error(`Invalid slide range "${options.range}". Use numbers and ranges like 1,3-5`);
+    }
+
+    const { outputChannel, signal } = runOptions;
+    const lecturePath = this.lectureManager.getLectureDir(name).fsPath;
+    const outputPath = path.join(exportsDir, getExportFileName(name, options.format));
+
+    // PNG export writes into a directory — drop images of a previous export
+    await fs.promises.mkdir(exportsDir, { recursive: true });
+    await fs.promises.rm(outputPath, { recursive: true, force: true });
+
+    const command = buildExportCommand(options, outputPath);
+    outputChannel?.appendLine(`[EXPORT] ${name}: ${command}`);
+
+    const timings = await this.buildManager.getBuildTimings();
+    const result = await ProcessHelper.execStream(command, {
+      cwd: lecturePath,
+      timeout: timings.timeoutMs,
+      outputChannel,
+      signal,
+    });
+
+    if (!result.success) {
+      let type: BuildErrorType = 'build-failed';
+      let reason = `slidev export exited with code ${result.exitCode}`;
+      if (result.exitCode === EXIT_CODE_CANCELLED && signal?.aborted) {
+        type = 'cancelled';
+        reason = 'cancelled';
+      } else if (result.exitCode === 124) {
+        type = 'timeout';
+        reason = `timed out after ${timings.timeoutMs / 1000} seconds`;
+      } else if (/playwright/i.test(result.stdout + result.stderr)) {
+        reason += '. Install the browser dependency in the lecture: pnpm add -D playwright-chromium';
+      }
+
+      throw Object.assign(
+        new Error(`Export failed for lecture "${name}": ${reason}`),
+        { type, lecture: name, exitCode: result.exitCode }
+      );
+    }
+
+    if (options.format === 'png') {
+      await this.writePngGallery(outputPath, name);
+    }
+
+    outputChannel?.appendLine(`[EXPORT] ${name}: ${EXPORT_FORMAT_LABELS[options.format]} → ${outputPath}`);
+    return outputPath;
+  }
+
+  /**
+   * Writes index.html into a PNG export directory, so the directory link in the
+   * course index shows the slides (static hosting does not list directories).
+   */
+  private async writePngGallery(pngDir: string, lectureName: string): Promise<void> {
+    let images: string[];
+    try {
+      images = (await fs.promises.readdir(pngDir)).filter((file) => file.toLowerCase().endsWith('.png'));
+    } catch {
+      return;
+    }
+    images.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+    const imageTags = images.map((image) => `  <img src="./${encodeURI(image)}" alt="${image}" style="max-width:100%">`);
+    const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${lectureName}</title></head>
+<body>
+${imageTags.join('\n')}
+</body>
+</html>
+`;
+    await fs.promises.writeFile(path.join(pngDir, 'index.html'), html, 'utf-8');
+  }
+}
@@ -12,12 +12,20 @@ import {
   TEMPLATE_PACKAGE,
   TEMPLATE_GLOBAL_TOP,
   TEMPLATE_COURSER,
+  SLIMAN_STATE_DIR,
+  LECTURE_TEMPLATES_DIR,
+  DEFAULT_LECTURE_TEMPLATE,
   AVAILABLE_MODULES,
   DEPENDENCY_VERSIONS,
 } from '../constants';
 import { ProcessHelper } from '../utils/process';
+import { readBuildManifest, writeBuildManifest } from '../utils/buildManifest';
+import { updateFrontmatterFields } from '../utils/frontmatter';
 import { generateLectureFolderName, isValidFolderName } from '../utils/translit';
+import { fillSlidesTemplate, mergePackageJson, SKIPPED_TEMPLATE_ENTRIES } from '../utils/lectureTemplates';
+import { getExportsDirName, getReservedLectureName } from '../utils/exports';
 import type { CourseManager } from './CourseManager';
+import type { CourseMetadataSyncResult, LectureTemplate, LectureTitleChange } from '../types';
 
 /**
  * Lecture Manager handles lecture directory operations
@@ -199,20 +207,69 @@ export class LectureManager {
     return `lecture-${Date.now()}`;
   }
 
+  /**
+   * Rejects the lecture name taken by the exports directory: the lecture would be built
+   * into {outputDir}/{exportsDir} and its build would delete the exports.
+   * @throws Error if the name equals the first segment of `sliDevCourse.exportsDir`
+   */
+  private assertNotReservedName(name: string): void {
+    const exportsDirName = getExportsDirName(this.courseManager.getCourseRoot());
+    if (name === getReservedLectureName(exportsDirName)) {
+      throw new Error(`Lecture name "${name}" is taken by the exports folder (${exportsDirName}). Choose another name`);
+    }
+  }
+
+  /**
+   * Lists the lecture templates: the bundled default first, then the course templates
+   * (.sliman/templates/{name}/ folders with a slides.md) in alphabetical order.
+   * A course template named "default" replaces the bundled one.
+   * @returns Promise resolving to the available templates (never empty)
+   */
+  async getLectureTemplates(): Promise<LectureTemplate[]> {
+    const templatesDir = vscode.Uri.joinPath(this.courseManager.getCourseRoot(), SLIMAN_STATE_DIR, LECTURE_TEMPLATES_DIR);
+    let entries: [string, vscode.FileType][] = [];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(templatesDir);
+    } catch {
+      // No course templates
+    }
+
+    const templates: LectureTemplate[] = [];
+    for (const [entry, type] of entries.sort(([a], [b]) => a.localeCompare(b))) {
+      const dir = vscode.Uri.joinPath(templatesDir, entry);
+      if ((type & vscode.FileType.Directory) && !entry.startsWith('.') && await this.pathExists(vscode.Uri.joinPath(dir, LECTURE_SLIDES))) {
+        templates.push({ name: entry, dir });
+      }
+    }
+
+    const courseDefault = templates.findIndex((template) => template.name === DEFAULT_LECTURE_TEMPLATE);
+    const defaultTemplate = courseDefault === -1 ? { name: DEFAULT_LECTURE_TEMPLATE, dir: null } : templates.splice(courseDefault, 1)[0];
+    return [defaultTemplate, ...templates];
+  }
+
   /**
    * Copies and updates the slides.md template for a new lecture
    * @param name - Lecture folder name
    * @param title - Lecture display title
+   * @param template - Lecture template (the bundled template/slides.md when omitted)
    * @returns Promise that resolves when complete
    * @throws Error if template copy fails
    */
-  async copySlidesTemplate(name: string, title: string): Promise<void> {
-    const templateContent = await this.readTemplate(TEMPLATE_SLIDES);
+  async copySlidesTemplate(name: string, title: string, template?: LectureTemplate): Promise<void> {
+    let templateContent: string;
+    if (template?.dir) {
+      try {
+        const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(template.dir, LECTURE_SLIDES));
+        templateContent = new TextDecoder().decode(content);
+      } catch {
+        throw new Error(`Failed to read template: ${template.name}/${LECTURE_SLIDES}`);
+      }
+    } else {
+      templateContent = await this.readTemplate(TEMPLATE_SLIDES);
+    }
 
     // Replace template variables
-    const updatedContent = templateContent
-      .replace(/{{TITLE}}/g, title)
-      .replace(/{{NAME}}/g, name);
+    const updatedContent = fillSlidesTemplate(templateContent, name, title);
 
     const slidesPath = this.getLectureSlidesPath(name);
     try {
@@ -243,6 +300,74 @@ export class LectureManager {
     }
   }
 
+  /**
+   * Copies the files of a course template into a new lecture and merges its package.json
+   * overlay into the lecture package.json. Template files replace the defaults
+   * (global-top.vue, components/Courser.vue, module configs); slides.md is filled by copySlidesTemplate.
+   * @param name - Lecture folder name (package.json must exist)
+   * @param template - Lecture template (nothing to copy for the bundled default)
+   * @returns Promise that resolves when complete
+   * @throws Error if a file cannot be copied or the package.json overlay is not a JSON object
+   */
+  async applyLectureTemplate(name: string, template: LectureTemplate): Promise<void> {
+    if (!template.dir) {
+      return;
+    }
+
+    const lectureDir = this.getLectureDir(name);
+    for (const [entry, type] of await vscode.workspace.fs.readDirectory(template.dir)) {
+      if (entry === LECTURE_SLIDES || SKIPPED_TEMPLATE_ENTRIES.includes(entry)) {
+        continue;
+      }
+      const source = vscode.Uri.joinPath(template.dir, entry);
+      if (entry === LECTURE_PACKAGE) {
+        await this.mergeTemplatePackageJson(name, template, source);
+      } else {
+        await this.copyTemplateEntry(source, vscode.Uri.joinPath(lectureDir, entry), type);
+      }
+    }
+  }
+
+  /**
+   * Copies a template file, or a folder file by file (files already in the lecture folder are replaced, others kept)
+   */
+  private async copyTemplateEntry(source: vscode.Uri, target: vscode.Uri, type: vscode.FileType): Promise<void> {
+    if (!(type & vscode.FileType.Directory)) {
+      await vscode.workspace.fs.copy(source, target, { overwrite: true });
+      return;
+    }
+
+    await vscode.workspace.fs.createDirectory(target);
+    for (const [entry, entryType] of await vscode.workspace.fs.readDirectory(source)) {
+      await this.copyTemplateEntry(vscode.Uri.joinPath(source, entry), vscode.Uri.joinPath(target, entry), entryType);
+    }
+  }
+
+  /**
+   * Merges the package.json overlay of a template ({{LECTURE_NAME}} is filled in) into the lecture package.json
+   */
+  private async mergeTemplatePackageJson(name: string, template: LectureTemplate, overlayUri: vscode.Uri): Promise<void> {
+    const readJson = async (uri: vscode.Uri): Promise<unknown> => {
+      const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+      return JSON.parse(text.replace(/^\uFEFF/, '').replace(/{{LECTURE_NAME}}/g, name));
+    };
+
+    let overlay: unknown;
+    try {
+      overlay = await readJson(overlayUri);
+    } catch {
+      overlay = null;
+    }
+    if (!overlay || typeof overlay !== 'object' || Array.isArray(overlay)) {
+      throw new Error(`Invalid ${LECTURE_PACKAGE} in template "${template.name}": expected a JSON object`);
+    }
+
+    const packagePath = this.getLecturePackagePath(name);
+    const base = await readJson(packagePath) as Record<string, unknown>;
+    const merged = mergePackageJson(base, overlay as Record<string, unknown>);
+    await vscode.workspace.fs.writeFile(packagePath, new TextEncoder().encode(JSON.stringify(merged, null, 2)));
+  }
+
   /**
    * Creates components directory for a lecture if it doesn't exist
    * @param name - Lecture folder name
@@ -407,13 +532,78 @@ export class LectureManager {
     }
   }
 
+  /**
+   * Updates the slides.json title of a lecture from its slides.md frontmatter
+   * @param name - Lecture folder name
+   * @returns The change, or null if the title is unchanged, missing in slides.md
+   *          or the lecture has no slides.json entry
+   */
+  async syncLectureTitle(name: string): Promise<LectureTitleChange | null> {
+    let title: string;
+    try {
+      title = await this.readTitleFromSlides(name);
+    } catch {
+      return null;
+    }
+
+    const config = await this.courseManager.readSlidesJson();
+    const entry = config?.slides.find((l) => l.name === name);
+    if (!config || !entry || entry.title === title) {
+      return null;
+    }
+
+    const change: LectureTitleChange = { lecture: name, from: entry.title, to: title };
+    entry.title = title;
+    await this.courseManager.writeSlidesJson(config);
+    this.log(`Synced title of "${name}": "${change.from}" → "${change.to}"`);
+    return change;
+  }
+
+  /**
+   * Reconciles slides.json with the lecture folders: updates titles from slides.md,
+   * adds folders missing from slides.json and reports entries without a folder
+   * @returns What changed (nothing is written when everything is in sync)
+   * @throws Error if slides.json cannot be written
+   */
+  async syncCourseMetadata(): Promise<CourseMetadataSyncResult> {
+    const result: CourseMetadataSyncResult = { titleChanges: [], added: [], orphaned: [] };
+    const config = await this.courseManager.readSlidesJson();
+    const slides = config?.slides ?? [];
+    const directories = await this.courseManager.getLectureDirectories();
+
+    for (const name of directories) {
+      let title: string | null = null;
+      try {
+        title = await this.readTitleFromSlides(name);
+      } catch {
+        // No title in frontmatter - keep slides.json as is
+      }
+
+      const entry = slides.find((l) => l.name === name);
+      if (!entry) {
+        slides.push({ name, title: title ?? name });
+        result.added.push(name);
+      } else if (title && entry.title !== title) {
+        result.titleChanges.push({ lecture: name, from: entry.title, to: title });
+        entry.title = title;
+      }
+    }
+
+    result.orphaned = slides.filter((l) => !directories.includes(l.name)).map((l) => l.name);
+
+    if (result.titleChanges.length > 0 || result.added.length > 0) {
+      await this.courseManager.writeSlidesJson({ ...config, slides });
+    }
+    return result;
+  }
+
   /**
    * Creates a complete new lecture with all required files
    * Creates directory, copies templates, installs dependencies, updates config
    * @param nameOrTitle - Lecture folder name OR display title (if title not provided separately)
    * @param title - Optional: lecture display title (if not in nameOrTitle)
    * @returns Promise resolving to the created lecture folder name
-   * @throws Error if lecture already exists or creation fails
+   * @throws Error if lecture already exists, its name is taken by the exports folder, or creation fails
    */
   async createLecture(nameOrTitle: string, title?: string): Promise<string> {
     // Parse arguments: if title not provided, nameOrTitle is treated as title
@@ -422,7 +612,8 @@ export class LectureManager {
 
     this.log(`Creating lecture: ${displayTitle} (${name})`);
 
-    // Check if lecture already exists
+    // Check if lecture already exists or clashes with the exports folder
+    this.assertNotReservedName(name);
     if (await this.lectureExists(name)) {
       throw new Error(`Lecture "${name}" already exists`);
     }
@@ -499,10 +690,10 @@ export class LectureManager {
       throw new Error(`Failed to remove lecture directory: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
 
-    // Step 2: Remove built lecture from {course_name}/ directory (if exists)
-    const courseName = await this.courseManager.readCourseName();
-    if (courseName) {
-      const builtLectureDir = vscode.Uri.joinPath(this.courseManager.getBuiltCourseDirWithName(courseName), name);
+    // Step 2: Remove built lecture from the course output directory (if exists)
+    const layout = await this.courseManager.getOutputLayout();
+    if (layout) {
+      const builtLectureDir = this.courseManager.getLectureOutput(layout, name).dir;
       try {
         const stat = await vscode.workspace.fs.stat(builtLectureDir);
         if (stat.type === vscode.FileType.Directory) {
@@ -529,6 +720,152 @@ export class LectureManager {
     this.log(`Lecture "${name}" deleted successfully!`);
   }
 
+  /**
+   * Renames a lecture: moves slides/{old} and its built output, updates the slides.json
+   * entry, the frontmatter title/name in slides.md and the package.json name.
+   * Every step is undone in reverse order if a later step fails.
+   * The moved build keeps the old --base until it is rebuilt, so its build manifest
+   * entry is dropped and the next Build Course rebuilds it.
+   * @param oldName - Current lecture folder name
+   * @param newName - New lecture folder name (may equal oldName to change only the title)
+   * @param title - New lecture display title
+   * @returns Promise that resolves when the lecture is renamed
+   * @throws Error if the lecture doesn't exist, the new name is invalid or taken, or a step fails
+   */
+  async renameLecture(oldName: string, newName: string, title: string): Promise<void> {
+    this.log(`Renaming lecture: ${oldName} → ${newName} ("${title}")`);
+
+    if (!await this.lectureExists(oldName)) {
+      throw new Error(`Lecture "${oldName}" does not exist`);
+    }
+    if (!isValidFolderName(newName)) {
+      throw new Error(`Invalid folder name "${newName}". Use only Latin letters, numbers, and hyphens`);
+    }
+    if (newName !== oldName && await this.pathExists(this.getLectureDir(newName))) {
+      throw new Error(`Lecture "${newName}" already exists`);
+    }
+    if (newName !== oldName) {
+      this.assertNotReservedName(newName);
+    }
+
+    const rollback: Array<{ description: string; undo: () => Promise<void> }> = [];
+
+    try {
+      if (newName !== oldName) {
+        // Step 1: Rename the lecture directory
+        const oldDir = this.getLectureDir(oldName);
+        const newDir = this.getLectureDir(newName);
+        await vscode.workspace.fs.rename(oldDir, newDir);
+        rollback.push({ description: 'lecture directory', undo: () => Promise.resolve(vscode.workspace.fs.rename(newDir, oldDir)) });
+        this.log(`Renamed lecture directory: ${newDir.fsPath}`);
+
+        // Step 2: Move the built lecture and drop its build manifest entry
+        await this.moveBuiltLecture(oldName, newName, rollback);
+      }
+
+      // Step 3: Update frontmatter title/name in slides.md
+      const slidesPath = this.getLectureSlidesPath(newName);
+      const slidesContent = await vscode.workspace.fs.readFile(slidesPath);
+      const updatedSlides = updateFrontmatterFields(new TextDecoder().decode(slidesContent), { title, name: newName });
+      await vscode.workspace.fs.writeFile(slidesPath, new TextEncoder().encode(updatedSlides));
+      rollback.push({ description: 'slides.md', undo: () => Promise.resolve(vscode.workspace.fs.writeFile(slidesPath, slidesContent)) });
+      this.log('Updated slides.md frontmatter');
+
+      // Step 4: Update the package.json name
+      if (newName !== oldName) {
+        const packagePath = this.getLecturePackagePath(newName);
+        const packageContent = await vscode.workspace.fs.readFile(packagePath);
+        // Templates are saved with a BOM, which JSON.parse rejects
+        const packageJson = JSON.parse(new TextDecoder().decode(packageContent).replace(/^\uFEFF/, '')) as Record<string, unknown>;
+        packageJson.name = newName;
+        await vscode.workspace.fs.writeFile(packagePath, new TextEncoder().encode(JSON.stringify(packageJson, null, 2) + '\n'));
+        rollback.push({ description: 'package.json', undo: () => Promise.resolve(vscode.workspace.fs.writeFile(packagePath, packageContent)) });
+        this.log('Updated package.json name');
+      }
+
+      // Step 5: Update the slides.json entry
+      const slidesConfig = await this.courseManager.readSlidesJson();
+      await this.courseManager.renameLectureEntry(oldName, newName, title);
+      rollback.push({
+        description: 'slides.json',
+        undo: async () => {
+          if (slidesConfig) {
+            await this.courseManager.writeSlidesJson(slidesConfig);
+          }
+        },
+      });
+      this.log('Updated slides.json entry');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.log(`✗ Rename failed: ${message}. Rolling back...`);
+
+      for (const step of rollback.reverse()) {
+        try {
+          await step.undo();
+          this.log(`Restored ${step.description}`);
+        } catch (undoError) {
+          this.log(`Warning: Failed to restore ${step.description}: ${undoError instanceof Error ? undoError.message : 'Unknown error'}`);
+        }
+      }
+
+      throw new Error(`Failed to rename lecture "${oldName}": ${message}`);
+    }
+
+    this.log(`Lecture "${oldName}" renamed to "${newName}" successfully!`);
+  }
+
+  /**
+   * Moves {output}/{old} to {output}/{new} when the lecture was built
+   * and removes the lecture from the build manifest
+   * @param rollback - Rollback steps to append to
+   */
+  private async moveBuiltLecture(
+    oldName: string,
+    newName: string,
+    rollback: Array<{ description: string; undo: () => Promise<void> }>
+  ): Promise<void> {
+    const layout = await this.courseManager.getOutputLayout();
+    if (!layout) {
+      this.log('Warning: Course name not found in sliman.json, skipping built lecture');
+      return;
+    }
+
+    const outputDir = layout.outputDir;
+    const oldBuilt = this.courseManager.getLectureOutput(layout, oldName).dir;
+    const newBuilt = this.courseManager.getLectureOutput(layout, newName).dir;
+    if (!await this.pathExists(oldBuilt)) {
+      this.log(`Built lecture not found (normal if lecture wasn't built): ${oldBuilt.fsPath}`);
+      return;
+    }
+
+    if (await this.pathExists(newBuilt)) {
+      throw new Error(`Built output already exists: ${newBuilt.fsPath}. Remove it and try again`);
+    }
+    await vscode.workspace.fs.rename(oldBuilt, newBuilt);
+    rollback.push({ description: 'built lecture', undo: () => Promise.resolve(vscode.workspace.fs.rename(newBuilt, oldBuilt)) });
+    this.log(`Moved built lecture: ${newBuilt.fsPath}`);
+
+    const manifest = await readBuildManifest(outputDir.fsPath);
+    if (manifest.lectures[oldName]) {
+      const original = { ...manifest, lectures: { ...manifest.lectures } };
+      delete manifest.lectures[oldName];
+      await writeBuildManifest(outputDir.fsPath, manifest);
+      rollback.push({ description: 'build manifest', undo: () => writeBuildManifest(outputDir.fsPath, original) });
+    }
+  }
+
+  /**
+   * Checks whether a file or directory exists
+   */
+  private async pathExists(uri: vscode.Uri): Promise<boolean> {
+    try {
+      await vscode.workspace.fs.stat(uri);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   // ============================================
   // Module Support Methods
   // ============================================
@@ -800,9 +1137,15 @@ export class LectureManager {
    * @param nameOrTitle - Lecture folder name OR display title
    * @param title - Optional lecture display title
    * @param selectedModules - Array of selected module IDs
+   * @param template - Lecture template (getLectureTemplates; the bundled default when omitted)
    * @returns Promise resolving to the created lecture folder name
    */
-  async createLectureWithModules(nameOrTitle: string, title?: string, selectedModules: string[] = []): Promise<string> {
+  async createLectureWithModules(
+    nameOrTitle: string,
+    title?: string,
+    selectedModules: string[] = [],
+    template?: LectureTemplate
+  ): Promise<string> {
     // Parse arguments: if title not provided, nameOrTitle is treated as title
     const name = this.validateAndGetFolderName(nameOrTitle, title || nameOrTitle);
     const displayTitle = title || nameOrTitle;
@@ -810,7 +1153,8 @@ export class LectureManager {
     this.log(`Creating lecture with modules: ${displayTitle} (${name}) with modules: ${selectedModules.join(', ') || 'none'}`);
 
     try {
-      // Check if lecture already exists
+      // Check if lecture already exists or clashes with the exports folder
+      this.assertNotReservedName(name);
       if (await this.lectureExists(name)) {
         throw new Error(`Lecture "${name}" already exists`);
       }
@@ -821,8 +1165,8 @@ export class LectureManager {
       this.log('✓ Directory created');
 
       // Step 2: Copy and update slides.md template
-      this.log('Step 2: Copying slides template...');
-      await this.copySlidesTemplate(name, displayTitle);
+      this.log(`Step 2: Copying slides template (${template?.name ?? DEFAULT_LECTURE_TEMPLATE})...`);
+      await this.copySlidesTemplate(name, displayTitle, template);
       this.log('✓ Slides template copied');
 
       // Step 3: Create modular package.json with selected modules
@@ -842,8 +1186,15 @@ export class LectureManager {
       await this.copyCourserVue(name);
       this.log('✓ Courser.vue copied to components directory');
 
+      // Step 3.3: Copy the lecture template files (they replace the defaults above)
+      if (template?.dir) {
+        this.log(`Step 6: Copying files of template "${template.name}"...`);
+        await this.applyLectureTemplate(name, template);
+        this.log('✓ Template files copied');
+      }
+
       // Step 4: Initialize npm dependencies (SKIP IN TEST)
-      this.log('Step 6: Setting up dependencies...');
+      this.log('Step 7: Setting up dependencies...');
       if (process.env.NODE_ENV === 'test' || process.env.VSCODE_TEST === '1') {
         this.log('Test environment: creating mock node_modules');
         const nodeModulesPath = vscode.Uri.joinPath(this.getLectureDir(name), 'node_modules');
@@ -860,7 +1211,7 @@ export class LectureManager {
       this.log('✓ Dependencies setup completed');
 
       // Step 5: Update course configuration
-      this.log('Step 7: Updating course configuration...');
+      this.log('Step 8: Updating course configuration...');
       await this.updateCourseConfig(name, displayTitle);
       this.log('✓ Course configuration updated');
 
@@ -1,63 +1,243 @@
 /**
  * Managers Container - Central storage for all extension managers
- * 
+ *
  * Provides singleton access to managers throughout the extension lifecycle.
  * Managers are initialized once during extension activation and reused across commands.
- * 
+ *
  * Stage 2: Includes CourseManager, LectureManager, and BuildManager
  * Stage 4: Includes CourseExplorer
+ * Also includes ExportManager (slidev export) and DoctorManager (consistency checks)
+ *
+ * Multi-root workspaces and monorepos: every course (a workspace folder with sliman.json,
+ * or a `sliDevCourse.courseRoot` folder inside it) gets its own manager set
+ * (CourseManagers). One of them is the active course — the one the manager getters return
+ * and commands work on. It follows the active editor and the Course Explorer item a command
+ * was started from (selectCourse).
  */
 
-import type * as vscode from 'vscode';
+import * as vscode from 'vscode';
+import * as path from 'path';
 import { CourseManager } from './CourseManager';
 import { LectureManager } from './LectureManager';
 import { BuildManager } from './BuildManager';
+import { ExportManager } from './ExportManager';
+import { DoctorManager } from './DoctorManager';
 import { CourseExplorer } from '../providers/CourseExplorer';
+import { findCourseRoots } from '../utils/courseRoots';
+
+/**
+ * Manager set of one course (workspace folder)
+ */
+export interface CourseManagers {
+  /** Course root (workspace folder or a course folder inside it) */
+  readonly root: vscode.Uri;
+  readonly courseManager: CourseManager;
+  readonly lectureManager: LectureManager;
+  readonly buildManager: BuildManager;
+  readonly exportManager: ExportManager;
+  readonly doctorManager: DoctorManager;
+  /** Per-course resources (build terminals, watchers, diagnostics), disposed when the course is removed */
+  readonly disposables: vscode.Disposable[];
+}
 
 /**
  * Container for storing and providing access to extension managers
  */
 export class ManagersContainer {
-  private _courseManager: CourseManager | null = null;
-  private _lectureManager: LectureManager | null = null;
-  private _buildManager: BuildManager | null = null;
+  /** Manager sets by course root URI (in workspace folder order) */
+  private readonly _courses = new Map<string, CourseManagers>();
+  private _activeKey: string | null = null;
+  private _extensionPath: string | null = null;
   private _courseExplorer: CourseExplorer | null = null;
 
+  private readonly _onDidAddCourse = new vscode.EventEmitter<CourseManagers>();
+
+  /** Fires when a manager set is created for a course (e.g. to start its watchers) */
+  readonly onDidAddCourse = this._onDidAddCourse.event;
+
   /**
-   * Initializes all managers with the given workspace URI
-   * @param workspaceUri - The workspace folder URI
+   * Initializes the container (Course Explorer and extension path).
+   * Courses are added with addCourse or syncWorkspaceFolders.
    * @param context - VS Code extension context (for CourseExplorer)
    * @param extensionPath - Path to the extension root directory (for LectureManager only)
    */
-  initialize(workspaceUri: vscode.Uri, context: vscode.ExtensionContext, extensionPath: string): void {
-    this._courseManager = new CourseManager(workspaceUri);
-    this._lectureManager = new LectureManager(this._courseManager, extensionPath);
-    this._buildManager = new BuildManager(this._courseManager, this._lectureManager);
+  initialize(context: vscode.ExtensionContext, extensionPath: string): void {
+    this._extensionPath = extensionPath;
     this._courseExplorer = new CourseExplorer(context);
   }
 
   /**
-   * Gets the CourseManager instance
+   * Creates the manager set of a course (or returns the existing one).
+   * The first added course becomes the active course.
+   * @param root - Course root (workspace folder or a course folder inside it)
+   * @returns Manager set of the course
+   * @throws Error if the container is not initialized
+   */
+  addCourse(root: vscode.Uri): CourseManagers {
+    const key = root.toString();
+    const existing = this._courses.get(key);
+    if (existing) {
+      return existing;
+    }
+    if (this._extensionPath === null) {
+      throw new Error('ManagersContainer is not initialized');
+    }
+
+    const courseManager = new CourseManager(root);
+    const lectureManager = new LectureManager(courseManager, this._extensionPath);
+    const buildManager = new BuildManager(courseManager, lectureManager);
+    const course: CourseManagers = {
+      root,
+      courseManager,
+      lectureManager,
+      buildManager,
+      exportManager: new ExportManager(courseManager, lectureManager, buildManager),
+      doctorManager: new DoctorManager(courseManager, lectureManager),
+      // The build manager owns the build and dev server terminals of the course
+      disposables: [buildManager],
+    };
+
+    this._courses.set(key, course);
+    this._activeKey ??= key;
+    this._onDidAddCourse.fire(course);
+    return course;
+  }
+
+  /**
+   * Removes the manager set of a course and disposes its resources
+   * @param root - Course root
+   * @returns True if the course was registered
+   */
+  removeCourse(root: vscode.Uri): boolean {
+    const key = root.toString();
+    const course = this._courses.get(key);
+    if (!course) {
+      return false;
+    }
+
+    course.disposables.forEach((disposable) => disposable.dispose());
+    this._courses.delete(key);
+    if (this._activeKey === key) {
+      this._activeKey = this._courses.keys().next().value ?? null;
+    }
+    return true;
+  }
+
+  /**
+   * Brings the manager sets in line with the workspace folders: every course found in
+   * them (the folder itself, or the `sliDevCourse.courseRoot` folders in a monorepo)
+   * gets a manager set, removed folders and courses lose theirs.
+   * Without any course the first folder keeps a manager set, so commands can report
+   * that sliman.json is missing and the Course Explorer offers to create a course.
+   * @param folders - Workspace folders (defaults to the current ones)
+   */
+  async syncWorkspaceFolders(folders: readonly vscode.WorkspaceFolder[] = vscode.workspace.workspaceFolders ?? []): Promise<void> {
+    const courseRoots: vscode.Uri[] = [];
+    for (const folder of folders) {
+      courseRoots.push(...await findCourseRoots(folder));
+    }
+    if (courseRoots.length === 0 && folders.length > 0) {
+      courseRoots.push(folders[0].uri);
+    }
+
+    const keep = new Set(courseRoots.map((root) => root.toString()));
+    for (const course of [...this._courses.values()]) {
+      if (!keep.has(course.root.toString())) {
+        this.removeCourse(course.root);
+      }
+    }
+    courseRoots.forEach((root) => this.addCourse(root));
+
+    // Keep workspace folder order
+    const ordered = courseRoots.map((root) => this._courses.get(root.toString()) as CourseManagers);
+    this._courses.clear();
+    ordered.forEach((course) => this._courses.set(course.root.toString(), course));
+  }
+
+  /**
+   * Gets all registered courses in workspace folder order
+   */
+  get courses(): CourseManagers[] {
+    return [...this._courses.values()];
+  }
+
+  /**
+   * Finds the course that contains a URI (a course root or any file inside it)
+   * @param uri - Course root or file URI; the active course when omitted
+   * @returns Manager set, or null if no course contains the URI
+   */
+  getCourse(uri?: vscode.Uri): CourseManagers | null {
+    if (!uri) {
+      return this._activeKey ? this._courses.get(this._activeKey) ?? null : null;
+    }
+
+    let match: CourseManagers | null = null;
+    for (const course of this._courses.values()) {
+      if (course.root.scheme !== uri.scheme) {
+        continue;
+      }
+      const relative = path.relative(course.root.fsPath, uri.fsPath);
+      const inside = relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+      // Nested folders: the innermost course wins
+      if (inside && (!match || course.root.fsPath.length > match.root.fsPath.length)) {
+        match = course;
+      }
+    }
+    return match;
+  }
+
+  /**
+   * Makes the course containing a URI the active course
+   * @param uri - Course root or file URI (ignored when omitted or not a URI, e.g. a command argument from a keybinding)
+   * @returns True if a course contains the URI
+   */
+  selectCourse(uri?: unknown): boolean {
+    const course = uri instanceof vscode.Uri ? this.getCourse(uri) : null;
+    if (!course) {
+      return false;
+    }
+    this._activeKey = course.root.toString();
+    return true;
+  }
+
+  /**
+   * Gets the CourseManager instance of the active course
    * @returns CourseManager or null if not initialized
    */
   get courseManager(): CourseManager | null {
-    return this._courseManager;
+    return this.getCourse()?.courseManager ?? null;
   }
 
   /**
-   * Gets the LectureManager instance
+   * Gets the LectureManager instance of the active course
    * @returns LectureManager or null if not initialized
    */
   get lectureManager(): LectureManager | null {
-    return this._lectureManager;
+    return this.getCourse()?.lectureManager ?? null;
   }
 
   /**
-   * Gets the BuildManager instance
+   * Gets the BuildManager instance of the active course
    * @returns BuildManager or null if not initialized
    */
   get buildManager(): BuildManager | null {
-    return this._buildManager;
+    return this.getCourse()?.buildManager ?? null;
+  }
+
+  /**
+   * Gets the ExportManager instance of the active course
+   * @returns ExportManager or null if not initialized
+   */
+  get exportManager(): ExportManager | null {
+    return this.getCourse()?.exportManager ?? null;
+  }
+
+  /**
+   * Gets the DoctorManager instance of the active course
+   * @returns DoctorManager or null if not initialized
+   */
+  get doctorManager(): DoctorManager | null {
+    return this.getCourse()?.doctorManager ?? null;
   }
 
   /**
@@ -70,12 +250,10 @@ export class ManagersContainer {
 
   /**
    * Checks if managers are initialized
-   * @returns True if managers are ready
+   * @returns True if at least one course has its managers
    */
   isInitialized(): boolean {
-    return this._courseManager !== null && 
-           this._lectureManager !== null && 
-           this._buildManager !== null;
+    return this._courses.size > 0;
   }
 
   /**
@@ -89,9 +267,9 @@ export class ManagersContainer {
    * Resets all managers (useful for testing or workspace changes)
    */
   reset(): void {
-    this._courseManager = null;
-    this._lectureManager = null;
-    this._buildManager = null;
+    this.courses.forEach((course) => this.removeCourse(course.root));
+    this._activeKey = null;
+    this._extensionPath = null;
     this._courseExplorer = null;
   }
 }
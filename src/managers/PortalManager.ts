@@ -0,0 +1,88 @@
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import type { CourseManager } from './CourseManager';
+import { generatePortalHtml, isGeneratedPortal } from '../utils/portal';
+import type { PortalCourse } from '../utils/portal';
+
+/**
+ * Portal Manager — Writes the course portal of a monorepo.
+ *
+ * The portal is {monorepo root}/index.html with a link to the index.html of every
+ * course found by `sliDevCourse.courseRoot` (in the output directory of the course).
+ * Links are relative, so the portal works wherever the repository is served from.
+ */
+export class PortalManager {
+  /**
+   * Creates a new PortalManager instance.
+   * @param monorepoRoot - Workspace folder holding the courses (portal location)
+   */
+  constructor(private readonly monorepoRoot: vscode.Uri) {}
+
+  /**
+   * Gets the absolute path of the portal index.html.
+   */
+  getPortalPath(): string {
+    return path.join(this.monorepoRoot.fsPath, 'index.html');
+  }
+
+  /**
+   * Writes the portal index.html.
+   * @param courses - CourseManagers of the courses inside the monorepo root
+   * @returns Absolute path of the written portal
+   * @throws Error if index.html exists and was not generated by the extension
+   */
+  async writePortal(courses: CourseManager[]): Promise<string> {
+    const portalPath = this.getPortalPath();
+
+    // Step 1: Never overwrite a hand-written index.html
+    let existing: string | null = null;
+    try {
+      existing = await fs.promises.readFile(portalPath, 'utf-8');
+    } catch {
+      // No portal yet
+    }
+    if (existing !== null && !isGeneratedPortal(existing)) {
+      throw new Error(`${portalPath} exists and was not generated by sliman. Remove or rename it to generate the course portal`);
+    }
+
+    // Step 2: Collect courses
+    const entries: PortalCourse[] = [];
+    for (const courseManager of courses) {
+      const entry = await this.getPortalCourse(courseManager);
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+
+    // Step 3: Write
+    const html = generatePortalHtml(path.basename(this.monorepoRoot.fsPath), entries);
+    await fs.promises.writeFile(portalPath, html, 'utf-8');
+    return portalPath;
+  }
+
+  /**
+   * Builds the portal entry of a course.
+   * @returns Entry, or null if the course has no valid sliman.json
+   */
+  private async getPortalCourse(courseManager: CourseManager): Promise<PortalCourse | null> {
+    const courseName = await courseManager.readCourseName();
+    const layout = await courseManager.getOutputLayout();
+    if (!courseName || !layout) {
+      return null;
+    }
+
+    const indexPath = layout.indexHtml.fsPath;
+    const relative = path.relative(this.monorepoRoot.fsPath, indexPath).split(path.sep).join('/');
+    const slides = await courseManager.readSlidesJson();
+
+    return {
+      name: courseName,
+      href: `./${relative.split('/').map(encodeURIComponent).join('/')}`,
+      lectures: slides?.slides.length ?? 0,
+      built: fs.existsSync(indexPath),
+    };
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Title Sync Watcher - Keeps slides.json titles in sync with slides.md frontmatter
+ *
+ * Watches the slides.md of every lecture folder in slides/ and, when one is saved,
+ * copies its `title:` into the matching slides.json entry.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LECTURE_SLIDES } from '../constants';
+import type { CourseManager } from './CourseManager';
+import type { LectureManager } from './LectureManager';
+import type { LectureTitleChange } from '../types';
+
+/** Delay before syncing, so bursts of saves (auto save, formatters) sync once */
+const SYNC_DELAY_MS = 300;
+
+/**
+ * Watches lecture slides.md files and syncs their titles into slides.json
+ */
+export class TitleSyncWatcher implements vscode.Disposable {
+  private readonly watcher: vscode.FileSystemWatcher;
+  private readonly pending = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Creates the watcher and starts watching
+   * @param courseManager - Provides the slides/ directory
+   * @param lectureManager - Syncs a lecture title
+   * @param onTitleSynced - Called after a title changed in slides.json
+   */
+  constructor(
+    courseManager: CourseManager,
+    private readonly lectureManager: LectureManager,
+    private readonly onTitleSynced: (change: LectureTitleChange) => void | Promise<void>
+  ) {
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(courseManager.getSlidesDir(), `*/${LECTURE_SLIDES}`)
+    );
+    this.watcher.onDidChange((uri) => this.schedule(uri));
+    this.watcher.onDidCreate((uri) => this.schedule(uri));
+  }
+
+  /**
+   * Stops watching and cancels pending syncs
+   */
+  dispose(): void {
+    this.watcher.dispose();
+    this.pending.forEach((timer) => clearTimeout(timer));
+    this.pending.clear();
+  }
+
+  /**
+   * Schedules a title sync of the lecture owning a slides.md file
+   */
+  private schedule(uri: vscode.Uri): void {
+    const lecture = path.basename(path.dirname(uri.fsPath));
+
+    const previous = this.pending.get(lecture);
+    if (previous) {
+      clearTimeout(previous);
+    }
+
+    this.pending.set(lecture, setTimeout(() => {
+      this.pending.delete(lecture);
+      void this.sync(lecture);
+    }, SYNC_DELAY_MS));
+  }
+
+  private async sync(lecture: string): Promise<void> {
+    try {
+      const change = await this.lectureManager.syncLectureTitle(lecture);
+      if (change) {
+        await this.onTitleSynced(change);
+      }
+    } catch (error) {
+      console.error(`[TitleSyncWatcher] Failed to sync title of "${lecture}":`, error);
+    }
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Config Diagnostics Provider
+ *
+ * Validates sliman.json and slides.json while they are open in the editor and shows
+ * problems in the Problems panel, with quick fixes as code actions.
+ * Validation rules live in utils/configValidation.ts.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SLIMAN_FILENAME, SLIDES_FILENAME } from '../constants';
+import { validateSlidesJson, validateSlimanJson } from '../utils/configValidation';
+import { getExportsDirName, getReservedLectureName } from '../utils/exports';
+import type { ConfigIssue } from '../utils/configValidation';
+import type { CourseManager } from '../managers/CourseManager';
+
+/** Diagnostic source shown in the Problems panel */
+const DIAGNOSTIC_SOURCE = 'sliman';
+
+/**
+ * ConfigDiagnosticsProvider keeps a DiagnosticCollection for the course config files
+ * and provides their quick fixes.
+ */
+export class ConfigDiagnosticsProvider implements vscode.CodeActionProvider, vscode.Disposable {
+  /** Code action kinds offered by this provider */
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private readonly diagnostics = vscode.languages.createDiagnosticCollection(DIAGNOSTIC_SOURCE);
+
+  /** Issues behind the current diagnostics, per document */
+  private readonly issues = new Map<string, Array<{ diagnostic: vscode.Diagnostic; issue: ConfigIssue }>>();
+
+  private readonly subscriptions: vscode.Disposable[] = [];
+
+  /**
+   * Creates the provider and validates already open documents
+   * @param courseManager - Resolves the config file locations
+   */
+  constructor(private readonly courseManager: CourseManager) {
+    this.subscriptions.push(
+      vscode.workspace.onDidOpenTextDocument((document) => void this.validate(document)),
+      vscode.workspace.onDidChangeTextDocument((event) => void this.validate(event.document)),
+      vscode.workspace.onDidCloseTextDocument((document) => this.clear(document.uri)),
+      vscode.languages.registerCodeActionsProvider(
+        [{ pattern: `**/${SLIMAN_FILENAME}` }, { pattern: `**/${SLIDES_FILENAME}` }],
+        this,
+        { providedCodeActionKinds: ConfigDiagnosticsProvider.providedCodeActionKinds }
+      )
+    );
+
+    vscode.workspace.textDocuments.forEach((document) => void this.validate(document));
+  }
+
+  /**
+   * Validates a document if it is the course sliman.json or slides.json
+   * @param document - Opened or changed document
+   */
+  async validate(document: vscode.TextDocument): Promise<void> {
+    const kind = this.getConfigKind(document.uri);
+    if (!kind) {
+      return;
+    }
+
+    const text = document.getText();
+    const issues = kind === 'sliman'
+      ? validateSlimanJson(text, path.basename(this.courseManager.getCourseRoot().fsPath))
+      : validateSlidesJson(
+        text,
+        await this.courseManager.getLectureDirectories(),
+        getReservedLectureName(getExportsDirName(this.courseManager.getCourseRoot()))
+      );
+
+    // A newer change may have validated the document meanwhile
+    if (document.isClosed || document.getText() !== text) {
+      return;
+    }
+
+    const entries = issues.map((issue) => {
+      const range = new vscode.Range(document.positionAt(issue.offset), document.positionAt(issue.offset + issue.length));
+      const diagnostic = new vscode.Diagnostic(
+        range,
+        issue.message,
+        issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostic.code = issue.code;
+      return { diagnostic, issue };
+    });
+
+    this.issues.set(document.uri.toString(), entries);
+    this.diagnostics.set(document.uri, entries.map((entry) => entry.diagnostic));
+  }
+
+  /**
+   * Provides quick fixes for sliman diagnostics in the requested range
+   */
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const entries = this.issues.get(document.uri.toString()) ?? [];
+    const actions: vscode.CodeAction[] = [];
+
+    for (const { diagnostic, issue } of entries) {
+      if (!context.diagnostics.includes(diagnostic)) {
+        continue;
+      }
+
+      issue.fixes.forEach((fix, index) => {
+        const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = index === 0;
+        action.edit = new vscode.WorkspaceEdit();
+        for (const edit of fix.edits) {
+          const range = new vscode.Range(document.positionAt(edit.offset), document.positionAt(edit.offset + edit.length));
+          action.edit.replace(document.uri, range, edit.newText);
+        }
+        actions.push(action);
+      });
+    }
+
+    return actions;
+  }
+
+  /**
+   * Disposes the diagnostics and listeners
+   */
+  dispose(): void {
+    this.subscriptions.forEach((subscription) => subscription.dispose());
+    this.diagnostics.dispose();
+    this.issues.clear();
+  }
+
+  private clear(uri: vscode.Uri): void {
+    this.diagnostics.delete(uri);
+    this.issues.delete(uri.toString());
+  }
+
+  /**
+   * Tells whether a file is the course sliman.json or slides.json
+   * (the generated copy in the output directory is not checked)
+   */
+  private getConfigKind(uri: vscode.Uri): 'sliman' | 'slides' | null {
+    if (uri.scheme !== 'file') {
+      return null;
+    }
+
+    const courseRoot = this.courseManager.getCourseRoot().fsPath;
+    const filePath = uri.fsPath;
+    if (filePath === path.join(courseRoot, SLIMAN_FILENAME)) {
+      return 'sliman';
+    }
+    return filePath === this.courseManager.getSlidesJsonUri().fsPath ? 'slides' : null;
+  }
+}
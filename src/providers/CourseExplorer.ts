@@ -48,8 +48,8 @@ export class CourseExplorer {
 
   /**
    * Initializes the Course Explorer tree view
-   * Must be called after managers are initialized
-   * @param managers - ManagersContainer with initialized managers
+   * Works without courses too: the tree then offers to open a folder or create a course
+   * @param managers - ManagersContainer (courses may be added later)
    */
   initialize(managers: ManagersContainer): void {
     // Prevent re-initialization
@@ -58,23 +58,16 @@ export class CourseExplorer {
       return;
     }
 
-    if (!managers.isInitialized()) {
-      console.error('[CourseExplorer] Cannot initialize: managers not ready');
-      return;
-    }
-
-    const courseManager = managers.courseManager;
-    if (!courseManager) {
-      console.error('[CourseExplorer] CourseManager not available');
-      return;
-    }
-
-    // Create data provider
-    this._dataProvider = new CourseExplorerDataProvider(courseManager);
+    // Create data provider (also handles drag and drop of lectures)
+    this._dataProvider = new CourseExplorerDataProvider(managers, async (course) => {
+      await course.buildManager.updateIndexHtml();
+    });
 
     // Create tree view
     this._treeView = vscode.window.createTreeView('courseExplorer', {
       treeDataProvider: this._dataProvider,
+      dragAndDropController: this._dataProvider,
+      canSelectMany: true,
       showCollapseAll: true,
     });
 
@@ -3,34 +3,61 @@
  * 
  * Implements vscode.TreeDataProvider for Course Explorer tree view.
  * Provides course structure data and handles tree item rendering.
+ * Also the drag and drop controller: dragging lectures reorders them in slides.json.
  * 
  * IMPORTANT: All tree items MUST have a valid string 'id' property.
+ * Ids are prefixed with the course root, so they stay unique in multi-root workspaces.
  */
 
 import * as vscode from 'vscode';
-import type { CourseTreeItem } from '../types';
-import type { CourseManager } from '../managers/CourseManager';
+import * as path from 'path';
+import type { CourseTreeItem, LectureTreeItem } from '../types';
+import type { CourseManagers, ManagersContainer } from '../managers/ManagersContainer';
+
+/** Drag and drop MIME type of lectures (tree view id in lower case, as VS Code uses for tree items) */
+const LECTURE_MIME_TYPE = 'application/vnd.code.tree.courseexplorer';
+
+/** Dragged lectures: names and the course they belong to */
+interface DraggedLectures {
+  courseRoot: string;
+  names: string[];
+}
 
 /**
  * CourseExplorerDataProvider provides data for the Course Explorer tree view.
- * It reads course structure from CourseManager and converts it to tree items.
+ * It reads course structure from the CourseManager of each course and converts it to tree items.
+ * With one course its items are shown at the top level; with several courses
+ * (multi-root workspace) every course gets a root node.
  */
-export class CourseExplorerDataProvider implements vscode.TreeDataProvider<CourseTreeItem> {
+export class CourseExplorerDataProvider
+  implements vscode.TreeDataProvider<CourseTreeItem>, vscode.TreeDragAndDropController<CourseTreeItem>
+{
+  /** MIME types accepted on drop */
+  readonly dropMimeTypes = [LECTURE_MIME_TYPE];
+
+  /** MIME types produced on drag */
+  readonly dragMimeTypes = [LECTURE_MIME_TYPE];
+
   /** Event emitter for tree data changes */
   private readonly _onDidChangeTreeData = new vscode.EventEmitter<CourseTreeItem | undefined>();
   
   /** Event that fires when tree data changes */
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-  /** Course manager instance for reading course data */
-  private readonly courseManager: CourseManager;
+  /** Managers container with the manager set of every course */
+  private readonly managers: ManagersContainer;
+
+  /** Called after lectures of a course were reordered by drag and drop (e.g. to update index.html) */
+  private readonly onLecturesReordered?: (course: CourseManagers) => Promise<void>;
 
   /**
    * Creates a new CourseExplorerDataProvider instance
-   * @param courseManager - CourseManager instance for data access
+   * @param managers - ManagersContainer with the courses to show
+   * @param onLecturesReordered - Optional callback after a drag and drop reorder
    */
-  constructor(courseManager: CourseManager) {
-    this.courseManager = courseManager;
+  constructor(managers: ManagersContainer, onLecturesReordered?: (course: CourseManagers) => Promise<void>) {
+    this.managers = managers;
+    this.onLecturesReordered = onLecturesReordered;
   }
 
   /**
@@ -51,6 +78,7 @@ export class CourseExplorerDataProvider implements vscode.TreeDataProvider<Cours
     treeItem.iconPath = element.icon ?? undefined;
     treeItem.command = element.command ?? undefined;
     treeItem.contextValue = element.contextValue;
+    treeItem.description = element.description;
 
     return treeItem;
   }
@@ -61,37 +89,50 @@ export class CourseExplorerDataProvider implements vscode.TreeDataProvider<Cours
    * @returns Promise resolving to array of child tree items
    */
   async getChildren(element?: CourseTreeItem): Promise<CourseTreeItem[]> {
-    // No course manager - return empty
-    if (!this.courseManager) {
-      return [];
-    }
-
-    // Root element - check if course exists and return appropriate items
+    // Root element - one node per course, or the course items directly for a single course
     if (!element) {
-      // Check if course is initialized (sliman.json exists)
-      const isCourseRoot = await this.courseManager.isCourseRoot();
+      const courses: CourseManagers[] = [];
+      for (const course of this.managers.courses) {
+        // Check if course is initialized (sliman.json exists)
+        if (await course.courseManager.isCourseRoot()) {
+          courses.push(course);
+        }
+      }
 
-      if (!isCourseRoot) {
+      if (courses.length === 0) {
+        // No folder open - the view shows its welcome content (Open Folder)
+        if (!vscode.workspace.workspaceFolders?.length) {
+          return [];
+        }
         // No course - show "Create Course" action
         return [this.buildCreateCourseItem()];
       }
 
-      // Course exists - return root actions + folder structure
-      return [
-        ...this.buildRootActionItems(),
-        ...await this.buildFolderItems(),
-      ];
+      if (courses.length === 1) {
+        return this.buildCourseChildren(courses[0]);
+      }
+
+      return Promise.all(courses.map((course) => this.buildRootItem(course)));
+    }
+
+    const course = element.courseRoot ? this.managers.getCourse(element.courseRoot) : null;
+    if (!course) {
+      return [];
+    }
+
+    // Course root - return root actions + folder structure
+    if (element.contextValue === 'course-root') {
+      return this.buildCourseChildren(course, element);
     }
 
     // Lectures folder - return lecture items
-    if (element.id === 'lectures-folder') {
-      return this.buildLectureItems();
+    if (element.contextValue === 'lectures-folder') {
+      return this.buildLectureItems(course, element);
     }
 
-    // Lecture item - return lecture commands (View, Edit, Build)
-    if (element.id.startsWith('lecture-') && !element.id.startsWith('lecture-actions-')) {
-      const lectureName = element.id.replace('lecture-', '');
-      return this.buildLectureCommands(lectureName);
+    // Lecture item - return lecture commands (View, Edit, Build, Export, Delete)
+    if (isLectureItem(element)) {
+      return this.buildLectureCommands(course, element);
     }
 
     return [];
@@ -100,46 +141,78 @@ export class CourseExplorerDataProvider implements vscode.TreeDataProvider<Cours
   /**
    * Gets the parent of a tree item
    * @param element - The tree item to get parent for
-   * @returns Promise resolving to parent or undefined
+   * @returns Parent item or undefined for top-level items
    */
   getParent(element: CourseTreeItem): vscode.ProviderResult<CourseTreeItem> {
-    // Guard: ensure element has valid id
-    if (typeof element.id !== 'string') {
-      return undefined;
+    return element.parent;
+  }
+
+  // ============================================
+  // Drag and Drop - Lecture reordering
+  // ============================================
+
+  /**
+   * Puts the dragged lecture names into the data transfer (other items are not draggable).
+   * Only lectures of one course are dragged: the course of the first lecture.
+   * @param source - Dragged tree items
+   * @param dataTransfer - Data transfer to fill
+   */
+  handleDrag(source: readonly CourseTreeItem[], dataTransfer: vscode.DataTransfer): void {
+    const lectures = source.filter(isLectureItem);
+    const courseRoot = lectures[0]?.courseRoot?.toString();
+    if (!courseRoot) {
+      return;
     }
 
-    // Define parent-child relationships
-    const isChildOfRoot = element.id === 'lectures-folder' || element.id.startsWith('root-');
-    const isLectureCommand = element.id.startsWith('lecture-command-');
-    const isLecture = element.id.startsWith('lecture-') && !element.id.startsWith('lecture-command-');
+    const dragged: DraggedLectures = {
+      courseRoot,
+      names: lectures.filter((item) => item.courseRoot?.toString() === courseRoot).map((item) => item.name),
+    };
+    dataTransfer.set(LECTURE_MIME_TYPE, new vscode.DataTransferItem(dragged));
+  }
+
+  /**
+   * Reorders dropped lectures in slides.json.
+   * Dropping onto a lecture takes its place; dropping onto the Lectures folder moves to the end.
+   * Lectures cannot be moved to another course.
+   * @param target - Tree item dropped onto
+   * @param dataTransfer - Data transfer with lecture names
+   */
+  async handleDrop(target: CourseTreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+    const dragged = dataTransfer.get(LECTURE_MIME_TYPE)?.value as DraggedLectures | undefined;
+    if (!dragged || dragged.names.length === 0 || !target?.courseRoot) {
+      return;
+    }
 
-    if (isChildOfRoot) {
-      // Return root item
-      return this.buildRootItem();
+    if (target.courseRoot.toString() !== dragged.courseRoot) {
+      void vscode.window.showWarningMessage('Lectures can only be reordered within their course');
+      return;
     }
 
-    if (isLectureCommand) {
-      // Return lecture item (parent is the lecture)
-      // Extract lecture name from lecture-command-view-about -> about
-      const lectureName = element.id.replace('lecture-command-view-', '').replace('lecture-command-edit-', '').replace('lecture-command-build-', '');
-      const lectureId = `lecture-${lectureName}`;
-      // Build lecture item directly instead of calling buildLectureItem
-      return Promise.resolve({
-        id: lectureId,
-        label: `${lectureName}`,
-        type: 'lecture',
-        icon: new vscode.ThemeIcon('file'),
-        collapsible: vscode.TreeItemCollapsibleState.Collapsed,
-        contextValue: 'lecture',
-      });
+    let targetName: string | undefined;
+    if (isLectureItem(target)) {
+      targetName = target.name;
+    } else if (target.contextValue !== 'lectures-folder') {
+      return;
     }
 
-    if (isLecture) {
-      // Return lectures folder
-      return Promise.resolve(this.buildLecturesFolderItem());
+    const course = this.managers.getCourse(target.courseRoot);
+    if (!course) {
+      return;
     }
 
-    return undefined;
+    try {
+      const changed = await course.courseManager.moveLectures(dragged.names, targetName);
+      if (!changed) {
+        return;
+      }
+      this.refresh();
+      await this.onLecturesReordered?.(course);
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        `Failed to reorder lectures: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
   }
 
   /**
@@ -160,13 +233,26 @@ export class CourseExplorerDataProvider implements vscode.TreeDataProvider<Cours
   // Private Builder Methods - All return valid items
   // ============================================
 
+  /**
+   * Builds the items of a course: root actions and the Lectures folder
+   * @param course - Course manager set
+   * @param parent - Course root item (undefined when the course is shown at the top level)
+   * @returns Array of course child items
+   */
+  private buildCourseChildren(course: CourseManagers, parent?: CourseTreeItem): CourseTreeItem[] {
+    return [
+      ...this.buildRootActionItems(course, parent),
+      ...this.buildFolderItems(course, parent),
+    ];
+  }
+
   /**
    * Builds folder items (Lectures only, Actions folder removed)
    * @returns Array with Lectures folder item
    */
-  private async buildFolderItems(): Promise<CourseTreeItem[]> {
+  private buildFolderItems(course: CourseManagers, parent?: CourseTreeItem): CourseTreeItem[] {
     return [
-      this.buildLecturesFolderItem(),
+      this.buildLecturesFolderItem(course, parent),
     ];
   }
 
@@ -191,19 +277,29 @@ export class CourseExplorerDataProvider implements vscode.TreeDataProvider<Cours
   }
 
   /**
-   * Builds the root course item
+   * Builds the root item of a course (multi-root workspaces and monorepos)
+   * @param course - Course manager set
    * @returns Always returns valid CourseTreeItem
    */
-  private async buildRootItem(): Promise<CourseTreeItem> {
-    const courseName = await this.courseManager.readCourseName() ?? 'No Course';
+  private async buildRootItem(course: CourseManagers): Promise<CourseTreeItem> {
+    const courseName = await course.courseManager.readCourseName() ?? 'No Course';
+
+    // Folder name, or {workspace folder}/{path} for monorepo courses
+    const folder = vscode.workspace.getWorkspaceFolder(course.root);
+    const relative = folder ? path.relative(folder.uri.fsPath, course.root.fsPath) : '';
+    const location = folder && relative
+      ? [folder.name, ...relative.split(path.sep)].join('/')
+      : path.basename(course.root.fsPath);
 
     return {
-      id: 'course-root',
+      id: itemId(course, 'course-root'),
       label: courseName,
+      description: location !== courseName ? location : undefined,
       type: 'root',
       icon: new vscode.ThemeIcon('folder'),
       collapsible: vscode.TreeItemCollapsibleState.Expanded,
       contextValue: 'course-root',
+      courseRoot: course.root,
     };
   }
 
@@ -211,116 +307,91 @@ export class CourseExplorerDataProvider implements vscode.TreeDataProvider<Cours
    * Builds the Lectures folder item
    * @returns Always returns valid CourseTreeItem
    */
-  private buildLecturesFolderItem(): CourseTreeItem {
+  private buildLecturesFolderItem(course: CourseManagers, parent?: CourseTreeItem): CourseTreeItem {
     return {
-      id: 'lectures-folder',
+      id: itemId(course, 'lectures-folder'),
       label: 'Lectures',
       type: 'folder',
       icon: new vscode.ThemeIcon('files'),
       collapsible: vscode.TreeItemCollapsibleState.Collapsed,
       contextValue: 'lectures-folder',
+      courseRoot: course.root,
+      parent,
     };
   }
 
-
-
   /**
    * Builds lecture items from slides.json
    * @returns Array of lecture tree items
    */
-  private async buildLectureItems(): Promise<CourseTreeItem[]> {
-    const slidesConfig = await this.courseManager.readSlidesJson();
+  private async buildLectureItems(course: CourseManagers, parent: CourseTreeItem): Promise<CourseTreeItem[]> {
+    const slidesConfig = await course.courseManager.readSlidesJson();
     const lectures = slidesConfig?.slides ?? [];
 
-    return lectures.map((lecture): CourseTreeItem => {
+    return lectures.map((lecture): LectureTreeItem => {
       return {
-        id: `lecture-${lecture.name}`,
+        id: itemId(course, `lecture-${lecture.name}`),
+        name: lecture.name,
+        title: lecture.title,
         label: `${lecture.title} (${lecture.name})`,
         type: 'lecture',
         icon: new vscode.ThemeIcon('file'),
         collapsible: vscode.TreeItemCollapsibleState.Collapsed,
         contextValue: 'lecture',
+        courseRoot: course.root,
+        parent,
       };
     });
   }
 
   /**
-   * Builds command items for a lecture (View, Edit, Build, Delete)
-   * @param lectureName - Lecture folder name
-   * @returns Array with View, Edit, Build, and Delete action items
+   * Builds command items for a lecture (View, Edit, Build, Export, Delete).
+   * Commands get the lecture name and the course root as arguments.
+   * @param course - Course manager set
+   * @param lecture - Lecture item
+   * @returns Array with View, Edit, Build, Export, and Delete action items
    */
-  private buildLectureCommands(lectureName: string): CourseTreeItem[] {
-    // View command - only opens slides.md
-    const viewCommand: vscode.Command = {
-      command: 'sliman.openSlides',
-      title: 'View',
-      arguments: [lectureName],
-    };
-
-    // Edit command - opens slides.md AND runs dev server
-    const editCommand: vscode.Command = {
-      command: 'sliman.editLecture',
-      title: 'Edit',
-      arguments: [lectureName],
-    };
-
-    // Build command - builds lecture to static files
-    const buildCommand: vscode.Command = {
-      command: 'sliman.buildLecture',
-      title: 'Build',
-      arguments: [lectureName],
-    };
-
-    // Delete command - deletes lecture with confirmation
-    const deleteCommand: vscode.Command = {
-      command: 'sliman.deleteLecture',
-      title: 'Delete',
-      arguments: [lectureName],
-    };
+  private buildLectureCommands(course: CourseManagers, lecture: LectureTreeItem): CourseTreeItem[] {
+    const lectureName = lecture.name;
+    const actions: Array<{ id: string; label: string; icon: string; commandId: string }> = [
+      // View command - only opens slides.md
+      { id: 'view', label: 'View', icon: 'eye', commandId: 'sliman.openSlides' },
+      // Edit command - opens slides.md AND runs dev server
+      { id: 'edit', label: 'Edit', icon: 'edit', commandId: 'sliman.editLecture' },
+      // Build command - builds lecture to static files
+      { id: 'build', label: 'Build', icon: 'tools', commandId: 'sliman.buildLecture' },
+      // Export command - exports lecture to PDF/PNG/PPTX
+      { id: 'export', label: 'Export', icon: 'export', commandId: 'sliman.exportLecture' },
+      // Delete command - deletes lecture with confirmation
+      { id: 'delete', label: 'Delete', icon: 'trash', commandId: 'sliman.deleteLecture' },
+    ];
 
-    return [
-      {
-        id: `lecture-command-view-${lectureName}`,
-        label: 'View',
-        type: 'action',
-        icon: new vscode.ThemeIcon('eye'),
-        command: viewCommand,
-        contextValue: 'lecture-view-command',
-      },
-      {
-        id: `lecture-command-edit-${lectureName}`,
-        label: 'Edit',
-        type: 'action',
-        icon: new vscode.ThemeIcon('edit'),
-        command: editCommand,
-        contextValue: 'lecture-edit-command',
-      },
-      {
-        id: `lecture-command-build-${lectureName}`,
-        label: 'Build',
-        type: 'action',
-        icon: new vscode.ThemeIcon('tools'),
-        command: buildCommand,
-        contextValue: 'lecture-build-command',
-      },
-      {
-        id: `lecture-command-delete-${lectureName}`,
-        label: 'Delete',
-        type: 'action',
-        icon: new vscode.ThemeIcon('trash'),
-        command: deleteCommand,
-        contextValue: 'lecture-delete-command',
+    return actions.map((action): CourseTreeItem => ({
+      id: itemId(course, `lecture-command-${action.id}-${lectureName}`),
+      label: action.label,
+      type: 'action',
+      icon: new vscode.ThemeIcon(action.icon),
+      command: {
+        command: action.commandId,
+        title: action.label,
+        arguments: [lectureName, course.root],
       },
-    ];
+      contextValue: `lecture-${action.id}-command`,
+      courseRoot: course.root,
+      parent: lecture,
+    }));
   }
 
   /**
-   * Builds root action items (Add Lecture, View Course)
+   * Builds root action items (Add Lecture, Build Course, Export Course, View Course).
+   * Commands get the course root as argument.
    * @returns Array of root action tree items
    */
-  private buildRootActionItems(): CourseTreeItem[] {
+  private buildRootActionItems(course: CourseManagers, parent?: CourseTreeItem): CourseTreeItem[] {
     const actions: Array<{ id: string; label: string; icon: string; commandId: string }> = [
       { id: 'root-add-lecture', label: 'Add Lecture', icon: 'new-file', commandId: 'sliman.addLecture' },
+      { id: 'root-build-course', label: 'Build Course', icon: 'package', commandId: 'sliman.buildCourse' },
+      { id: 'root-export-course', label: 'Export Course', icon: 'export', commandId: 'sliman.exportCourse' },
       { id: 'root-view-course', label: 'View Course', icon: 'preview', commandId: 'sliman.viewCourse' },
     ];
 
@@ -328,20 +399,37 @@ export class CourseExplorerDataProvider implements vscode.TreeDataProvider<Cours
       const command: vscode.Command = {
         command: action.commandId,
         title: action.label,
+        arguments: [course.root],
       };
 
       return {
-        id: action.id,
+        id: itemId(course, action.id),
         label: action.label,
         type: 'action',
         icon: new vscode.ThemeIcon(action.icon),
         command,
         contextValue: 'root-action',
+        courseRoot: course.root,
+        parent,
       };
     });
   }
+}
 
-  /**
-   * Method removed - no longer needed since iconPath is set directly from CourseTreeItem.icon
-   */
-}
\ No newline at end of file
+/**
+ * Builds a tree item id that is unique across courses
+ * @param course - Course the item belongs to
+ * @param id - Item id within the course
+ */
+function itemId(course: CourseManagers, id: string): string {
+  return `${course.root.toString()}#${id}`;
+}
+
+/**
+ * Checks whether a tree item is a lecture (carries the lecture name)
+ * @param item - Tree item
+ * @returns True for lecture items built from slides.json
+ */
+export function isLectureItem(item: CourseTreeItem): item is LectureTreeItem {
+  return item.type === 'lecture' && typeof (item as Partial<LectureTreeItem>).name === 'string';
+}
@@ -6,11 +6,15 @@ import * as assert from 'assert';
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
 import { CourseManager } from '../../managers/CourseManager';
 import { LectureManager } from '../../managers/LectureManager';
 import { BuildManager } from '../../managers/BuildManager';
 import { createTestDir, cleanupTestDir, cleanupAllTestDirs } from '../utils/testWorkspace';
 import { createMinimalCourse, createCourseStructure, createCourseWithEmptySlides } from '../utils/courseStructure';
+import { BUILD_STATUS_DIR, SLIMAN_STATE_DIR } from '../../constants';
+import { isBuildError } from '../../types';
+import type { BuildStatus } from '../../types';
 
 suite('BuildManager Tests', () => {
   let tempDir: string;
@@ -190,6 +194,20 @@ suite('BuildManager Tests', () => {
       );
     });
 
+    test('isBuildError recognizes build errors only', async () => {
+      let error: unknown;
+      try {
+        await buildManager.buildLecture('nonexistent');
+      } catch (e) {
+        error = e;
+      }
+
+      assert.ok(isBuildError(error));
+      assert.strictEqual(isBuildError(new Error('plain')), false);
+      assert.strictEqual(isBuildError(Object.assign(new Error('other'), { type: 'unknown' })), false);
+      assert.strictEqual(isBuildError({ type: 'cancelled' }), false);
+    });
+
     test('buildLecture with deployRoot includes error type', async () => {
       let errorWithFalse: unknown;
       let errorWithTrue: unknown;
@@ -217,6 +235,111 @@ suite('BuildManager Tests', () => {
     });
   });
 
+  // Terminal Build Tests (fake terminals play the shell by writing the build status file)
+  suite('Terminal Build Tests', () => {
+    interface FakeTerminal {
+      name: string;
+      commands: string[];
+      disposed: boolean;
+    }
+
+    let terminals: FakeTerminal[];
+
+    // Status file name in a command of any shell
+    const statusFilePattern = /build-status[\\/]([^'"\s\\/]+\.json)/;
+    const statusFilesOf = (terminal: FakeTerminal): Set<string> =>
+      new Set(terminal.commands.flatMap((command) => statusFilePattern.exec(command)?.[1] ?? []));
+
+    /**
+     * Creates a BuildManager whose terminals hand the status file of each build to `onBuild`
+     * (called with the terminal index) instead of running the commands.
+     */
+    const createFakeBuildManager = (onBuild: (statusFilePath: string, index: number) => void): BuildManager => {
+      terminals = [];
+      return new BuildManager(courseManager, lectureManager, (options) => {
+        const index = terminals.length;
+        const fake: FakeTerminal = { name: options.name ?? '', commands: [], disposed: false };
+        terminals.push(fake);
+        return {
+          name: fake.name,
+          exitStatus: undefined,
+          sendText: (text: string) => {
+            fake.commands.push(text);
+            const match = statusFilePattern.exec(text);
+            if (match && fake.commands.filter((command) => command.includes(match[1])).length === 1) {
+              onBuild(path.join(tempDir, SLIMAN_STATE_DIR, BUILD_STATUS_DIR, match[1]), index);
+            }
+          },
+          show: () => {},
+          dispose: () => { fake.disposed = true; },
+        } as unknown as vscode.Terminal;
+      });
+    };
+
+    const writeStatus = (statusFilePath: string, status: BuildStatus): void => {
+      fsSync.writeFileSync(statusFilePath, JSON.stringify(status));
+    };
+
+    setup(async () => {
+      await createCourseStructure(tempDir, 'test-course', [
+        { name: 'intro', title: 'Intro' },
+        { name: 'basics', title: 'Basics' },
+        { name: 'advanced', title: 'Advanced' },
+      ]);
+      await fs.writeFile(
+        path.join(tempDir, 'sliman.json'),
+        JSON.stringify({ course_name: 'test-course', build: { timeoutSeconds: 0.3, pollIntervalMs: 20 } })
+      );
+    });
+
+    test('timed-out build disposes its terminal and removes half-copied output', async () => {
+      const layout = await courseManager.getOutputLayout(false);
+      assert.ok(layout);
+      const copyDestination = courseManager.getLectureOutput(layout, 'intro').dir.fsPath;
+
+      const manager = createFakeBuildManager((statusFilePath, index) => {
+        if (index === 0) {
+          // First build hangs while copying
+          writeStatus(statusFilePath, { status: 'running', step: 'copy' });
+          fsSync.mkdirSync(copyDestination, { recursive: true });
+          fsSync.writeFileSync(path.join(copyDestination, 'index.html'), 'partial');
+        } else {
+          writeStatus(statusFilePath, { status: 'done', exitCode: 0 });
+        }
+      });
+
+      await assert.rejects(manager.buildLecture('intro'), (error: Error & { type?: string }) => error.type === 'timeout');
+      assert.strictEqual(terminals.length, 1);
+      assert.strictEqual(terminals[0].disposed, true);
+      await assert.rejects(fs.access(copyDestination));
+
+      // The next build of the lecture does not queue behind the stuck one
+      await manager.buildLecture('intro');
+      assert.strictEqual(terminals.length, 2);
+      assert.strictEqual(terminals[1].disposed, false);
+    });
+
+    test('course build slot gets a fresh terminal after a timed-out lecture', async () => {
+      // intro and basics hang (one per slot), so advanced reuses the slot of a timed-out lecture
+      const manager = createFakeBuildManager((statusFilePath) => {
+        if (path.basename(statusFilePath).startsWith('advanced-')) {
+          writeStatus(statusFilePath, { status: 'done', exitCode: 0 });
+        }
+      });
+
+      const report = await manager.buildCourse({ force: true });
+      const outcomes = Object.fromEntries(report.results.map((result) => [result.lecture, result.outcome]));
+
+      assert.deepStrictEqual(outcomes, { intro: 'failed', basics: 'failed', advanced: 'succeeded' });
+      assert.strictEqual(terminals.length, 3);
+      // Every terminal ran exactly one build; the timed-out ones were disposed
+      for (const terminal of terminals) {
+        assert.strictEqual(statusFilesOf(terminal).size, 1, terminal.name);
+      }
+      assert.deepStrictEqual(terminals.map((terminal) => terminal.disposed), [true, true, false]);
+    });
+  });
+
   // Update Index.html Tests (new functionality)
   suite('Update Index.html Tests', () => {
     test('should update index.html with lecture list from slides.json', async () => {
@@ -256,6 +379,10 @@ suite('BuildManager Tests', () => {
       
       // Should not contain old content
       assert.ok(!updatedContent.includes('Old content'));
+
+      // The output directory gets a copy of slides.json for the built course
+      const emitted = JSON.parse(await fs.readFile(path.join(courseDir, 'slides.json'), 'utf-8'));
+      assert.strictEqual(emitted.slides.length, 2);
     });
 
     test('should handle empty lecture list', async () => {
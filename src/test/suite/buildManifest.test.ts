@@ -0,0 +1,92 @@
+/**
+ * Tests for lecture source hashing and the build manifest
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import {
+  BUILD_MANIFEST_VERSION,
+  hashLectureSources,
+  readBuildManifest,
+  writeBuildManifest,
+} from '../../utils/buildManifest';
+import { BUILD_MANIFEST_FILENAME } from '../../constants';
+import { createTestDir, cleanupTestDir } from '../utils/testWorkspace';
+
+suite('Build Manifest Tests', () => {
+  let tempDir: string;
+
+  setup(async () => {
+    tempDir = await createTestDir('build', 'manifest');
+    await fs.writeFile(path.join(tempDir, 'slides.md'), '# Lecture');
+    await fs.writeFile(path.join(tempDir, 'package.json'), '{}');
+    await fs.mkdir(path.join(tempDir, 'components'));
+    await fs.writeFile(path.join(tempDir, 'components', 'Courser.vue'), '<template />');
+  });
+
+  teardown(async () => {
+    await cleanupTestDir(tempDir);
+  });
+
+  // Hashing Tests
+  suite('Hashing Tests', () => {
+    test('hash is stable for unchanged sources', async () => {
+      assert.strictEqual(await hashLectureSources(tempDir), await hashLectureSources(tempDir));
+    });
+
+    test('hash changes when slides or components change', async () => {
+      const initial = await hashLectureSources(tempDir);
+
+      await fs.writeFile(path.join(tempDir, 'slides.md'), '# Lecture v2');
+      const afterSlides = await hashLectureSources(tempDir);
+      assert.notStrictEqual(afterSlides, initial);
+
+      await fs.writeFile(path.join(tempDir, 'components', 'Courser.vue'), '<template><div /></template>');
+      assert.notStrictEqual(await hashLectureSources(tempDir), afterSlides);
+    });
+
+    test('hash changes when a public asset is added', async () => {
+      const initial = await hashLectureSources(tempDir);
+      await fs.mkdir(path.join(tempDir, 'public'));
+      await fs.writeFile(path.join(tempDir, 'public', 'logo.svg'), '<svg />');
+      assert.notStrictEqual(await hashLectureSources(tempDir), initial);
+    });
+
+    test('node_modules, dist and dot-directories are ignored', async () => {
+      const initial = await hashLectureSources(tempDir);
+      for (const dir of ['node_modules', 'dist', '.slidev']) {
+        await fs.mkdir(path.join(tempDir, dir));
+        await fs.writeFile(path.join(tempDir, dir, 'file.js'), 'content');
+      }
+      assert.strictEqual(await hashLectureSources(tempDir), initial);
+    });
+  });
+
+  // Manifest Tests
+  suite('Manifest Tests', () => {
+    test('missing manifest reads as empty', async () => {
+      const manifest = await readBuildManifest(path.join(tempDir, 'out'));
+      assert.deepStrictEqual(manifest, { version: BUILD_MANIFEST_VERSION, lectures: {} });
+    });
+
+    test('written manifest is read back', async () => {
+      const outputDir = path.join(tempDir, 'out');
+      const manifest = {
+        version: BUILD_MANIFEST_VERSION,
+        lectures: { 'lecture-1': { hash: 'abc', basePath: '/course/lecture-1/', builtAt: '2026-01-01T00:00:00.000Z' } },
+      };
+
+      await writeBuildManifest(outputDir, manifest);
+      assert.deepStrictEqual(await readBuildManifest(outputDir), manifest);
+    });
+
+    test('manifest of another version reads as empty', async () => {
+      await fs.writeFile(
+        path.join(tempDir, BUILD_MANIFEST_FILENAME),
+        JSON.stringify({ version: BUILD_MANIFEST_VERSION + 1, lectures: { a: {} } })
+      );
+      assert.deepStrictEqual((await readBuildManifest(tempDir)).lectures, {});
+    });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Tests for course build report formatting
+ */
+
+import * as assert from 'assert';
+import { countBuildOutcomes, formatBuildReportTable, summarizeBuildReport } from '../../utils/buildReport';
+import type { CourseBuildReport } from '../../types';
+
+suite('Build Report Tests', () => {
+  const report: CourseBuildReport = {
+    results: [
+      { lecture: 'lecture-1', outcome: 'succeeded', durationMs: 12345, logFile: '/course/.sliman/logs/lecture-1.log' },
+      { lecture: 'lecture-2', outcome: 'failed', durationMs: 2000, message: 'exit code 1', logFile: '/course/.sliman/logs/lecture-2.log' },
+      { lecture: 'lecture-3', outcome: 'skipped', durationMs: 0, message: 'unchanged' },
+    ],
+    stoppedEarly: false,
+    cancelled: false,
+  };
+
+  test('counts outcomes', () => {
+    assert.deepStrictEqual(countBuildOutcomes(report), { succeeded: 1, failed: 1, skipped: 1 });
+  });
+
+  test('table has a row per lecture with aligned columns', () => {
+    const lines = formatBuildReportTable(report);
+
+    assert.strictEqual(lines.length, 2 + report.results.length + 1);
+    assert.ok(lines[2].startsWith('lecture-1 | ✓ built '));
+    assert.ok(lines[2].includes('12.3s'));
+    assert.ok(lines[3].includes('exit code 1 — /course/.sliman/logs/lecture-2.log'));
+    assert.ok(lines[4].includes('= skipped') && lines[4].includes(' - '));
+    assert.strictEqual(lines[2].indexOf('|'), lines[0].indexOf('|'));
+    assert.strictEqual(lines[lines.length - 1], 'Succeeded: 1, failed: 1, skipped: 1');
+  });
+
+  test('table notes a fail-fast stop', () => {
+    const lines = formatBuildReportTable({ ...report, stoppedEarly: true });
+    assert.ok(lines[lines.length - 1].includes('failFast'));
+  });
+
+  test('summary lists failed lectures', () => {
+    assert.strictEqual(
+      summarizeBuildReport(report),
+      'Course build: 1 built, 1 failed, 1 skipped. Failed: lecture-2'
+    );
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for build completion detection through status files
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { BuildCompletionWatcher } from '../../utils/completionWatcher';
+import type { BuildStatus } from '../../types';
+import { createTestDir, cleanupTestDir } from '../utils/testWorkspace';
+
+suite('Completion Watcher Tests', () => {
+  let tempDir: string;
+  let statusFilePath: string;
+
+  const writeStatus = (status: BuildStatus): Promise<void> =>
+    fs.writeFile(statusFilePath, JSON.stringify(status));
+
+  setup(async () => {
+    tempDir = await createTestDir('build', 'completion-watcher');
+    statusFilePath = path.join(tempDir, 'build.json');
+  });
+
+  teardown(async () => {
+    await cleanupTestDir(tempDir);
+  });
+
+  for (const mode of ['watch', 'poll'] as const) {
+    test(`detects a done status (${mode})`, async () => {
+      const watcher = new BuildCompletionWatcher({ statusFilePath, timeoutMs: 5000, pollIntervalMs: 20, mode });
+      const outcome = watcher.wait();
+
+      setTimeout(() => void writeStatus({ status: 'done', exitCode: 0 }), 50);
+      assert.deepStrictEqual(await outcome, { kind: 'finished', status: { status: 'done', exitCode: 0 } });
+    });
+  }
+
+  test('reports running steps before the final status', async () => {
+    const steps: string[] = [];
+    const watcher = new BuildCompletionWatcher({
+      statusFilePath,
+      timeoutMs: 5000,
+      pollIntervalMs: 20,
+      mode: 'poll',
+      onStatus: (status) => steps.push(status.step ?? ''),
+    });
+    const outcome = watcher.wait();
+
+    await writeStatus({ status: 'running', step: 'build' });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await writeStatus({ status: 'failed', exitCode: 2 });
+
+    const result = await outcome;
+    assert.deepStrictEqual(steps, ['build']);
+    assert.strictEqual(result.kind === 'finished' && result.status.exitCode, 2);
+  });
+
+  test('detects a status file written before waiting', async () => {
+    await writeStatus({ status: 'done', exitCode: 0 });
+    const outcome = await new BuildCompletionWatcher({ statusFilePath, timeoutMs: 5000, pollIntervalMs: 20 }).wait();
+    assert.strictEqual(outcome.kind, 'finished');
+  });
+
+  test('times out without a final status', async () => {
+    const outcome = await new BuildCompletionWatcher({ statusFilePath, timeoutMs: 50, pollIntervalMs: 20 }).wait();
+    assert.deepStrictEqual(outcome, { kind: 'timeout', lastStatus: null });
+  });
+
+  test('timeout reports the last running status', async () => {
+    await writeStatus({ status: 'running', step: 'copy' });
+    const outcome = await new BuildCompletionWatcher({ statusFilePath, timeoutMs: 50, pollIntervalMs: 20 }).wait();
+    assert.deepStrictEqual(outcome, { kind: 'timeout', lastStatus: { status: 'running', step: 'copy' } });
+  });
+
+  test('abort reports the last running status', async () => {
+    const controller = new AbortController();
+    const watcher = new BuildCompletionWatcher({
+      statusFilePath,
+      timeoutMs: 5000,
+      pollIntervalMs: 20,
+      signal: controller.signal,
+    });
+    const outcome = watcher.wait();
+
+    await writeStatus({ status: 'running', step: 'copy' });
+    controller.abort();
+
+    assert.deepStrictEqual(await outcome, { kind: 'aborted', lastStatus: { status: 'running', step: 'copy' } });
+  });
+});
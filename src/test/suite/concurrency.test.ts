@@ -0,0 +1,69 @@
+/**
+ * Tests for bounded-concurrency helpers used by course builds
+ */
+
+import * as assert from 'assert';
+import { runWithConcurrency } from '../../utils/concurrency';
+
+suite('Concurrency Tests', () => {
+  const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+  test('never runs more items than the limit at the same time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(5);
+      running--;
+    });
+
+    assert.strictEqual(maxRunning, 2);
+  });
+
+  test('returns settled results in item order', async () => {
+    const results = await runWithConcurrency([30, 10, 20], 3, async (ms) => {
+      await delay(ms);
+      return ms;
+    });
+
+    assert.deepStrictEqual(
+      results.map((result) => (result.status === 'fulfilled' ? result.value : null)),
+      [30, 10, 20]
+    );
+  });
+
+  test('keeps processing remaining items after a rejection', async () => {
+    const processed: string[] = [];
+
+    const results = await runWithConcurrency(['a', 'b', 'c'], 1, async (item) => {
+      processed.push(item);
+      if (item === 'a') {
+        throw new Error('failed');
+      }
+    });
+
+    assert.deepStrictEqual(processed, ['a', 'b', 'c']);
+    assert.deepStrictEqual(results.map((result) => result.status), ['rejected', 'fulfilled', 'fulfilled']);
+  });
+
+  test('uses stable slot indexes below the limit', async () => {
+    const slots = new Set<number>();
+
+    await runWithConcurrency([1, 2, 3, 4], 3, async (_item, slot) => {
+      slots.add(slot);
+      await delay(1);
+    });
+
+    assert.ok([...slots].every((slot) => slot >= 0 && slot < 3));
+  });
+
+  test('treats invalid limits as 1', async () => {
+    const slots = new Set<number>();
+    await runWithConcurrency([1, 2], 0, async (_item, slot) => {
+      slots.add(slot);
+    });
+    assert.deepStrictEqual([...slots], [0]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for sliman.json / slides.json validation and the JSON locator
+ */
+
+import * as assert from 'assert';
+import { parseJsonWithLocations, findProperty } from '../../utils/jsonLocator';
+import { validateSlidesJson, validateSlimanJson } from '../../utils/configValidation';
+import type { ConfigFix } from '../../utils/configValidation';
+
+/** Applies a fix to the text (edits are applied from the end) */
+function applyFix(text: string, fix: ConfigFix): string {
+  return [...fix.edits]
+    .sort((a, b) => b.offset - a.offset)
+    .reduce((result, edit) => result.slice(0, edit.offset) + edit.newText + result.slice(edit.offset + edit.length), text);
+}
+
+suite('Config Validation Tests', () => {
+  test('locator keeps offsets of keys and values', () => {
+    const text = '{\n  "course_name": "web",\n  "deployRoot": false\n}';
+    const parsed = parseJsonWithLocations(text);
+    assert.ok(parsed.root);
+
+    const property = findProperty(parsed.root, 'course_name');
+    assert.strictEqual(text.substr(property?.keyOffset ?? -1, property?.keyLength), '"course_name"');
+    assert.strictEqual(text.substr(property?.value.offset ?? -1, property?.value.length), '"web"');
+  });
+
+  test('locator reports the offset of syntax errors', () => {
+    const parsed = parseJsonWithLocations('{ "a": 1, }');
+
+    assert.strictEqual(parsed.error?.message, 'Property name expected');
+    assert.strictEqual(parsed.error?.offset, 10);
+  });
+
+  test('valid configs have no issues', () => {
+    assert.deepStrictEqual(validateSlimanJson('{ "course_name": "web", "deployRoot": true }', 'web'), []);
+    assert.deepStrictEqual(validateSlidesJson('{ "slides": [{ "name": "intro", "title": "Intro" }] }', ['intro']), []);
+  });
+
+  test('missing course_name is fixed by inserting it', () => {
+    const text = '{\n  "deployRoot": false\n}';
+    const [issue] = validateSlimanJson(text, 'my-course');
+
+    assert.strictEqual(issue.code, 'missing-course-name');
+    assert.strictEqual(applyFix(text, issue.fixes[0]), '{\n  "course_name": "my-course",\n  "deployRoot": false\n}');
+  });
+
+  test('non-boolean deployRoot is underlined and fixed', () => {
+    const text = '{ "course_name": "web", "deployRoot": "true" }';
+    const [issue] = validateSlimanJson(text, 'web');
+
+    assert.strictEqual(issue.code, 'invalid-deploy-root');
+    assert.strictEqual(text.substr(issue.offset, issue.length), '"true"');
+    assert.strictEqual(applyFix(text, issue.fixes[0]), '{ "course_name": "web", "deployRoot": true }');
+  });
+
+  test('outputDir outside the course root is an error', () => {
+    assert.deepStrictEqual(validateSlimanJson('{ "course_name": "web", "outputDir": "site/web" }', 'web'), []);
+
+    const text = '{ "course_name": "web", "outputDir": "../site" }';
+    const [issue] = validateSlimanJson(text, 'web');
+    assert.strictEqual(issue.code, 'invalid-output-dir');
+    assert.strictEqual(text.substr(issue.offset, issue.length), '"../site"');
+  });
+
+  test('basePath without slashes is fixed by adding them', () => {
+    assert.deepStrictEqual(validateSlimanJson('{ "course_name": "web", "basePath": "/~staff/web/" }', 'web'), []);
+
+    const text = '{ "course_name": "web", "basePath": "~staff/web" }';
+    const [issue] = validateSlimanJson(text, 'web');
+    assert.strictEqual(issue.code, 'invalid-base-path');
+    assert.strictEqual(applyFix(text, issue.fixes[0]), '{ "course_name": "web", "basePath": "/~staff/web/" }');
+  });
+
+  test('flags duplicates, invalid names and missing folders', () => {
+    const text = '{ "slides": [{ "name": "intro" }, { "name": "intro" }, { "name": "Введение" }, { "name": "gone" }] }';
+    const issues = validateSlidesJson(text, ['intro']);
+
+    assert.deepStrictEqual(issues.map((issue) => issue.code), ['duplicate-lecture', 'invalid-lecture-name', 'missing-lecture-folder']);
+    assert.strictEqual(issues[2].severity, 'warning');
+    assert.strictEqual(text.substr(issues[2].offset, issues[2].length), '"gone"');
+  });
+
+  test('flags a lecture named like the exports folder', () => {
+    const text = '{ "slides": [{ "name": "intro" }, { "name": "exports" }] }';
+    const issues = validateSlidesJson(text, ['intro', 'exports'], 'exports');
+
+    assert.deepStrictEqual(issues.map((issue) => issue.code), ['reserved-lecture-name']);
+    assert.strictEqual(text.substr(issues[0].offset, issues[0].length), '"exports"');
+  });
+
+  test('removing an entry keeps the array valid', () => {
+    const text = '{ "slides": [{ "name": "intro" }, { "name": "gone" }] }';
+    const [issue] = validateSlidesJson(text, ['intro']);
+    const fixed = applyFix(text, issue.fixes[0]);
+
+    assert.deepStrictEqual(JSON.parse(fixed), { slides: [{ name: 'intro' }] });
+  });
+});
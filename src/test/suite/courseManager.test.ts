@@ -9,7 +9,7 @@ import * as fs from 'fs/promises';
 import { CourseManager } from '../../managers/CourseManager';
 import { createTestDir, cleanupTestDir, cleanupAllTestDirs } from '../utils/testWorkspace';
 import { createCourseStructure, createMinimalCourse, createCourseWithEmptySlides } from '../utils/courseStructure';
-import { SLIMAN_FILENAME, SLIDES_DIR, BUILT_DIR } from '../../constants';
+import { SLIMAN_FILENAME, SLIDES_DIR, BUILT_DIR, SLIMAN_SCHEMA_VERSION } from '../../constants';
 
 suite('CourseManager Tests', () => {
   let tempDir: string;
@@ -158,6 +158,22 @@ suite('CourseManager Tests', () => {
       assert.strictEqual(result?.slides[0].title, 'New Lecture');
     });
 
+    test('moveLectures persists the new order and drives getLectureDirectories', async () => {
+      const lectures = [
+        { name: 'lecture-1', title: 'Lecture 1' },
+        { name: 'lecture-2', title: 'Lecture 2' },
+        { name: 'lecture-3', title: 'Lecture 3' }
+      ];
+      await createCourseStructure(tempDir, 'test-course', lectures);
+
+      const changed = await courseManager.moveLectures(['lecture-3'], 'lecture-1');
+
+      assert.strictEqual(changed, true);
+      const result = await courseManager.readSlidesJson();
+      assert.deepStrictEqual(result?.slides.map((l) => l.name), ['lecture-3', 'lecture-1', 'lecture-2']);
+      assert.deepStrictEqual(await courseManager.getLectureDirectories(), ['lecture-3', 'lecture-1', 'lecture-2']);
+    });
+
     test('readCourseData combines all data', async () => {
       const lectures = [
         { name: 'lecture-1', title: 'Lecture 1' }
@@ -192,7 +208,7 @@ suite('CourseManager Tests', () => {
       assert.strictEqual(result, null);
     });
 
-    test('readSlidesJson reads from built/ when deployRoot is true', async () => {
+    test('readSlidesJson reads slides.json from the course root when deployRoot is true', async () => {
       const lectures = [
         { name: 'lecture-1', title: 'Introduction' },
         { name: 'lecture-2', title: 'Advanced Topics' }
@@ -207,6 +223,67 @@ suite('CourseManager Tests', () => {
       assert.strictEqual(result?.slides[1].title, 'Advanced Topics');
     });
 
+    test('getOutputLayout resolves output directory, slides.json and base path', async () => {
+      await createCourseStructure(tempDir, 'web', [], { deployRoot: true });
+
+      const layout = await courseManager.getOutputLayout();
+      assert.ok(layout);
+      assert.strictEqual(layout.outputDirName, BUILT_DIR);
+      assert.strictEqual(layout.slidesJson.fsPath, path.join(tempDir, BUILT_DIR, 'slides.json'));
+      assert.strictEqual(layout.basePath, '/');
+      assert.strictEqual(courseManager.getLectureOutput(layout, 'intro').basePath, '/intro/');
+
+      const subdir = await courseManager.getOutputLayout(false);
+      assert.strictEqual(subdir?.outputDir.fsPath, path.join(tempDir, 'web'));
+      assert.strictEqual(subdir?.basePath, '/web/');
+    });
+
+    test('readSlidesJson falls back to the output copy of a course that was not migrated', async () => {
+      await fs.writeFile(path.join(tempDir, SLIMAN_FILENAME), JSON.stringify({ course_name: 'web', outputDir: 'site/web' }));
+      await fs.mkdir(path.join(tempDir, 'site', 'web'), { recursive: true });
+      await fs.writeFile(path.join(tempDir, 'site', 'web', 'slides.json'), JSON.stringify({ slides: [{ name: 'intro', title: 'Intro' }] }));
+
+      const result = await courseManager.readSlidesJson();
+      assert.strictEqual(result?.slides[0].name, 'intro');
+    });
+
+    test('migrateSlidesJson copies the output slides.json to the course root once', async () => {
+      await createMinimalCourse(tempDir, 'web');
+      await fs.mkdir(path.join(tempDir, 'web'));
+      await fs.writeFile(path.join(tempDir, 'web', 'slides.json'), JSON.stringify({ slides: [{ name: 'intro', title: 'Intro' }] }));
+
+      assert.strictEqual(await courseManager.migrateSlidesJson(), true);
+      assert.strictEqual(courseManager.getSlidesJsonUri().fsPath, path.join(tempDir, 'slides.json'));
+      const migrated = JSON.parse(await fs.readFile(path.join(tempDir, 'slides.json'), 'utf-8'));
+      assert.strictEqual(migrated.slides[0].name, 'intro');
+      // The output copy stays for the built course
+      await fs.access(path.join(tempDir, 'web', 'slides.json'));
+
+      await courseManager.writeSlidesJson({ slides: [] });
+      assert.strictEqual(await courseManager.migrateSlidesJson(), false);
+      assert.strictEqual((await courseManager.readSlidesJson())?.slides.length, 0);
+    });
+
+    test('writeSlidesJson references the course copy of the slides.json schema', async () => {
+      await createMinimalCourse(tempDir, 'web');
+      const schemaFile = path.join(__dirname, '..', '..', '..', 'schemas', 'slides.schema.json');
+
+      assert.strictEqual(await courseManager.installSlidesSchema(schemaFile), true);
+      assert.strictEqual(await courseManager.installSlidesSchema(schemaFile), false);
+
+      await courseManager.writeSlidesJson({ slides: [{ name: 'intro', title: 'Intro' }] });
+      const written = JSON.parse(await fs.readFile(path.join(tempDir, 'slides.json'), 'utf-8'));
+      assert.deepStrictEqual(Object.keys(written), ['$schema', 'slides']);
+      // "$schema" is relative to slides.json and points to the installed copy
+      const copy = await fs.readFile(path.resolve(tempDir, written.$schema), 'utf-8');
+      assert.strictEqual(copy, await fs.readFile(schemaFile, 'utf-8'));
+
+      // A schema set by the user is kept
+      await courseManager.writeSlidesJson({ $schema: 'https://example.com/slides.json', slides: [] });
+      const custom = JSON.parse(await fs.readFile(path.join(tempDir, 'slides.json'), 'utf-8'));
+      assert.strictEqual(custom.$schema, 'https://example.com/slides.json');
+    });
+
     test('writeSlimanConfig handles invalid JSON gracefully', async () => {
       const slimanPath = path.join(tempDir, SLIMAN_FILENAME);
       await fs.writeFile(slimanPath, 'invalid json');
@@ -277,22 +354,54 @@ suite('CourseManager Tests', () => {
       assert.strictEqual(result, true);
     });
 
-    test('readSlimanConfig migrates missing deployRoot to false', async () => {
+    test('readSlimanConfig defaults missing deployRoot without rewriting the file', async () => {
       await createMinimalCourse(tempDir, 'Test Course');
 
       // Overwrite sliman.json without deployRoot
       const slimanPath = path.join(tempDir, SLIMAN_FILENAME);
-      await fs.writeFile(slimanPath, JSON.stringify({ course_name: 'Test Course' }, null, 2));
+      const original = JSON.stringify({ course_name: 'Test Course' }, null, 2);
+      await fs.writeFile(slimanPath, original);
 
-      // Read the config — should trigger migration
       const result = await courseManager.readSlimanConfig();
       assert.notStrictEqual(result, null);
       assert.strictEqual(result?.course_name, 'Test Course');
       assert.strictEqual(result?.deployRoot, false);
 
-      // Verify the file was updated on disk
-      const updatedContent = JSON.parse(await fs.readFile(slimanPath, 'utf-8'));
-      assert.strictEqual(updatedContent.deployRoot, false);
+      // Reading must not modify the file
+      assert.strictEqual(await fs.readFile(slimanPath, 'utf-8'), original);
+      assert.strictEqual(await courseManager.needsSlimanMigration(), true);
+    });
+
+    test('migrateSlimanConfig upgrades the file and keeps a backup', async () => {
+      await createMinimalCourse(tempDir, 'Test Course');
+
+      const slimanPath = path.join(tempDir, SLIMAN_FILENAME);
+      const original = JSON.stringify({ course_name: 'Test Course', custom: { keep: true } }, null, 2);
+      await fs.writeFile(slimanPath, original);
+
+      const result = await courseManager.migrateSlimanConfig();
+      assert.strictEqual(result?.fromVersion, 0);
+      assert.strictEqual(result?.toVersion, SLIMAN_SCHEMA_VERSION);
+      assert.strictEqual(await fs.readFile(result?.backupPath ?? '', 'utf-8'), original);
+
+      const migrated = JSON.parse(await fs.readFile(slimanPath, 'utf-8'));
+      assert.strictEqual(migrated.schemaVersion, SLIMAN_SCHEMA_VERSION);
+      assert.strictEqual(migrated.deployRoot, false);
+      assert.deepStrictEqual(migrated.custom, { keep: true });
+
+      // Already current: nothing to do
+      assert.strictEqual(await courseManager.migrateSlimanConfig(), null);
+      assert.strictEqual(await courseManager.needsSlimanMigration(), false);
+    });
+
+    test('writeSlimanConfig and writeCourseName keep unknown fields', async () => {
+      const slimanPath = path.join(tempDir, SLIMAN_FILENAME);
+      await fs.writeFile(slimanPath, JSON.stringify({ schemaVersion: 1, course_name: 'Old', deployRoot: true, future: 42 }, null, 2));
+
+      await courseManager.writeCourseName('New');
+
+      const content = JSON.parse(await fs.readFile(slimanPath, 'utf-8'));
+      assert.deepStrictEqual(content, { schemaVersion: 1, course_name: 'New', deployRoot: true, future: 42 });
     });
 
     test('readSlimanConfig preserves existing deployRoot value', async () => {
@@ -324,5 +433,62 @@ suite('CourseManager Tests', () => {
       const result2 = await courseManager.readSlimanConfig();
       assert.strictEqual(result2?.deployRoot, true);
     });
+
+    test('changeDeployMode moves the output and updates workflow and .gitignore', async () => {
+      const templateDir = path.join(__dirname, '..', '..', '..', 'template');
+      await createCourseStructure(tempDir, 'web', [{ name: 'intro', title: 'Intro' }]);
+      await fs.mkdir(path.join(tempDir, '.github', 'workflows'), { recursive: true });
+      await fs.writeFile(path.join(tempDir, '.github', 'workflows', 'static.yml'), 'name: Deploy\n');
+      await fs.writeFile(path.join(tempDir, '.gitignore'), 'node_modules/\nweb/\n');
+
+      const result = await courseManager.changeDeployMode(true, templateDir);
+      assert.strictEqual(result.to.outputDirName, BUILT_DIR);
+      assert.strictEqual((await courseManager.readSlidesJson())?.slides[0].name, 'intro');
+      assert.strictEqual(await courseManager.readDeployRoot(), true);
+      await assert.rejects(fs.access(path.join(tempDir, 'web')));
+      await assert.rejects(fs.access(path.join(tempDir, '.github', 'workflows', 'static.yml')));
+      assert.strictEqual(await fs.readFile(path.join(tempDir, '.gitignore'), 'utf-8'), 'node_modules/\n');
+
+      // And back: the workflow comes from the template
+      await courseManager.changeDeployMode(false, templateDir);
+      assert.strictEqual((await courseManager.readSlidesJson())?.slides[0].name, 'intro');
+      await fs.access(path.join(tempDir, '.github', 'workflows', 'static.yml'));
+      assert.ok((await fs.readFile(path.join(tempDir, '.gitignore'), 'utf-8')).includes('\nweb/\n'));
+    });
+
+    test('changeDeployMode keeps everything when the new output directory is taken', async () => {
+      const templateDir = path.join(__dirname, '..', '..', '..', 'template');
+      await createCourseStructure(tempDir, 'web', []);
+      await fs.mkdir(path.join(tempDir, BUILT_DIR));
+      await fs.writeFile(path.join(tempDir, BUILT_DIR, 'old.html'), '');
+
+      await assert.rejects(courseManager.changeDeployMode(true, templateDir), /not empty/);
+      assert.strictEqual(await courseManager.readDeployRoot(), false);
+      await fs.access(path.join(tempDir, 'web'));
+    });
+  });
+
+  // Build Config Tests
+  suite('Build Config Tests', () => {
+    test('readBuildConfig returns empty overrides when build is not set', async () => {
+      await createMinimalCourse(tempDir, 'Test Course');
+
+      const result = await courseManager.readBuildConfig();
+      assert.deepStrictEqual(result, {});
+    });
+
+    test('readBuildConfig returns valid overrides and drops invalid values', async () => {
+      await createMinimalCourse(tempDir, 'Test Course');
+
+      const slimanPath = path.join(tempDir, SLIMAN_FILENAME);
+      await fs.writeFile(slimanPath, JSON.stringify({
+        course_name: 'Test Course',
+        deployRoot: false,
+        build: { timeoutSeconds: 1200, pollIntervalMs: -5 },
+      }, null, 2));
+
+      const result = await courseManager.readBuildConfig();
+      assert.deepStrictEqual(result, { timeoutSeconds: 1200 });
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,82 @@
+/**
+ * Tests for DoctorManager (course consistency checks)
+ */
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { CourseManager } from '../../managers/CourseManager';
+import { LectureManager } from '../../managers/LectureManager';
+import { DoctorManager } from '../../managers/DoctorManager';
+import { createTestDir, cleanupTestDir, cleanupAllTestDirs } from '../utils/testWorkspace';
+import { createCourseStructure } from '../utils/courseStructure';
+
+suite('DoctorManager Tests', () => {
+  let tempDir: string;
+  let courseManager: CourseManager;
+  let doctorManager: DoctorManager;
+
+  suiteSetup(async () => {
+    await cleanupAllTestDirs();
+  });
+
+  suiteTeardown(async () => {
+    await cleanupAllTestDirs();
+  });
+
+  setup(async () => {
+    tempDir = await createTestDir('manager', 'doctor-manager');
+    courseManager = new CourseManager(vscode.Uri.file(tempDir));
+    const lectureManager = new LectureManager(courseManager, path.join(__dirname, '..', '..', '..'));
+    doctorManager = new DoctorManager(courseManager, lectureManager);
+    LectureManager.setTestEnvironment(true);
+  });
+
+  teardown(async () => {
+    await cleanupTestDir(tempDir);
+  });
+
+  test('diagnose finds slides.json drift, orphaned builds and incomplete lectures', async () => {
+    await createCourseStructure(tempDir, 'test-course', [{ name: 'lecture-1', title: 'Lecture 1' }]);
+    await courseManager.writeSlidesJson({ slides: [{ name: 'gone', title: 'Gone' }] });
+    await fs.mkdir(path.join(tempDir, 'test-course', 'old-build'), { recursive: true });
+    await fs.writeFile(path.join(tempDir, 'test-course', 'old-build', 'index.html'), '<html></html>');
+
+    const problems = await doctorManager.diagnose();
+    const found = problems.map((problem) => `${problem.kind}:${problem.lecture}`);
+
+    assert.ok(found.includes('orphaned-entry:gone'));
+    assert.ok(found.includes('missing-entry:lecture-1'));
+    assert.ok(found.includes('orphaned-build:old-build'));
+    assert.ok(found.includes('missing-global-top:lecture-1'));
+    assert.ok(found.includes('missing-courser:lecture-1'));
+  });
+
+  test('fix resolves slides.json problems', async () => {
+    await createCourseStructure(tempDir, 'test-course', [{ name: 'lecture-1', title: 'Lecture 1' }]);
+    await courseManager.writeSlidesJson({ slides: [{ name: 'gone', title: 'Gone' }] });
+
+    for (const problem of await doctorManager.diagnose()) {
+      if (problem.kind === 'orphaned-entry' || problem.kind === 'missing-entry') {
+        await doctorManager.fix(problem);
+      }
+    }
+
+    const slidesConfig = await courseManager.readSlidesJson();
+    assert.deepStrictEqual(slidesConfig?.slides, [{ name: 'lecture-1', title: 'Lecture 1' }]);
+  });
+
+  test('lecture named like the exports folder is renamed', async () => {
+    await createCourseStructure(tempDir, 'test-course', [{ name: 'exports', title: 'Exports' }]);
+    await fs.writeFile(path.join(tempDir, 'slides', 'exports', 'package.json'), JSON.stringify({ name: 'exports' }));
+
+    const problem = (await doctorManager.diagnose()).find((item) => item.kind === 'reserved-lecture-name');
+    assert.ok(problem);
+    assert.strictEqual(problem.fixLabel, 'Rename the lecture to "exports-2"');
+
+    await doctorManager.fix(problem);
+    assert.deepStrictEqual(await courseManager.getLectureDirectories(), ['exports-2']);
+    assert.deepStrictEqual((await courseManager.readSlidesJson())?.slides, [{ name: 'exports-2', title: 'Exports' }]);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Tests for slidev export helpers
+ */
+
+import * as assert from 'assert';
+import { buildExportCommand, getExportFileName, getReservedLectureName, isValidSlideRange } from '../../utils/exports';
+
+suite('Export Helpers Tests', () => {
+  test('builds a plain export command', () => {
+    assert.strictEqual(
+      buildExportCommand({ format: 'pdf' }, '/course/built/exports/lecture-1.pdf'),
+      'npx slidev export --format pdf --output "/course/built/exports/lecture-1.pdf"'
+    );
+  });
+
+  test('adds dark, click steps and range flags', () => {
+    const command = buildExportCommand({ format: 'png', dark: true, withClicks: true, range: '1, 3-5' }, '/out/l-png');
+
+    assert.ok(command.endsWith('--dark --with-clicks --range 1,3-5'));
+  });
+
+  test('validates slide ranges', () => {
+    assert.ok(isValidSlideRange('1'));
+    assert.ok(isValidSlideRange('1,3-5, 8'));
+    assert.ok(!isValidSlideRange(''));
+    assert.ok(!isValidSlideRange('1-'));
+    assert.ok(!isValidSlideRange('a,2'));
+  });
+
+  test('names export outputs per format', () => {
+    assert.strictEqual(getExportFileName('intro', 'pdf'), 'intro.pdf');
+    assert.strictEqual(getExportFileName('intro', 'pptx'), 'intro.pptx');
+    assert.strictEqual(getExportFileName('intro', 'png'), 'intro-png');
+  });
+
+  test('reserves the first segment of the exports folder as a lecture name', () => {
+    assert.strictEqual(getReservedLectureName('exports'), 'exports');
+    assert.strictEqual(getReservedLectureName('files/exports'), 'files');
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Tests for slides.md frontmatter helpers
+ */
+
+import * as assert from 'assert';
+import { readFrontmatterField, updateFrontmatterFields } from '../../utils/frontmatter';
+
+suite('Frontmatter Tests', () => {
+  const slides = '﻿---\ntitle: Old Title\nname: old-name\ncanvasWidth: 800\n---\n\n# Old Title\n';
+
+  test('reads fields, unquoting quoted values', () => {
+    assert.strictEqual(readFrontmatterField(slides, 'title'), 'Old Title');
+    assert.strictEqual(readFrontmatterField('---\ntitle: "A: B"\n---\n', 'title'), 'A: B');
+    assert.strictEqual(readFrontmatterField(slides, 'theme'), null);
+  });
+
+  test('replaces fields in place and keeps the rest of the file', () => {
+    const updated = updateFrontmatterFields(slides, { title: 'New Title', name: 'new-name' });
+
+    assert.strictEqual(updated, '﻿---\ntitle: New Title\nname: new-name\ncanvasWidth: 800\n---\n\n# Old Title\n');
+  });
+
+  test('appends missing fields, quotes YAML-sensitive values and keeps CRLF', () => {
+    const updated = updateFrontmatterFields('---\r\ntitle: Old\r\n---\r\nbody', { title: 'Intro: Part 1', name: 'intro' });
+
+    assert.strictEqual(updated, '---\r\ntitle: "Intro: Part 1"\r\nname: intro\r\n---\r\nbody');
+  });
+
+  test('throws without frontmatter', () => {
+    assert.throws(() => updateFrontmatterFields('# No frontmatter', { title: 'x' }));
+  });
+});
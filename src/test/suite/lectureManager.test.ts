@@ -164,6 +164,42 @@ suite('LectureManager Tests', () => {
         /already exists/
       );
     });
+
+    test('renameLecture moves the folder and updates slides.md, package.json and slides.json', async () => {
+      await createCourseStructureForTests();
+      await lectureManager.createLecture('old-lecture', 'Old Title');
+
+      await lectureManager.renameLecture('old-lecture', 'new-lecture', 'New Title');
+
+      assert.strictEqual(await lectureManager.lectureExists('old-lecture'), false);
+      assert.strictEqual(await lectureManager.readTitleFromSlides('new-lecture'), 'New Title');
+
+      const packageJson = JSON.parse(await fs.readFile(lectureManager.getLecturePackagePath('new-lecture').fsPath, 'utf-8'));
+      assert.strictEqual(packageJson.name, 'new-lecture');
+
+      const slidesConfig = await courseManager.readSlidesJson();
+      assert.deepStrictEqual(slidesConfig?.slides, [{ name: 'new-lecture', title: 'New Title' }]);
+    });
+
+    test('renameLecture rejects an existing target name', async () => {
+      await lectureManager.createLecture('first-lecture', 'First');
+      await lectureManager.createLecture('second-lecture', 'Second');
+
+      await assert.rejects(
+        () => lectureManager.renameLecture('first-lecture', 'second-lecture', 'First'),
+        /already exists/
+      );
+      assert.strictEqual(await lectureManager.lectureExists('first-lecture'), true);
+    });
+
+    test('createLecture and renameLecture reject the name of the exports folder', async () => {
+      await lectureManager.createLecture('first-lecture', 'First');
+
+      await assert.rejects(() => lectureManager.createLecture('exports', 'Exports'), /exports folder/);
+      await assert.rejects(() => lectureManager.createLectureWithModules('exports', 'Exports'), /exports folder/);
+      await assert.rejects(() => lectureManager.renameLecture('first-lecture', 'exports', 'First'), /exports folder/);
+      assert.strictEqual(await lectureManager.lectureExists('exports'), false);
+    });
   });
 
   // Template Tests
@@ -284,6 +320,32 @@ Content here
       );
     });
 
+    test('syncLectureTitle copies the slides.md title into slides.json', async () => {
+      await createCourseStructureForTests();
+      await lectureManager.createLecture('sync-lecture', 'Original Title');
+
+      const slidesPath = lectureManager.getLectureSlidesPath('sync-lecture').fsPath;
+      const content = await fs.readFile(slidesPath, 'utf-8');
+      await fs.writeFile(slidesPath, content.replace('title: Original Title', 'title: Edited Title'));
+
+      const change = await lectureManager.syncLectureTitle('sync-lecture');
+      assert.deepStrictEqual(change, { lecture: 'sync-lecture', from: 'Original Title', to: 'Edited Title' });
+      assert.strictEqual(await lectureManager.syncLectureTitle('sync-lecture'), null);
+    });
+
+    test('syncCourseMetadata adds missing lectures and reports orphaned entries', async () => {
+      await createCourseStructureForTests();
+      await lectureManager.createLecture('listed-lecture', 'Listed');
+      await courseManager.writeSlidesJson({ slides: [{ name: 'gone-lecture', title: 'Gone' }] });
+
+      const result = await lectureManager.syncCourseMetadata();
+
+      assert.deepStrictEqual(result.added, ['listed-lecture']);
+      assert.deepStrictEqual(result.orphaned, ['gone-lecture']);
+      const slidesConfig = await courseManager.readSlidesJson();
+      assert.strictEqual(slidesConfig?.slides.length, 2);
+    });
+
     test('updateCourseConfig updates slides.json', async () => {
       await createCourseStructureForTests();
 
@@ -466,6 +528,45 @@ Content here
       assert.strictEqual(packageJson.dependencies.shiki, undefined);
     });
 
+    test('getLectureTemplates lists the bundled default and course templates', async () => {
+      const templatesDir = path.join(tempDir, '.sliman', 'templates');
+      await fs.mkdir(path.join(templatesDir, 'lab'), { recursive: true });
+      await fs.writeFile(path.join(templatesDir, 'lab', 'slides.md'), '# {{TITLE}}');
+      await fs.mkdir(path.join(templatesDir, 'no-slides'), { recursive: true });
+
+      const templates = await lectureManager.getLectureTemplates();
+
+      assert.deepStrictEqual(templates.map((template) => template.name), ['default', 'lab']);
+      assert.strictEqual(templates[0].dir, null);
+    });
+
+    test('createLectureWithModules copies the files of a course template', async () => {
+      await createCourseStructureForTests();
+      const labDir = path.join(tempDir, '.sliman', 'templates', 'lab');
+      await fs.mkdir(path.join(labDir, 'components'), { recursive: true });
+      await fs.mkdir(path.join(labDir, 'public'), { recursive: true });
+      await fs.writeFile(path.join(labDir, 'slides.md'), '---\ntitle: {{TITLE}}\n---\n\n# Lab: {{TITLE}} ({{NAME}})\n');
+      await fs.writeFile(path.join(labDir, 'components', 'Task.vue'), '<template><div /></template>');
+      await fs.writeFile(path.join(labDir, 'public', 'task.txt'), 'task');
+      await fs.writeFile(path.join(labDir, 'package.json'), JSON.stringify({ dependencies: { katex: '^0.16.0' } }));
+
+      const lab = (await lectureManager.getLectureTemplates()).find((template) => template.name === 'lab');
+      assert.ok(lab);
+      await lectureManager.createLectureWithModules('lab-1', 'Lab 1', [], lab);
+
+      const lectureDir = lectureManager.getLectureDir('lab-1').fsPath;
+      const slides = await fs.readFile(path.join(lectureDir, 'slides.md'), 'utf-8');
+      assert.ok(slides.includes('# Lab: Lab 1 (lab-1)'));
+      await fs.access(path.join(lectureDir, 'components', 'Task.vue'));
+      await fs.access(path.join(lectureDir, 'components', 'Courser.vue'));
+      assert.strictEqual(await fs.readFile(path.join(lectureDir, 'public', 'task.txt'), 'utf-8'), 'task');
+
+      const packageJson = JSON.parse(await fs.readFile(path.join(lectureDir, 'package.json'), 'utf-8'));
+      assert.strictEqual(packageJson.name, 'lab-1');
+      assert.strictEqual(packageJson.dependencies.katex, '^0.16.0');
+      assert.ok(packageJson.dependencies['@slidev/cli']);
+    });
+
     test('copyModuleConfigs creates slidev.config.ts for Monaco Editor', async () => {
       const lectureName = 'monaco-config-test';
       await lectureManager.createLectureDir(lectureName);
@@ -0,0 +1,39 @@
+/**
+ * Tests for the canonical lecture order helpers
+ */
+
+import * as assert from 'assert';
+import { moveLectures, shiftLecture, sortByLectureOrder } from '../../utils/lectureOrder';
+
+suite('Lecture Order Tests', () => {
+  const order = ['intro', 'basics', 'advanced', 'summary'];
+
+  test('sorts folders by slides.json and appends unlisted ones alphabetically', () => {
+    const directories = ['advanced', 'zeta', 'basics', 'alpha', 'intro'];
+
+    assert.deepStrictEqual(sortByLectureOrder(directories, order), ['intro', 'basics', 'advanced', 'alpha', 'zeta']);
+  });
+
+  test('dropping downwards places lectures after the target', () => {
+    assert.deepStrictEqual(moveLectures(order, ['intro'], 'advanced'), ['basics', 'advanced', 'intro', 'summary']);
+  });
+
+  test('dropping upwards places lectures before the target', () => {
+    assert.deepStrictEqual(moveLectures(order, ['summary', 'advanced'], 'basics'), ['intro', 'advanced', 'summary', 'basics']);
+  });
+
+  test('dropping without a target moves lectures to the end', () => {
+    assert.deepStrictEqual(moveLectures(order, ['basics']), ['intro', 'advanced', 'summary', 'basics']);
+  });
+
+  test('dropping onto a dragged lecture keeps the order', () => {
+    assert.deepStrictEqual(moveLectures(order, ['basics', 'advanced'], 'advanced'), order);
+  });
+
+  test('shifts a lecture by one position and stops at the edges', () => {
+    assert.deepStrictEqual(shiftLecture(order, 'basics', -1), ['basics', 'intro', 'advanced', 'summary']);
+    assert.deepStrictEqual(shiftLecture(order, 'basics', 1), ['intro', 'advanced', 'basics', 'summary']);
+    assert.deepStrictEqual(shiftLecture(order, 'intro', -1), order);
+    assert.deepStrictEqual(shiftLecture(order, 'summary', 1), order);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Tests for lecture template helpers (slides.md placeholders, package.json overlay)
+ */
+
+import * as assert from 'assert';
+import { fillSlidesTemplate, mergePackageJson } from '../../utils/lectureTemplates';
+
+suite('Lecture Templates Test Suite', () => {
+  test('fillSlidesTemplate replaces every placeholder', () => {
+    assert.strictEqual(
+      fillSlidesTemplate('title: {{TITLE}}\nname: {{NAME}}\n# {{TITLE}}', 'lab-1', 'Lab 1'),
+      'title: Lab 1\nname: lab-1\n# Lab 1'
+    );
+  });
+
+  test('mergePackageJson merges dependencies and scripts entry by entry', () => {
+    const base = { name: 'lab-1', scripts: { build: 'slidev build' }, dependencies: { vue: '^3.5.17' } };
+    const merged = mergePackageJson(base, {
+      scripts: { test: 'vitest' },
+      dependencies: { vue: '^3.5.20', katex: '^0.16.0' },
+      devDependencies: { vitest: '^2.0.0' },
+    });
+
+    assert.deepStrictEqual(merged, {
+      name: 'lab-1',
+      scripts: { build: 'slidev build', test: 'vitest' },
+      dependencies: { vue: '^3.5.20', katex: '^0.16.0' },
+      devDependencies: { vitest: '^2.0.0' },
+    });
+    assert.deepStrictEqual(base.dependencies, { vue: '^3.5.17' });
+  });
+
+  test('mergePackageJson replaces other fields', () => {
+    assert.deepStrictEqual(mergePackageJson({ name: 'a', private: true }, { private: false, keywords: ['lab'] }), {
+      name: 'a',
+      private: false,
+      keywords: ['lab'],
+    });
+  });
+});
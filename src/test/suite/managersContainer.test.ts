@@ -5,6 +5,7 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as fs from 'fs/promises';
 import { ManagersContainer } from '../../managers/ManagersContainer';
 import { CourseManager } from '../../managers/CourseManager';
 import { createTestDir, cleanupTestDir, cleanupAllTestDirs } from '../utils/testWorkspace';
@@ -84,7 +85,8 @@ suite('ManagersContainer Tests', () => {
       assert.strictEqual(container.buildManager, null);
 
       // Initialize
-      container.initialize(workspaceUri, context, extensionPath);
+      container.initialize(context, extensionPath);
+      container.addCourse(workspaceUri);
       
       // Should be initialized
       assert.strictEqual(container.isInitialized(), true);
@@ -102,7 +104,8 @@ suite('ManagersContainer Tests', () => {
       assert.strictEqual(container.isInitialized(), false);
       
       // After initialization
-      container.initialize(workspaceUri, context, extensionPath);
+      container.initialize(context, extensionPath);
+      container.addCourse(workspaceUri);
       assert.strictEqual(container.isInitialized(), true);
       
       // After reset
@@ -112,7 +115,8 @@ suite('ManagersContainer Tests', () => {
 
     test('getters return correct managers', () => {
       const container = new ManagersContainer();
-      container.initialize(workspaceUri, context, extensionPath);
+      container.initialize(context, extensionPath);
+      container.addCourse(workspaceUri);
       
       // Test all getters
       const courseManager = container.courseManager!;
@@ -130,7 +134,8 @@ suite('ManagersContainer Tests', () => {
 
     test('initialize sets up manager relationships', () => {
       const container = new ManagersContainer();
-      container.initialize(workspaceUri, context, extensionPath);
+      container.initialize(context, extensionPath);
+      container.addCourse(workspaceUri);
       
       const courseManager = container.courseManager!;
       const lectureManager = container.lectureManager!;
@@ -154,7 +159,8 @@ suite('ManagersContainer Tests', () => {
   suite('Lifecycle Tests', () => {
     test('reset clears all managers', () => {
       const container = new ManagersContainer();
-      container.initialize(workspaceUri, context, extensionPath);
+      container.initialize(context, extensionPath);
+      container.addCourse(workspaceUri);
       
       // Verify initialization worked
       assert.strictEqual(container.isInitialized(), true);
@@ -174,7 +180,8 @@ suite('ManagersContainer Tests', () => {
 
     test('refreshCourseExplorer calls refresh method', () => {
       const container = new ManagersContainer();
-      container.initialize(workspaceUri, context, extensionPath);
+      container.initialize(context, extensionPath);
+      container.addCourse(workspaceUri);
       
       // refreshCourseExplorer should not throw
       // (actual refresh logic is tested in CourseExplorer tests)
@@ -192,7 +199,8 @@ suite('ManagersContainer Tests', () => {
       container.reset();
       
       // Initialize and reset multiple times
-      container.initialize(workspaceUri, context, extensionPath);
+      container.initialize(context, extensionPath);
+      container.addCourse(workspaceUri);
       container.reset();
       container.reset();
       container.reset();
@@ -204,7 +212,8 @@ suite('ManagersContainer Tests', () => {
       const container = new ManagersContainer();
       
       // First initialization
-      container.initialize(workspaceUri, context, extensionPath);
+      container.initialize(context, extensionPath);
+      container.addCourse(workspaceUri);
       let courseManager = container.courseManager;
       assert.ok(courseManager instanceof CourseManager);
       
@@ -212,7 +221,8 @@ suite('ManagersContainer Tests', () => {
       container.reset();
       
       // Second initialization
-      container.initialize(workspaceUri, context, extensionPath);
+      container.initialize(context, extensionPath);
+      container.addCourse(workspaceUri);
       let courseManager2 = container.courseManager;
       assert.ok(courseManager2 instanceof CourseManager);
       
@@ -228,8 +238,10 @@ suite('ManagersContainer Tests', () => {
       const container2 = new ManagersContainer();
       
       // Initialize both
-      container1.initialize(workspaceUri, context, extensionPath);
-      container2.initialize(workspaceUri, context, extensionPath);
+      container1.initialize(context, extensionPath);
+      container1.addCourse(workspaceUri);
+      container2.initialize(context, extensionPath);
+      container2.addCourse(workspaceUri);
       
       // Both should be initialized independently
       assert.strictEqual(container1.isInitialized(), true);
@@ -246,7 +258,8 @@ suite('ManagersContainer Tests', () => {
 
     test('container preserves state between operations', () => {
       const container = new ManagersContainer();
-      container.initialize(workspaceUri, context, extensionPath);
+      container.initialize(context, extensionPath);
+      container.addCourse(workspaceUri);
       
       // Perform some operations
       const courseManager = container.courseManager!;
@@ -264,7 +277,8 @@ suite('ManagersContainer Tests', () => {
   suite('Integration Tests', () => {
     test('managers work together through container', async () => {
       const container = new ManagersContainer();
-      container.initialize(workspaceUri, context, extensionPath);
+      container.initialize(context, extensionPath);
+      container.addCourse(workspaceUri);
       
       const courseManager = container.courseManager!;
       const lectureManager = container.lectureManager!;
@@ -282,7 +296,8 @@ suite('ManagersContainer Tests', () => {
 
     test('container handles course operations', async () => {
       const container = new ManagersContainer();
-      container.initialize(workspaceUri, context, extensionPath);
+      container.initialize(context, extensionPath);
+      container.addCourse(workspaceUri);
       
       const courseManager = container.courseManager!;
       
@@ -303,7 +318,8 @@ suite('ManagersContainer Tests', () => {
       const container = new ManagersContainer();
       
       // Initialize with first workspace
-      container.initialize(workspaceUri, context, extensionPath);
+      container.initialize(context, extensionPath);
+      container.addCourse(workspaceUri);
       const firstCourseManager = container.courseManager!;
       const firstRoot = firstCourseManager.getCourseRoot();
       
@@ -311,7 +327,8 @@ suite('ManagersContainer Tests', () => {
       container.reset();
       const tempDir2 = path.join(tempDir, 'subdir');
       const workspaceUri2 = vscode.Uri.file(tempDir2);
-      container.initialize(workspaceUri2, context, extensionPath);
+      container.initialize(context, extensionPath);
+      container.addCourse(workspaceUri2);
       
       const secondCourseManager = container.courseManager!;
       const secondRoot = secondCourseManager.getCourseRoot();
@@ -322,6 +339,89 @@ suite('ManagersContainer Tests', () => {
     });
   });
 
+  // Multi-root Tests
+  suite('Multi-root Tests', () => {
+    const folder = (uri: vscode.Uri, index: number): vscode.WorkspaceFolder => ({ uri, index, name: path.basename(uri.fsPath) });
+
+    test('syncWorkspaceFolders creates a manager set per course folder', async () => {
+      const courseA = path.join(tempDir, 'course-a');
+      const courseB = path.join(tempDir, 'course-b');
+      const plain = path.join(tempDir, 'plain');
+      await Promise.all([courseA, courseB, plain].map((dir) => fs.mkdir(dir, { recursive: true })));
+      await createCourseStructure(courseA, 'course-a', [{ name: 'intro', title: 'Intro' }]);
+      await createCourseStructure(courseB, 'course-b', [{ name: 'intro', title: 'Intro' }]);
+
+      const container = new ManagersContainer();
+      container.initialize(context, extensionPath);
+      const added: string[] = [];
+      const subscription = container.onDidAddCourse((course) => added.push(course.root.fsPath));
+
+      const folders = [vscode.Uri.file(courseA), vscode.Uri.file(plain), vscode.Uri.file(courseB)].map(folder);
+      await container.syncWorkspaceFolders(folders);
+
+      assert.deepStrictEqual(container.courses.map((course) => course.root.fsPath), [courseA, courseB]);
+      assert.deepStrictEqual(added, [courseA, courseB]);
+      assert.notStrictEqual(container.courses[0].courseManager, container.courses[1].courseManager);
+
+      // Removing a folder disposes its course resources
+      let disposed = false;
+      container.courses[1].disposables.push({ dispose: () => { disposed = true; } });
+      await container.syncWorkspaceFolders(folders.slice(0, 2));
+      assert.deepStrictEqual(container.courses.map((course) => course.root.fsPath), [courseA]);
+      assert.strictEqual(disposed, true);
+
+      subscription.dispose();
+      container.reset();
+    });
+
+    test('selectCourse switches the active course by file URI', () => {
+      const rootA = vscode.Uri.file(path.join(tempDir, 'course-a'));
+      const rootB = vscode.Uri.file(path.join(tempDir, 'course-b'));
+
+      const container = new ManagersContainer();
+      container.initialize(context, extensionPath);
+      const courseA = container.addCourse(rootA);
+      const courseB = container.addCourse(rootB);
+
+      // The first course is active by default
+      assert.strictEqual(container.courseManager, courseA.courseManager);
+
+      assert.strictEqual(container.selectCourse(vscode.Uri.joinPath(rootB, 'slides', 'intro', 'slides.md')), true);
+      assert.strictEqual(container.courseManager, courseB.courseManager);
+      assert.strictEqual(container.buildManager, courseB.buildManager);
+
+      // Unknown locations and non-URI arguments keep the active course
+      assert.strictEqual(container.selectCourse(vscode.Uri.file(tempDir)), false);
+      assert.strictEqual(container.selectCourse('intro'), false);
+      assert.strictEqual(container.getCourse(), courseB);
+
+      container.reset();
+    });
+
+    test('removeCourse and reset dispose the build manager of the course', () => {
+      const rootA = vscode.Uri.file(path.join(tempDir, 'course-a'));
+      const rootB = vscode.Uri.file(path.join(tempDir, 'course-b'));
+
+      const container = new ManagersContainer();
+      container.initialize(context, extensionPath);
+      const disposed: string[] = [];
+      for (const root of [rootA, rootB]) {
+        const buildManager = container.addCourse(root).buildManager;
+        const dispose = buildManager.dispose.bind(buildManager);
+        buildManager.dispose = () => {
+          disposed.push(path.basename(root.fsPath));
+          dispose();
+        };
+      }
+
+      assert.strictEqual(container.removeCourse(rootA), true);
+      assert.deepStrictEqual(disposed, ['course-a']);
+
+      container.reset();
+      assert.deepStrictEqual(disposed, ['course-a', 'course-b']);
+    });
+  });
+
   // Edge Cases Tests
   suite('Edge Cases Tests', () => {
     test('initialize with null parameters handles gracefully', () => {
@@ -329,7 +429,8 @@ suite('ManagersContainer Tests', () => {
       
       // Should not throw with valid parameters
       assert.doesNotThrow(() => {
-        container.initialize(workspaceUri, context, extensionPath);
+        container.initialize(context, extensionPath);
+      container.addCourse(workspaceUri);
       });
       
       container.reset();
@@ -0,0 +1,89 @@
+/**
+ * Tests for the course output layout (output directory, base paths, served folder)
+ */
+
+import * as assert from 'assert';
+import {
+  getLectureBasePath,
+  getServeRoot,
+  isValidBasePath,
+  normalizeOutputDir,
+  resolveCourseBasePath,
+  resolveOutputDirName,
+  setOutputDirIgnored,
+  suggestBasePath,
+} from '../../utils/outputLayout';
+
+suite('Output Layout Test Suite', () => {
+  test('output directory follows the deploy mode', () => {
+    assert.strictEqual(resolveOutputDirName('web', false), 'web');
+    assert.strictEqual(resolveOutputDirName('web', true), 'built');
+  });
+
+  test('sliman.json outputDir replaces the output directory', () => {
+    assert.strictEqual(resolveOutputDirName('web', false, './site/web/'), 'site/web');
+    assert.strictEqual(resolveOutputDirName('web', true, 'public'), 'public');
+    // Invalid values fall back to the default
+    assert.strictEqual(resolveOutputDirName('web', true, '../outside'), 'built');
+  });
+
+  test('normalizeOutputDir rejects paths outside the course and reserved folders', () => {
+    for (const value of ['', '.', '..', '../x', '/abs', 'C:/site', 'slides', 'slides/out', '.sliman', 'node_modules', 42, null]) {
+      assert.strictEqual(normalizeOutputDir(value), null, String(value));
+    }
+    assert.strictEqual(normalizeOutputDir('site\\web'), 'site/web');
+  });
+
+  test('base paths of the course and its lectures', () => {
+    assert.strictEqual(resolveCourseBasePath('web', false), '/web/');
+    assert.strictEqual(resolveCourseBasePath('web', true), '/');
+    assert.strictEqual(getLectureBasePath('/web/', 'intro'), '/web/intro/');
+    assert.strictEqual(getLectureBasePath('/', 'intro'), '/intro/');
+  });
+
+  test('sliman.json basePath replaces the base path in both modes', () => {
+    assert.strictEqual(resolveCourseBasePath('web', false, '/~staff/altman/2026/web/'), '/~staff/altman/2026/web/');
+    assert.strictEqual(resolveCourseBasePath('web', true, '/courses/'), '/courses/');
+    // Invalid values fall back to the default
+    assert.strictEqual(resolveCourseBasePath('web', false, 'courses/web'), '/web/');
+  });
+
+  test('isValidBasePath requires leading and trailing slashes', () => {
+    for (const value of ['/', '/web/', '/~staff/altman/2026/web/', '/web-2026_v1.0/']) {
+      assert.strictEqual(isValidBasePath(value), true, value);
+    }
+    for (const value of ['', 'web/', '/web', '//', '/a//b/', '/a b/', '/a?b/', '/../', '/a/./', 42]) {
+      assert.strictEqual(isValidBasePath(value), false, String(value));
+    }
+  });
+
+  test('isValidBasePath rejects shell metacharacters', () => {
+    for (const value of ['/a&b/', '/a;b/', '/a|b/', '/$(cmd)/', "/a'b/", '/`cmd`/', '/a"b/', '/a%20b/']) {
+      assert.strictEqual(isValidBasePath(value), false, value);
+    }
+  });
+
+  test('suggestBasePath adds missing slashes', () => {
+    assert.strictEqual(suggestBasePath('~staff/web'), '/~staff/web/');
+    assert.strictEqual(suggestBasePath('/a//b'), '/a/b/');
+    assert.strictEqual(suggestBasePath(''), '/');
+    assert.strictEqual(suggestBasePath('/a b/'), null);
+    assert.strictEqual(suggestBasePath('web;rm'), null);
+  });
+
+  test('getServeRoot maps the base path onto the output directory', () => {
+    assert.strictEqual(getServeRoot('web', '/web/'), '.');
+    assert.strictEqual(getServeRoot('built', '/'), 'built');
+    assert.strictEqual(getServeRoot('site/web', '/web/'), 'site');
+    assert.strictEqual(getServeRoot('public', '/web/'), null);
+    assert.strictEqual(getServeRoot('web', '/~staff/altman/2026/web/'), null);
+  });
+
+  test('setOutputDirIgnored adds and removes the output directory entry', () => {
+    assert.strictEqual(setOutputDirIgnored('node_modules/\n', 'web', true), 'node_modules/\n\n# Course specific build directories\nweb/\n');
+    assert.strictEqual(setOutputDirIgnored('node_modules/', 'web', true), 'node_modules/\n\n# Course specific build directories\nweb/\n');
+    assert.strictEqual(setOutputDirIgnored('/web\n', 'web', true), '/web\n');
+    assert.strictEqual(setOutputDirIgnored('node_modules/\r\nweb/\r\n.env\r\n', 'web', false), 'node_modules/\r\n.env\r\n');
+    assert.strictEqual(setOutputDirIgnored('node_modules/\nwebsite/\n', 'web', false), 'node_modules/\nwebsite/\n');
+  });
+});
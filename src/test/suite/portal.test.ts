@@ -0,0 +1,45 @@
+/**
+ * Tests for monorepo course discovery patterns and the course portal page
+ */
+
+import * as assert from 'assert';
+import { normalizeCourseRootPatterns, toSlimanGlob } from '../../utils/courseRoots';
+import { generatePortalHtml, isGeneratedPortal, PORTAL_MARKER } from '../../utils/portal';
+
+suite('Course Portal Test Suite', () => {
+  test('normalizeCourseRootPatterns accepts a string or a list', () => {
+    assert.deepStrictEqual(normalizeCourseRootPatterns(''), []);
+    assert.deepStrictEqual(normalizeCourseRootPatterns('.'), []);
+    assert.deepStrictEqual(normalizeCourseRootPatterns(undefined), []);
+    assert.deepStrictEqual(normalizeCourseRootPatterns('./courses/*/'), ['courses/*']);
+    assert.deepStrictEqual(
+      normalizeCourseRootPatterns(['courses\\algorithms', 'courses/algorithms', 42, ' extra/* ']),
+      ['courses/algorithms', 'extra/*']
+    );
+  });
+
+  test('normalizeCourseRootPatterns drops paths outside the workspace folder', () => {
+    assert.deepStrictEqual(normalizeCourseRootPatterns(['../other', '/abs/course', 'C:/course', 'a/../../b', 'ok']), ['ok']);
+  });
+
+  test('toSlimanGlob points at sliman.json inside the course folders', () => {
+    assert.strictEqual(toSlimanGlob('courses/*'), 'courses/*/sliman.json');
+  });
+
+  test('generatePortalHtml links courses and marks unbuilt ones', () => {
+    const html = generatePortalHtml('repo', [
+      { name: 'algorithms', href: './courses/algorithms/algorithms/index.html', lectures: 1, built: true },
+      { name: 'db <intro>', href: './courses/db/built/index.html', lectures: 12, built: false },
+    ]);
+
+    assert.ok(html.startsWith(PORTAL_MARKER));
+    assert.ok(html.includes('<a href="./courses/algorithms/algorithms/index.html">algorithms</a> (1 лекция)'));
+    assert.ok(html.includes('<a href="./courses/db/built/index.html">db &lt;intro&gt;</a> (12 лекций, не собран)'));
+  });
+
+  test('isGeneratedPortal protects hand-written index.html', () => {
+    assert.strictEqual(isGeneratedPortal(generatePortalHtml('repo', [])), true);
+    assert.strictEqual(isGeneratedPortal('\uFEFF' + PORTAL_MARKER + '\n<html></html>'), true);
+    assert.strictEqual(isGeneratedPortal('<html><body>My site</body></html>'), false);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for ProcessHelper streaming execution and cancellation
+ */
+
+import * as assert from 'assert';
+import { ProcessHelper, EXIT_CODE_CANCELLED } from '../../utils/process';
+
+/**
+ * Whether a process with the given pid is still running
+ */
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Polls until the process exits or the timeout elapses
+ */
+async function waitForExit(pid: number, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (!isAlive(pid)) return true;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return !isAlive(pid);
+}
+
+suite('Process Tests', () => {
+  teardown(() => {
+    ProcessHelper.resetExecutor();
+  });
+
+  test('execStream abort kills the child of the shell and resolves with the cancelled exit code', async function () {
+    this.timeout(10000);
+
+    // The trailing command keeps the shell from replacing itself with node,
+    // so node runs as a child of the shell
+    const script = 'console.log(process.pid); setInterval(() => {}, 1000)';
+    const command = `"${process.execPath}" -e "${script}" && echo done`;
+    const controller = new AbortController();
+    let childPid: number | undefined;
+
+    const result = await ProcessHelper.execStream(command, { signal: controller.signal }, (type, data) => {
+      const pid = parseInt(data.trim(), 10);
+      if (type === 'stdout' && childPid === undefined && !isNaN(pid)) {
+        childPid = pid;
+        controller.abort();
+      }
+    });
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.exitCode, EXIT_CODE_CANCELLED);
+    assert.ok(childPid !== undefined, 'child pid should be printed before the abort');
+    assert.ok(await waitForExit(childPid, 5000), 'child process should be killed with the shell');
+  });
+
+  test('execStream resolves immediately when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await ProcessHelper.execStream(`"${process.execPath}" -e "setTimeout(() => {}, 5000)"`, {
+      signal: controller.signal,
+    });
+
+    assert.strictEqual(result.exitCode, EXIT_CODE_CANCELLED);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests that the contributed JSON schemas agree with the runtime validation
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { isValidFolderName, validateCourseName } from '../../utils/translit';
+import { isValidBasePath } from '../../utils/outputLayout';
+import { SLIDES_SCHEMA_REF } from '../../constants';
+
+/** schemas/ at the repository root (tests run from out/test/suite) */
+const SCHEMAS_DIR = path.join(__dirname, '..', '..', '..', 'schemas');
+
+/** The parts of JSON Schema the tests look at */
+interface Schema {
+  type?: string;
+  pattern?: string;
+  required?: string[];
+  properties: Record<string, Schema>;
+  items: Schema;
+}
+
+function readSchema(fileName: string): Schema {
+  return JSON.parse(fs.readFileSync(path.join(SCHEMAS_DIR, fileName), 'utf-8'));
+}
+
+suite('JSON Schema Tests', () => {
+  const samples = ['intro', 'lecture-1', 'a', '1-2-3', '-intro', 'intro-', 'my lecture', 'Введение', 'a.b', 'a_b', ''];
+
+  test('sliman.json schema describes SlimanConfig fields', () => {
+    const schema = readSchema('sliman.schema.json');
+
+    assert.deepStrictEqual(schema.required, ['course_name']);
+    assert.strictEqual(schema.properties.deployRoot.type, 'boolean');
+    assert.deepStrictEqual(Object.keys(schema.properties.build.properties), ['timeoutSeconds', 'pollIntervalMs']);
+  });
+
+  test('only sliman.json is matched by file name; slides.json uses "$schema"', () => {
+    const manifest = JSON.parse(fs.readFileSync(path.join(SCHEMAS_DIR, '..', 'package.json'), 'utf-8'));
+    const fileMatches = (manifest.contributes.jsonValidation as Array<{ fileMatch: string }>).map((entry) => entry.fileMatch);
+
+    assert.deepStrictEqual(fileMatches, ['sliman.json']);
+    assert.strictEqual(path.posix.basename(SLIDES_SCHEMA_REF), 'slides.schema.json');
+    assert.ok(fs.existsSync(path.join(SCHEMAS_DIR, path.posix.basename(SLIDES_SCHEMA_REF))));
+  });
+
+  test('course_name pattern matches validateCourseName', () => {
+    const pattern = new RegExp(readSchema('sliman.schema.json').properties.course_name.pattern ?? '');
+
+    for (const sample of samples) {
+      assert.strictEqual(pattern.test(sample), validateCourseName(sample).isValid, `course_name "${sample}"`);
+    }
+  });
+
+  test('basePath pattern matches isValidBasePath', () => {
+    const pattern = new RegExp(readSchema('sliman.schema.json').properties.basePath.pattern ?? '');
+
+    for (const sample of ['/', '/web/', '/~staff/altman/2026/web/', 'web/', '/web', '//', '/a b/', '/a?b/', '/a&b/', '/$(cmd)/', '']) {
+      assert.strictEqual(pattern.test(sample), isValidBasePath(sample), `basePath "${sample}"`);
+    }
+  });
+
+  test('lecture name pattern matches isValidFolderName', () => {
+    const lecture = readSchema('slides.schema.json').properties.slides.items;
+    const pattern = new RegExp(lecture.properties.name.pattern ?? '');
+
+    assert.deepStrictEqual(lecture.required, ['name', 'title']);
+    for (const sample of samples) {
+      assert.strictEqual(pattern.test(sample), isValidFolderName(sample), `lecture name "${sample}"`);
+    }
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for shell command builders used by terminal builds
+ */
+
+import * as assert from 'assert';
+import {
+  PowerShellCommandBuilder,
+  PosixCommandBuilder,
+  CmdCommandBuilder,
+  createShellCommandBuilder,
+  detectShellKind,
+} from '../../utils/shell';
+
+suite('Shell Commands Tests', () => {
+  // Shell Detection Tests
+  suite('Shell Detection Tests', () => {
+    test('detects PowerShell from pwsh and powershell.exe', () => {
+      assert.strictEqual(detectShellKind('/usr/bin/pwsh', 'unix'), 'powershell');
+      assert.strictEqual(
+        detectShellKind('C:\\Windows\\System32\\WindowsPowerShell\\v1.0\\powershell.exe', 'windows'),
+        'powershell'
+      );
+    });
+
+    test('detects cmd.exe', () => {
+      assert.strictEqual(detectShellKind('C:\\Windows\\System32\\cmd.exe', 'windows'), 'cmd');
+    });
+
+    test('detects POSIX shells', () => {
+      assert.strictEqual(detectShellKind('/bin/bash', 'unix'), 'posix');
+      assert.strictEqual(detectShellKind('/bin/zsh', 'unix'), 'posix');
+      assert.strictEqual(detectShellKind('C:\\Program Files\\Git\\bin\\bash.exe', 'windows'), 'posix');
+    });
+
+    test('falls back to the platform default for unknown or empty shells', () => {
+      assert.strictEqual(detectShellKind('', 'windows'), 'powershell');
+      assert.strictEqual(detectShellKind('', 'unix'), 'posix');
+      assert.strictEqual(detectShellKind('/opt/custom-shell', 'unix'), 'posix');
+    });
+
+    test('createShellCommandBuilder returns builder for each kind', () => {
+      assert.ok(createShellCommandBuilder('powershell') instanceof PowerShellCommandBuilder);
+      assert.ok(createShellCommandBuilder('posix') instanceof PosixCommandBuilder);
+      assert.ok(createShellCommandBuilder('cmd') instanceof CmdCommandBuilder);
+    });
+  });
+
+  // PowerShell Tests
+  suite('PowerShell Builder Tests', () => {
+    const shell = new PowerShellCommandBuilder();
+
+    test('quotes paths as literals and doubles single quotes', () => {
+      assert.strictEqual(
+        shell.changeDirectory("C:\\courses\\it's"),
+        "Set-Location -LiteralPath 'C:\\courses\\it''s'"
+      );
+    });
+
+    test('copies directory contents only if source exists', () => {
+      const command = shell.copyDirectoryContentsIfExists('dist', 'C:\\out\\lecture');
+      assert.ok(command.startsWith("if (Test-Path -LiteralPath 'dist')"));
+      assert.ok(command.includes("Copy-Item -Path 'dist/.'"));
+    });
+
+    test('chains commands without &&', () => {
+      assert.strictEqual(
+        shell.chainOnSuccess(['pnpm install', 'pnpm run dev']),
+        'pnpm install; if ($?) { pnpm run dev }'
+      );
+    });
+
+    test('writes failed build status with the captured exit code', () => {
+      const command = shell.writeBuildStatus('C:\\course\\.sliman\\build-status\\a.json');
+      assert.ok(command.startsWith('if ($slimanBuildExit -eq 0)'));
+      assert.ok(command.includes(`'{"status":"failed","exitCode":' + $slimanBuildExit`));
+    });
+  });
+
+  // POSIX Tests
+  suite('POSIX Builder Tests', () => {
+    const shell = new PosixCommandBuilder();
+
+    test('escapes single quotes in paths', () => {
+      assert.strictEqual(shell.changeDirectory("/home/it's"), "cd '/home/it'\\''s'");
+    });
+
+    test('removes directories with rm -rf', () => {
+      assert.strictEqual(shell.removeDirectory('/out/lecture'), "rm -rf '/out/lecture'");
+    });
+
+    test('writes status JSON without shell expansion', () => {
+      const command = shell.writeFile('/course/.sliman-build-status.json', '{"status":"done"}');
+      assert.strictEqual(command, `printf '%s\\n' '{"status":"done"}' > '/course/.sliman-build-status.json'`);
+    });
+
+    test('chains commands with &&', () => {
+      assert.strictEqual(shell.chainOnSuccess(['pnpm install', 'pnpm run dev']), 'pnpm install && pnpm run dev');
+    });
+
+    test('guards commands on the captured build exit code', () => {
+      assert.strictEqual(shell.captureExitCode(), 'SLIMAN_BUILD_EXIT=$?');
+      assert.strictEqual(
+        shell.ifBuildSucceeded("rm -rf '/out'"),
+        `if [ "$SLIMAN_BUILD_EXIT" -eq 0 ]; then rm -rf '/out'; fi`
+      );
+    });
+
+    test('writes done or failed build status with the exit code', () => {
+      const command = shell.writeBuildStatus('/course/.sliman/build-status/a.json');
+      assert.ok(command.includes(`'{"status":"done","exitCode":0}'`));
+      assert.ok(command.includes('"status":"failed","exitCode":%s'));
+      assert.ok(command.includes('"$SLIMAN_BUILD_EXIT"'));
+    });
+  });
+
+  // cmd.exe Tests
+  suite('Cmd Builder Tests', () => {
+    const shell = new CmdCommandBuilder();
+
+    test('changes drive together with directory', () => {
+      assert.strictEqual(shell.changeDirectory('D:\\course'), 'cd /d "D:\\course"');
+    });
+
+    test('copies with xcopy into a directory destination', () => {
+      assert.strictEqual(
+        shell.copyDirectoryContentsIfExists('dist', 'D:\\out\\lecture'),
+        'if exist "dist" xcopy "dist" "D:\\out\\lecture\\" /e /i /y /q >nul'
+      );
+    });
+
+    test('escapes metacharacters in echoed content', () => {
+      assert.strictEqual(shell.writeFile('D:\\s.json', 'a&b'), '> "D:\\s.json" echo a^&b');
+    });
+
+    test('writes build status from ERRORLEVEL', () => {
+      assert.strictEqual(shell.captureExitCode(), 'set SLIMAN_BUILD_EXIT=%ERRORLEVEL%');
+      const command = shell.writeBuildStatus('D:\\s.json');
+      assert.ok(command.startsWith('if "%SLIMAN_BUILD_EXIT%"=="0" (> "D:\\s.json" echo {"status":"done","exitCode":0})'));
+      assert.ok(command.includes('"exitCode":%SLIMAN_BUILD_EXIT%'));
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for the sliman.json migration pipeline
+ */
+
+import * as assert from 'assert';
+import { getSlimanSchemaVersion, runSlimanMigrations } from '../../utils/slimanMigrations';
+import type { SlimanMigration } from '../../utils/slimanMigrations';
+import { SLIMAN_SCHEMA_VERSION } from '../../constants';
+
+suite('sliman.json Migrations Test Suite', () => {
+  test('getSlimanSchemaVersion treats a missing or invalid version as 0', () => {
+    assert.strictEqual(getSlimanSchemaVersion({ course_name: 'c' }), 0);
+    assert.strictEqual(getSlimanSchemaVersion({ schemaVersion: '1' }), 0);
+    assert.strictEqual(getSlimanSchemaVersion({ schemaVersion: 2 }), 2);
+  });
+
+  test('upgrades a version 0 file and keeps unknown fields', () => {
+    const original = { course_name: 'c', extra: [1, 2] };
+    const { config, applied } = runSlimanMigrations(original);
+
+    assert.deepStrictEqual(config, { course_name: 'c', extra: [1, 2], deployRoot: false, schemaVersion: SLIMAN_SCHEMA_VERSION });
+    assert.strictEqual(applied.length, SLIMAN_SCHEMA_VERSION);
+    assert.deepStrictEqual(original, { course_name: 'c', extra: [1, 2] });
+  });
+
+  test('runs steps in order and stamps each version', () => {
+    const seen: number[] = [];
+    const migrations: SlimanMigration[] = [
+      {
+        from: 1,
+        description: 'second',
+        migrate: (config) => {
+          seen.push(getSlimanSchemaVersion(config));
+          return { ...config, b: true };
+        },
+      },
+      {
+        from: 0,
+        description: 'first',
+        migrate: (config) => {
+          seen.push(getSlimanSchemaVersion(config));
+          return { ...config, a: true };
+        },
+      },
+    ];
+
+    const { config, applied } = runSlimanMigrations({}, migrations, 2);
+    assert.deepStrictEqual(seen, [0, 1]);
+    assert.deepStrictEqual(config, { a: true, b: true, schemaVersion: 2 });
+    assert.deepStrictEqual(applied.map((step) => step.split(': ')[1]), ['first', 'second']);
+  });
+
+  test('rejects newer files and gaps in the chain', () => {
+    assert.throws(() => runSlimanMigrations({ schemaVersion: SLIMAN_SCHEMA_VERSION + 1 }), /Update the extension/);
+    assert.throws(() => runSlimanMigrations({}, [], 1), /No sliman.json migration from schemaVersion 0/);
+  });
+});
@@ -4,7 +4,7 @@
 
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { SLIMAN_FILENAME, SLIDES_FILENAME } from '../../constants';
+import { SLIMAN_FILENAME, SLIDES_FILENAME, BUILT_DIR } from '../../constants';
 
 /**
  * Creates a complete course structure in the test workspace
@@ -25,12 +25,9 @@ export async function createCourseStructure(
   const slimanPath = path.join(tempDir, SLIMAN_FILENAME);
   await fs.writeFile(slimanPath, JSON.stringify({ course_name: courseName, deployRoot }, null, 2));
 
-  // Determine slides.json location based on deployRoot
-  const slidesJsonDir = deployRoot ? path.join(tempDir, 'built') : path.join(tempDir, courseName);
-  const slidesPath = path.join(slidesJsonDir, SLIDES_FILENAME);
-
-  // Create slides.json directory and file
-  await fs.mkdir(slidesJsonDir, { recursive: true });
+  // Create the output directory (location based on deployRoot) and slides.json in root
+  await fs.mkdir(path.join(tempDir, deployRoot ? BUILT_DIR : courseName), { recursive: true });
+  const slidesPath = path.join(tempDir, SLIDES_FILENAME);
   const slidesConfig = {
     slides: lectures.map(lecture => ({
       name: lecture.name,
@@ -85,7 +82,7 @@ export async function createCourseWithEmptySlides(tempDir: string, courseName: s
   const courseDir = path.join(tempDir, courseName);
   await fs.mkdir(courseDir, { recursive: true });
 
-  const slidesPath = path.join(courseDir, SLIDES_FILENAME);
+  const slidesPath = path.join(tempDir, SLIDES_FILENAME);
   const slidesConfig = { slides: [] };
   await fs.writeFile(slidesPath, JSON.stringify(slidesConfig, null, 2));
 }
@@ -97,13 +94,8 @@ export async function createCourseWithEmptySlides(tempDir: string, courseName: s
  * @param lectureTitle - Title of the lecture
  */
 export async function addLectureToCourse(tempDir: string, lectureName: string, lectureTitle: string): Promise<void> {
-  const slimanPath = path.join(tempDir, SLIMAN_FILENAME);
-  const slimanContent = await fs.readFile(slimanPath, 'utf-8');
-  const slimanConfig = JSON.parse(slimanContent);
-  const courseName = slimanConfig.course_name;
-
   // Update slides.json
-  const slidesPath = path.join(tempDir, courseName, SLIDES_FILENAME);
+  const slidesPath = path.join(tempDir, SLIDES_FILENAME);
   let slidesConfig: { slides: Array<{ name: string, title: string }> } = { slides: [] };
   
   try {
@@ -25,6 +25,12 @@ export interface CourseTreeItem {
   collapsible?: vscode.TreeItemCollapsibleState;
   /** Context value for menu filtering */
   contextValue?: string;
+  /** Secondary text shown next to the label */
+  description?: string;
+  /** Root of the course the item belongs to (multi-root workspaces) */
+  courseRoot?: vscode.Uri;
+  /** Parent item (undefined for top-level items) */
+  parent?: CourseTreeItem;
 }
 
 /**
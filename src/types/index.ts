@@ -2,6 +2,8 @@
  * Type definitions for sli.dev Course VS Code Extension
  */
 
+import type * as vscode from 'vscode';
+
 // Re-export Course Explorer types
 export type {
   CourseTreeItem,
@@ -23,6 +25,8 @@ export interface LectureInfo {
  * Contains course_name only
  */
 export interface SlimanConfig {
+  /** Format version of sliman.json; missing means 0 (see utils/slimanMigrations.ts) */
+  schemaVersion?: number;
   /**
    * Dual deploy mode flag.
    * - `true` — root deploy mode: uses `--base /` (course deployed at domain root)
@@ -32,19 +36,343 @@ export interface SlimanConfig {
    */
   deployRoot?: boolean;
   course_name: string;
+  /**
+   * Output directory relative to the course root (instead of {courseName}/ or built/).
+   * Does not change the URL the course is served under.
+   */
+  outputDir?: string;
+  /**
+   * URL path the course is served under, with leading and trailing slashes
+   * (e.g. `/~staff/altman/2026/web/`); lectures are built with `--base {basePath}{lecture}/`.
+   * Replaces `/` (root deploy) or `/{courseName}/` (subdir deploy).
+   */
+  basePath?: string;
+  /** Per-course build overrides (take precedence over the sliDevCourse.* settings) */
+  build?: SlimanBuildConfig;
+}
+
+/**
+ * Where a course is built to and served from (CourseManager.getOutputLayout)
+ */
+export interface CourseOutputLayout {
+  /** Deploy mode the layout was resolved for */
+  deployRoot: boolean;
+  /** Output directory relative to the course root: sliman.json outputDir, built/ (root deploy) or {courseName}/ */
+  outputDirName: string;
+  outputDir: vscode.Uri;
+  /** Generated copy of the course slides.json in the output directory (read by Courser.vue) */
+  slidesJson: vscode.Uri;
+  /** index.html of the course (in the output directory) */
+  indexHtml: vscode.Uri;
+  /** URL path of the course: sliman.json basePath, / (root deploy) or /{courseName}/ */
+  basePath: string;
+}
+
+/**
+ * Where one lecture is built to (CourseManager.getLectureOutput)
+ */
+export interface LectureOutput {
+  /** Built lecture folder in the course output directory */
+  dir: vscode.Uri;
+  /** --base of the lecture build */
+  basePath: string;
+}
+
+/**
+ * Result of an explicit sliman.json migration
+ */
+export interface SlimanMigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  /** Descriptions of the applied steps */
+  applied: string[];
+  /** Copy of the file before migration */
+  backupPath: string;
+}
+
+/**
+ * Result of a deploy mode switch (CourseManager.changeDeployMode)
+ */
+export interface DeployModeChange {
+  /** Output layout before the switch */
+  from: CourseOutputLayout;
+  /** Output layout after the switch */
+  to: CourseOutputLayout;
+  /** Descriptions of the applied steps */
+  applied: string[];
+}
+
+/**
+ * Build overrides in sliman.json ("build" object)
+ */
+export interface SlimanBuildConfig {
+  /** Max duration of one lecture build, in seconds */
+  timeoutSeconds?: number;
+  /** Interval of build status file polling (terminal mode, fs.watch fallback), in milliseconds */
+  pollIntervalMs?: number;
+}
+
+/**
+ * How lecture builds are executed (setting `sliDevCourse.buildMode`)
+ * - `terminal` — commands are typed into a visible VS Code terminal, completion is signalled by a status file
+ * - `headless` — `slidev build` is spawned directly, output is streamed to the output channel,
+ *   success is decided by the real exit code
+ */
+export type BuildMode = 'terminal' | 'headless';
+
+/**
+ * Failure categories reported by BuildManager (attached to thrown errors as `type`)
+ */
+export type BuildErrorType = 'lecture-not-found' | 'build-failed' | 'timeout' | 'cancelled';
+
+const BUILD_ERROR_TYPES: readonly string[] = ['lecture-not-found', 'build-failed', 'timeout', 'cancelled'] satisfies BuildErrorType[];
+
+/**
+ * Checks whether a caught value is a BuildManager error: an Error with a BuildErrorType `type`
+ * and, for cancelled and timed-out builds, the step the build was in
+ */
+export function isBuildError(error: unknown): error is Error & { type: BuildErrorType; step?: BuildStep } {
+  return error instanceof Error && 'type' in error && typeof error.type === 'string' && BUILD_ERROR_TYPES.includes(error.type);
+}
+
+/**
+ * Resolved build timing: sliman.json "build" > sliDevCourse.* settings > defaults
+ */
+export interface BuildTimings {
+  /** Max duration of one lecture build */
+  timeoutMs: number;
+  /** Interval of build status file polling (terminal mode, fs.watch fallback) */
+  pollIntervalMs: number;
+}
+
+/**
+ * Steps of a lecture build, in order
+ */
+export type BuildStep = 'clean' | 'build' | 'copy';
+
+/**
+ * Content of a build status file ('.sliman/build-status/{buildId}.json')
+ * written by the terminal when a lecture build enters a step ('running') and when it finishes
+ */
+export interface BuildStatus {
+  status: 'running' | 'done' | 'failed';
+  /** Current step (status 'running') */
+  step?: BuildStep;
+  /** Exit code of `slidev build` */
+  exitCode?: number;
+  /** Failure details */
+  error?: string;
+}
+
+/**
+ * Per-lecture progress reported while a course is built
+ */
+export interface LectureBuildProgress {
+  /** Lecture folder name */
+  lecture: string;
+  state: 'started' | 'succeeded' | 'failed' | 'skipped';
+  /** Number of lectures finished so far (succeeded, failed or skipped) */
+  completed: number;
+  /** Number of lectures in this course build */
+  total: number;
+  /** Failure details (state 'failed') */
+  error?: string;
+}
+
+/**
+ * Options of BuildManager.buildLecture
+ */
+export interface BuildLectureOptions {
+  /** Channel for build output (headless mode) */
+  outputChannel?: vscode.OutputChannel;
+  /** Aborting stops the build process or terminal and removes half-copied output */
+  signal?: AbortSignal;
+  /** Called when the build enters a step */
+  onStep?: (lecture: string, step: BuildStep) => void;
+}
+
+/**
+ * Options of BuildManager.buildCourse
+ */
+export interface BuildCourseOptions extends BuildLectureOptions {
+  /** Called when a lecture starts, succeeds, fails or is skipped */
+  onProgress?: (progress: LectureBuildProgress) => void;
+  /** Rebuild every lecture, ignoring the build manifest */
+  force?: boolean;
+}
+
+/**
+ * Outcome of one lecture in a course build
+ */
+export type LectureBuildOutcome = 'succeeded' | 'failed' | 'skipped';
+
+/**
+ * Result of one lecture in a course build
+ */
+export interface LectureBuildResult {
+  /** Lecture folder name */
+  lecture: string;
+  outcome: LectureBuildOutcome;
+  /** Build duration (0 for skipped lectures) */
+  durationMs: number;
+  /** Why the lecture failed or was skipped */
+  message?: string;
+  /** Build log ('.sliman/logs/{lecture}.log'); absent when the lecture was not built */
+  logFile?: string;
+}
+
+/**
+ * Result of BuildManager.buildCourse
+ */
+export interface CourseBuildReport {
+  /** Per-lecture results in lecture order */
+  results: LectureBuildResult[];
+  /** True when `sliDevCourse.failFast` stopped the build after a failure */
+  stoppedEarly: boolean;
+  /** True when the build was cancelled through BuildCourseOptions.signal */
+  cancelled: boolean;
+}
+
+/**
+ * Build manifest entry of one lecture
+ */
+export interface BuildManifestEntry {
+  /** Hash of the lecture sources the output was built from */
+  hash: string;
+  /** --base the lecture was built with */
+  basePath: string;
+  /** ISO timestamp of the build */
+  builtAt: string;
+}
+
+/**
+ * Build manifest ('.sliman-build-manifest.json' in the course output directory)
+ */
+export interface BuildManifest {
+  version: number;
+  /** lectureName -> entry */
+  lectures: Record<string, BuildManifestEntry>;
+}
+
+/**
+ * `slidev export` formats: PDF, one PNG per slide, PowerPoint
+ */
+export type ExportFormat = 'pdf' | 'png' | 'pptx';
+
+/**
+ * Options of a lecture export
+ */
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Export with the dark color schema (--dark) */
+  dark?: boolean;
+  /** Export every click step as a separate page (--with-clicks) */
+  withClicks?: boolean;
+  /** Slides to export, e.g. "1,3-5" (--range) */
+  range?: string;
+}
+
+/**
+ * Run options of ExportManager exports
+ */
+export interface ExportRunOptions {
+  /** Channel for `slidev export` output */
+  outputChannel?: vscode.OutputChannel;
+  /** Aborting kills the export process */
+  signal?: AbortSignal;
+  /** Called when a lecture export starts (course export) */
+  onLecture?: (lecture: string, index: number, total: number) => void;
+}
+
+/**
+ * Result of one lecture in a course export
+ */
+export interface LectureExportResult {
+  lecture: string;
+  /** Exported file (or PNG directory) when the export succeeded */
+  outputPath?: string;
+  /** Failure details */
+  error?: string;
+}
+
+/**
+ * Title of a lecture changed in slides.json to match slides.md
+ */
+export interface LectureTitleChange {
+  lecture: string;
+  /** Title previously stored in slides.json */
+  from: string;
+  /** Title from slides.md frontmatter */
+  to: string;
+}
+
+/**
+ * Result of reconciling slides.json with the lecture folders
+ */
+export interface CourseMetadataSyncResult {
+  /** Titles updated from slides.md */
+  titleChanges: LectureTitleChange[];
+  /** Lecture folders added to slides.json (they were missing) */
+  added: string[];
+  /** slides.json entries without a lecture folder (reported, not removed) */
+  orphaned: string[];
+}
+
+/**
+ * Kinds of course consistency problems found by `sliman.doctor`
+ * - `orphaned-entry` — slides.json entry without a lecture folder
+ * - `missing-entry` — lecture folder without a slides.json entry
+ * - `orphaned-build` — built lecture in the output directory without a source folder
+ * - `reserved-lecture-name` — lecture named like the exports folder (it would be built into it)
+ * - `missing-node-modules`, `missing-global-top`, `missing-courser` — incomplete lecture folder
+ */
+export type CourseProblemKind =
+  | 'orphaned-entry'
+  | 'missing-entry'
+  | 'orphaned-build'
+  | 'reserved-lecture-name'
+  | 'missing-node-modules'
+  | 'missing-global-top'
+  | 'missing-courser';
+
+/**
+ * One course consistency problem with its fix
+ */
+export interface CourseProblem {
+  kind: CourseProblemKind;
+  /** Lecture (or built folder) name */
+  lecture: string;
+  /** What is wrong */
+  message: string;
+  /** What the fix does */
+  fixLabel: string;
+  /** Fix deletes files and should be confirmed explicitly */
+  destructive?: boolean;
+}
+
+/**
+ * Layout a new lecture is created from (LectureManager.getLectureTemplates)
+ */
+export interface LectureTemplate {
+  /** Template folder name, shown in the Add Lecture QuickPick */
+  name: string;
+  /** Template folder (.sliman/templates/{name}/); null for the bundled default (template/slides.md) */
+  dir: vscode.Uri | null;
 }
 
 /**
- * Slides configuration stored in {course_name}/slides.json
+ * Slides configuration stored in slides.json (course root; builds copy it to the output directory)
  * Contains slides array only (course_name moved to sliman.json)
  */
 export interface SlidesConfig {
+  /** JSON schema reference (the course copy in .sliman/schemas/, added when the extension writes the file) */
+  $schema?: string;
   slides: LectureInfo[];
 }
 
 /**
  * Combined course data for display purposes
- * course_name is read from sliman.json, slides from {course_name}/slides.json
+ * course_name is read from sliman.json, slides from slides.json
  */
 export interface CourseData {
   courseName: string | null;
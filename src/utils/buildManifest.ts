@@ -0,0 +1,87 @@
+/**
+ * Build Manifest - Content hashes of built lectures for incremental course builds
+ *
+ * The manifest lives in the course output directory ({courseName}/ or built/),
+ * so deleting the output also invalidates every cached lecture.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BUILD_MANIFEST_FILENAME } from '../constants';
+import type { BuildManifest } from '../types';
+
+/** Manifest format version, bumped when hashing inputs change */
+export const BUILD_MANIFEST_VERSION = 1;
+
+/** Lecture entries never hashed: dependencies and build outputs */
+const IGNORED_ENTRIES = new Set(['node_modules', 'dist']);
+
+/**
+ * Hashes the build inputs of a lecture: slides.md, package.json, components/,
+ * public/ and every other source file in the lecture directory.
+ * node_modules, dist and dot-entries (.slidev, .vite, ...) are skipped.
+ * @param lecturePath - Absolute path of the lecture directory
+ * @returns Hex SHA-256 over relative file paths and contents
+ */
+export async function hashLectureSources(lecturePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+
+  const walk = async (dirPath: string, relativeDir: string): Promise<void> => {
+    const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.') || IGNORED_ENTRIES.has(entry.name)) {
+        continue;
+      }
+
+      const entryPath = path.join(dirPath, entry.name);
+      // Forward slashes keep hashes identical across platforms
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        await walk(entryPath, relativePath);
+      } else if (entry.isFile()) {
+        hash.update(`${relativePath}\0`);
+        hash.update(new Uint8Array(await fs.promises.readFile(entryPath)));
+        hash.update('\0');
+      }
+    }
+  };
+
+  await walk(lecturePath, '');
+  return hash.digest('hex');
+}
+
+/**
+ * Reads the build manifest of an output directory.
+ * A missing, unreadable or outdated manifest yields an empty one (everything is rebuilt).
+ * @param outputDir - Absolute path of the course output directory
+ */
+export async function readBuildManifest(outputDir: string): Promise<BuildManifest> {
+  try {
+    const content = await fs.promises.readFile(path.join(outputDir, BUILD_MANIFEST_FILENAME), 'utf-8');
+    const manifest = JSON.parse(content) as BuildManifest;
+    if (manifest.version === BUILD_MANIFEST_VERSION && manifest.lectures && typeof manifest.lectures === 'object') {
+      return manifest;
+    }
+  } catch {
+    // No manifest yet or invalid JSON
+  }
+  return { version: BUILD_MANIFEST_VERSION, lectures: {} };
+}
+
+/**
+ * Writes the build manifest into an output directory.
+ * @param outputDir - Absolute path of the course output directory
+ * @param manifest - Manifest to write
+ */
+export async function writeBuildManifest(outputDir: string, manifest: BuildManifest): Promise<void> {
+  await fs.promises.mkdir(outputDir, { recursive: true });
+  await fs.promises.writeFile(
+    path.join(outputDir, BUILD_MANIFEST_FILENAME),
+    JSON.stringify(manifest, null, 2) + '\n',
+    'utf-8'
+  );
+}
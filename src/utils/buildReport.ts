@@ -0,0 +1,85 @@
+/**
+ * Build Report - Formats course build results for the output channel and notifications
+ */
+
+import type { CourseBuildReport, LectureBuildOutcome, LectureBuildResult } from '../types';
+
+/** Result column labels */
+const OUTCOME_LABELS: Record<LectureBuildOutcome, string> = {
+  succeeded: '✓ built',
+  failed: '✗ failed',
+  skipped: '= skipped',
+};
+
+/**
+ * Counts lectures per outcome
+ * @param report - Course build report
+ * @returns Number of succeeded, failed and skipped lectures
+ */
+export function countBuildOutcomes(report: CourseBuildReport): Record<LectureBuildOutcome, number> {
+  const counts: Record<LectureBuildOutcome, number> = { succeeded: 0, failed: 0, skipped: 0 };
+  for (const result of report.results) {
+    counts[result.outcome]++;
+  }
+  return counts;
+}
+
+/**
+ * Formats a duration as seconds with one decimal ("12.3s"), or "-" when nothing ran
+ */
+function formatDuration(result: LectureBuildResult): string {
+  return result.outcome === 'skipped' ? '-' : `${(result.durationMs / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Formats the report as a plain-text table, one line per lecture.
+ * Log paths are printed as-is so the output channel makes them clickable.
+ * @param report - Course build report
+ * @returns Table lines (header, separator, rows, totals)
+ */
+export function formatBuildReportTable(report: CourseBuildReport): string[] {
+  const rows = report.results.map((result) => [
+    result.lecture,
+    OUTCOME_LABELS[result.outcome],
+    formatDuration(result),
+    [result.message, result.logFile].filter(Boolean).join(' — '),
+  ]);
+  const header = ['Lecture', 'Result', 'Time', 'Details / log'];
+
+  // The last column is not padded
+  const widths = header.slice(0, -1).map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const formatRow = (row: string[]): string =>
+    row.map((cell, column) => (column < widths.length ? cell.padEnd(widths[column]) : cell)).join(' | ').trimEnd();
+
+  const counts = countBuildOutcomes(report);
+  const lines = [
+    formatRow(header),
+    widths.map((width) => '-'.repeat(width)).join('-+-') + '-+-' + '-'.repeat(header[header.length - 1].length),
+    ...rows.map(formatRow),
+    `Succeeded: ${counts.succeeded}, failed: ${counts.failed}, skipped: ${counts.skipped}`,
+  ];
+
+  if (report.stoppedEarly) {
+    lines.push('Build stopped after the first failure (sliDevCourse.failFast)');
+  }
+  if (report.cancelled) {
+    lines.push('Build was cancelled');
+  }
+  return lines;
+}
+
+/**
+ * Builds the one-line notification text of a report
+ * @param report - Course build report
+ * @returns Summary listing failed lectures by name
+ */
+export function summarizeBuildReport(report: CourseBuildReport): string {
+  const counts = countBuildOutcomes(report);
+  const title = report.cancelled ? 'Course build cancelled' : 'Course build';
+  const summary = `${title}: ${counts.succeeded} built, ${counts.failed} failed, ${counts.skipped} skipped`;
+
+  const failed = report.results.filter((result) => result.outcome === 'failed').map((result) => result.lecture);
+  return failed.length > 0 ? `${summary}. Failed: ${failed.join(', ')}` : summary;
+}
@@ -0,0 +1,190 @@
+/**
+ * Completion Watcher - Detects terminal build completion through its status file
+ *
+ * Terminal builds signal progress and completion by writing a JSON status file
+ * ('.sliman/build-status/{buildId}.json'). The watcher reacts to file system events
+ * (fs.watch on the status directory) and only polls when fs.watch is unavailable.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { BuildStatus } from '../types';
+
+/**
+ * How a watched build ended
+ * - `finished` — the status file reported 'done' or 'failed'
+ * - `timeout` — no final status within the timeout (with the last 'running' status, if any)
+ * - `terminal-closed` — the build terminal was closed
+ * - `aborted` — the abort signal fired
+ */
+export type CompletionOutcome =
+  | { kind: 'finished'; status: BuildStatus }
+  | { kind: 'timeout'; lastStatus: BuildStatus | null }
+  | { kind: 'terminal-closed' }
+  | { kind: 'aborted'; lastStatus: BuildStatus | null };
+
+/**
+ * Options of BuildCompletionWatcher
+ */
+export interface CompletionWatcherOptions {
+  /** Status file written by the build */
+  statusFilePath: string;
+  /** Max wait for a final status */
+  timeoutMs: number;
+  /** Interval of status file checks when polling */
+  pollIntervalMs: number;
+  /** Terminal running the build; closing it ends the wait */
+  terminal?: vscode.Terminal;
+  /** Aborting ends the wait */
+  signal?: AbortSignal;
+  /** Called for every intermediate ('running') status */
+  onStatus?: (status: BuildStatus) => void;
+  /** 'watch' (default) uses fs.watch with polling as fallback; 'poll' always polls */
+  mode?: 'watch' | 'poll';
+}
+
+/**
+ * Waits for one build status file to report completion.
+ * Every exit path (finished, timeout, terminal closed, aborted, dispose) releases
+ * the file watcher, timers, terminal listener and abort listener.
+ */
+export class BuildCompletionWatcher implements vscode.Disposable {
+  private fsWatcher: fs.FSWatcher | null = null;
+  private pollHandle: NodeJS.Timeout | null = null;
+  private timeoutHandle: NodeJS.Timeout | null = null;
+  private closeListener: vscode.Disposable | null = null;
+  private settled = false;
+  private lastStatus: BuildStatus | null = null;
+  private resolveOutcome: ((outcome: CompletionOutcome) => void) | null = null;
+  private readonly onAbort = (): void => this.finish({ kind: 'aborted', lastStatus: this.readStatus() ?? this.lastStatus });
+
+  constructor(private readonly options: CompletionWatcherOptions) {}
+
+  /**
+   * Starts watching and resolves with the outcome. Never rejects.
+   * Must be called once per watcher.
+   */
+  wait(): Promise<CompletionOutcome> {
+    return new Promise((resolve) => {
+      this.resolveOutcome = resolve;
+      const { signal, terminal, timeoutMs } = this.options;
+
+      if (signal?.aborted) {
+        this.onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', this.onAbort, { once: true });
+
+      if (terminal) {
+        this.closeListener = vscode.window.onDidCloseTerminal((closed) => {
+          if (closed === terminal) {
+            this.finish({ kind: 'terminal-closed' });
+          }
+        });
+      }
+
+      this.timeoutHandle = setTimeout(() => this.finish({ kind: 'timeout', lastStatus: this.readStatus() ?? this.lastStatus }), timeoutMs);
+
+      if (this.options.mode === 'poll' || !this.startFsWatch()) {
+        this.startPolling();
+      }
+
+      // The file may have been written before watching started
+      this.check();
+    });
+  }
+
+  /**
+   * Stops watching without resolving a pending wait().
+   */
+  dispose(): void {
+    this.settled = true;
+    this.release();
+  }
+
+  /**
+   * Watches the status directory. Returns false when fs.watch is not available.
+   */
+  private startFsWatch(): boolean {
+    const statusDir = path.dirname(this.options.statusFilePath);
+    const statusFileName = path.basename(this.options.statusFilePath);
+
+    try {
+      this.fsWatcher = fs.watch(statusDir, (_event, fileName) => {
+        // fileName may be missing on some platforms — check anyway
+        if (!fileName || fileName.toString() === statusFileName) {
+          this.check();
+        }
+      });
+    } catch {
+      return false;
+    }
+
+    // Watcher broke (directory removed, unsupported file system) — fall back to polling
+    this.fsWatcher.on('error', () => {
+      this.fsWatcher?.close();
+      this.fsWatcher = null;
+      if (!this.settled) {
+        this.startPolling();
+      }
+    });
+    return true;
+  }
+
+  private startPolling(): void {
+    if (!this.pollHandle) {
+      this.pollHandle = setInterval(() => this.check(), this.options.pollIntervalMs);
+    }
+  }
+
+  /**
+   * Reads the status file, reports 'running' statuses and finishes on a final one.
+   */
+  private check(): void {
+    if (this.settled) return;
+
+    const status = this.readStatus();
+    if (!status) return;
+
+    if (status.status === 'running') {
+      if (status.step !== this.lastStatus?.step) {
+        this.lastStatus = status;
+        this.options.onStatus?.(status);
+      }
+      return;
+    }
+
+    this.finish({ kind: 'finished', status });
+  }
+
+  /**
+   * Reads the status file, or null if it is missing or partially written.
+   */
+  private readStatus(): BuildStatus | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.options.statusFilePath, 'utf-8')) as BuildStatus;
+    } catch {
+      return null;
+    }
+  }
+
+  private finish(outcome: CompletionOutcome): void {
+    if (this.settled) return;
+    this.settled = true;
+    this.release();
+    this.resolveOutcome?.(outcome);
+  }
+
+  private release(): void {
+    this.fsWatcher?.close();
+    this.fsWatcher = null;
+    if (this.pollHandle) clearInterval(this.pollHandle);
+    this.pollHandle = null;
+    if (this.timeoutHandle) clearTimeout(this.timeoutHandle);
+    this.timeoutHandle = null;
+    this.closeListener?.dispose();
+    this.closeListener = null;
+    this.options.signal?.removeEventListener('abort', this.onAbort);
+  }
+}
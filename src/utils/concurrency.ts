@@ -0,0 +1,44 @@
+/**
+ * Concurrency helpers - Runs async work with a bounded number of workers
+ */
+
+/**
+ * Runs a worker over all items with at most `limit` items in flight.
+ *
+ * Each of the `limit` workers gets a stable slot index (0..limit-1), so callers can
+ * bind per-slot resources such as terminals. A rejected item does not stop the
+ * others: every item is settled before the returned promise resolves.
+ *
+ * @param items - Items to process (processed in order of the array)
+ * @param limit - Maximum number of items processed at the same time (at least 1)
+ * @param worker - Async function called for each item with its worker slot
+ * @returns Settled results in the order of `items`
+ */
+export async function runWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, slot: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  const slotCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  let nextIndex = 0;
+
+  const runSlot = async (slot: number): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], slot) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const slots: Promise<void>[] = [];
+  for (let slot = 0; slot < slotCount; slot++) {
+    slots.push(runSlot(slot));
+  }
+  await Promise.all(slots);
+
+  return results;
+}
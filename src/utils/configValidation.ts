@@ -0,0 +1,298 @@
+/**
+ * Config Validation - Checks sliman.json and slides.json and proposes quick fixes
+ *
+ * Validators work on the raw text (see jsonLocator.ts), so every issue carries the
+ * exact offset of the offending key or value. Fixes are plain text edits that the
+ * diagnostics provider turns into code actions.
+ */
+
+import { findProperty, parseJsonWithLocations } from './jsonLocator';
+import type { JsonNode } from './jsonLocator';
+import { generateLectureFolderName, isValidFolderName } from './translit';
+import { isValidBasePath, normalizeOutputDir, suggestBasePath } from './outputLayout';
+
+/**
+ * Replacement of a text range
+ */
+export interface TextEdit {
+  offset: number;
+  length: number;
+  newText: string;
+}
+
+/**
+ * Quick fix of an issue
+ */
+export interface ConfigFix {
+  title: string;
+  edits: TextEdit[];
+}
+
+/**
+ * Codes of config issues (used as diagnostic codes)
+ */
+export type ConfigIssueCode =
+  | 'invalid-json'
+  | 'not-an-object'
+  | 'missing-course-name'
+  | 'invalid-course-name'
+  | 'invalid-deploy-root'
+  | 'invalid-output-dir'
+  | 'invalid-base-path'
+  | 'missing-slides'
+  | 'invalid-lecture-entry'
+  | 'duplicate-lecture'
+  | 'invalid-lecture-name'
+  | 'reserved-lecture-name'
+  | 'missing-lecture-folder';
+
+/**
+ * One problem in a config file
+ */
+export interface ConfigIssue {
+  code: ConfigIssueCode;
+  message: string;
+  severity: 'error' | 'warning';
+  offset: number;
+  length: number;
+  fixes: ConfigFix[];
+}
+
+/**
+ * Validates sliman.json: course_name must be a non-empty string, deployRoot a boolean,
+ * outputDir a folder inside the course root, basePath a URL path with leading and trailing slashes
+ * @param text - sliman.json content
+ * @param defaultCourseName - Course name offered by the "add course_name" fix
+ * @returns Issues in document order
+ */
+export function validateSlimanJson(text: string, defaultCourseName: string): ConfigIssue[] {
+  const root = parseRoot(text);
+  if (!isNode(root)) {
+    return [root];
+  }
+
+  const issues: ConfigIssue[] = [];
+  const courseName = findProperty(root, 'course_name');
+  if (!courseName) {
+    issues.push({
+      code: 'missing-course-name',
+      message: "Missing required field 'course_name'",
+      severity: 'error',
+      offset: root.offset,
+      length: 1,
+      fixes: [{ title: `Add "course_name": "${defaultCourseName}"`, edits: [insertProperty(text, root, 'course_name', JSON.stringify(defaultCourseName))] }],
+    });
+  } else if (courseName.value.type !== 'string' || courseName.value.value.trim() === '') {
+    issues.push({
+      code: 'invalid-course-name',
+      message: "'course_name' must be a non-empty string",
+      severity: 'error',
+      offset: courseName.value.offset,
+      length: courseName.value.length,
+      fixes: [{ title: `Set "course_name" to "${defaultCourseName}"`, edits: [replaceNode(courseName.value, JSON.stringify(defaultCourseName))] }],
+    });
+  }
+
+  const deployRoot = findProperty(root, 'deployRoot');
+  if (deployRoot && deployRoot.value.type !== 'boolean') {
+    const value = deployRoot.value;
+    // "true" or 1 was probably meant as true
+    const likelyTrue = (value.type === 'string' && value.value.trim().toLowerCase() === 'true') || (value.type === 'number' && value.value !== 0);
+    issues.push({
+      code: 'invalid-deploy-root',
+      message: "'deployRoot' must be true or false",
+      severity: 'error',
+      offset: value.offset,
+      length: value.length,
+      fixes: (likelyTrue ? ['true', 'false'] : ['false', 'true']).map((literal) => ({
+        title: `Set "deployRoot" to ${literal}`,
+        edits: [replaceNode(value, literal)],
+      })),
+    });
+  }
+
+  const outputDir = findProperty(root, 'outputDir');
+  if (outputDir && (outputDir.value.type !== 'string' || normalizeOutputDir(outputDir.value.value) === null)) {
+    issues.push({
+      code: 'invalid-output-dir',
+      message: "'outputDir' must be a folder path inside the course root (not slides/ or .sliman/)",
+      severity: 'error',
+      offset: outputDir.value.offset,
+      length: outputDir.value.length,
+      fixes: [],
+    });
+  }
+
+  const basePath = findProperty(root, 'basePath');
+  if (basePath && !isValidBasePath(basePath.value.type === 'string' ? basePath.value.value : null)) {
+    const value = basePath.value;
+    const suggested = value.type === 'string' ? suggestBasePath(value.value) : null;
+    issues.push({
+      code: 'invalid-base-path',
+      message: "'basePath' must be a URL path that starts and ends with '/' and contains only letters, digits and . _ ~ - between slashes, e.g. \"/~staff/course/\"",
+      severity: 'error',
+      offset: value.offset,
+      length: value.length,
+      fixes: suggested ? [{ title: `Change "basePath" to "${suggested}"`, edits: [replaceNode(value, JSON.stringify(suggested))] }] : [],
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Validates slides.json: a 'slides' array of { name, title } entries with unique,
+ * valid folder names that exist in slides/ and do not clash with the exports directory
+ * @param text - slides.json content
+ * @param lectureFolders - Lecture folders found in slides/ (with slides.md)
+ * @param reservedName - Lecture name taken by the exports directory (getReservedLectureName)
+ * @returns Issues in document order
+ */
+export function validateSlidesJson(text: string, lectureFolders: string[], reservedName?: string): ConfigIssue[] {
+  const root = parseRoot(text);
+  if (!isNode(root)) {
+    return [root];
+  }
+
+  const slides = findProperty(root, 'slides');
+  if (!slides || slides.value.type !== 'array') {
+    return [{
+      code: 'missing-slides',
+      message: "'slides' must be an array of lectures",
+      severity: 'error',
+      offset: slides ? slides.value.offset : root.offset,
+      length: slides ? slides.value.length : 1,
+      fixes: slides ? [] : [{ title: 'Add "slides": []', edits: [insertProperty(text, root, 'slides', '[]')] }],
+    }];
+  }
+
+  const issues: ConfigIssue[] = [];
+  const entries = slides.value.items;
+  const seen = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    const removeFix: ConfigFix = { title: 'Remove this entry from slides.json', edits: [removeArrayItem(entries, index)] };
+    const name = findProperty(entry, 'name');
+
+    if (entry.type !== 'object' || !name || name.value.type !== 'string') {
+      issues.push({
+        code: 'invalid-lecture-entry',
+        message: "Lecture entry must be an object with string 'name' and 'title'",
+        severity: 'error',
+        offset: name ? name.value.offset : entry.offset,
+        length: name ? name.value.length : entry.length,
+        fixes: [removeFix],
+      });
+      return;
+    }
+
+    const lecture = name.value.value;
+    const location = { offset: name.value.offset, length: name.value.length };
+
+    if (seen.has(lecture)) {
+      issues.push({ code: 'duplicate-lecture', message: `Duplicate lecture "${lecture}"`, severity: 'error', ...location, fixes: [removeFix] });
+      return;
+    }
+    seen.add(lecture);
+
+    if (!isValidFolderName(lecture)) {
+      const suggested = generateLectureFolderName(lecture);
+      const fixes = [removeFix];
+      if (suggested && isValidFolderName(suggested) && lectureFolders.includes(suggested)) {
+        fixes.unshift({ title: `Change name to "${suggested}"`, edits: [replaceNode(name.value, JSON.stringify(suggested))] });
+      }
+      issues.push({
+        code: 'invalid-lecture-name',
+        message: `Invalid lecture name "${lecture}". Use only Latin letters, numbers, and hyphens`,
+        severity: 'error',
+        ...location,
+        fixes,
+      });
+    } else if (lecture === reservedName) {
+      issues.push({
+        code: 'reserved-lecture-name',
+        message: `Lecture "${lecture}" would be built into the exports folder. Rename the lecture or change sliDevCourse.exportsDir`,
+        severity: 'error',
+        ...location,
+        fixes: [],
+      });
+    } else if (!lectureFolders.includes(lecture)) {
+      issues.push({
+        code: 'missing-lecture-folder',
+        message: `Lecture folder slides/${lecture} (with slides.md) does not exist`,
+        severity: 'warning',
+        ...location,
+        fixes: [removeFix],
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Parses the text and checks that the root is an object
+ * @returns Root object node, or the issue describing why there is none
+ */
+function parseRoot(text: string): JsonNode | ConfigIssue {
+  const parsed = parseJsonWithLocations(text);
+  if (parsed.error) {
+    return {
+      code: 'invalid-json',
+      message: `Invalid JSON: ${parsed.error.message}`,
+      severity: 'error',
+      offset: parsed.error.offset,
+      length: 1,
+      fixes: [],
+    };
+  }
+  if (parsed.root.type !== 'object') {
+    return {
+      code: 'not-an-object',
+      message: 'Expected a JSON object',
+      severity: 'error',
+      offset: parsed.root.offset,
+      length: parsed.root.length,
+      fixes: [],
+    };
+  }
+  return parsed.root;
+}
+
+function isNode(value: JsonNode | ConfigIssue): value is JsonNode {
+  return 'type' in value;
+}
+
+function replaceNode(node: JsonNode, newText: string): TextEdit {
+  return { offset: node.offset, length: node.length, newText };
+}
+
+/**
+ * Inserts a property as the first one of an object, matching the file's indentation
+ */
+function insertProperty(text: string, object: JsonNode, key: string, valueText: string): TextEdit {
+  const isEmpty = object.type === 'object' && object.properties.length === 0;
+  const nextLine = /\n([ \t]*)\S/.exec(text.slice(object.offset + 1));
+  const indent = nextLine && !isEmpty ? nextLine[1] : '  ';
+  const newText = `\n${indent}${JSON.stringify(key)}: ${valueText}${isEmpty ? '\n' : ','}`;
+  return { offset: object.offset + 1, length: 0, newText };
+}
+
+/**
+ * Removes an array item together with one neighbouring comma
+ */
+function removeArrayItem(items: JsonNode[], index: number): TextEdit {
+  const item = items[index];
+  if (items.length === 1) {
+    return { offset: item.offset, length: item.length, newText: '' };
+  }
+  if (index < items.length - 1) {
+    // Remove from the item start to the start of the next item
+    const next = items[index + 1];
+    return { offset: item.offset, length: next.offset - item.offset, newText: '' };
+  }
+  // Last item: remove from the end of the previous item
+  const previous = items[index - 1];
+  const start = previous.offset + previous.length;
+  return { offset: start, length: item.offset + item.length - start, newText: '' };
+}
@@ -0,0 +1,83 @@
+/**
+ * Course Roots - Discovery of courses inside a workspace folder
+ *
+ * By default the workspace folder itself is the course (sliman.json at its root).
+ * In a monorepo `sliDevCourse.courseRoot` lists course folders relative to the
+ * workspace folder — paths or globs, e.g. "courses/*" or ["courses/algorithms", "extra/*"].
+ * Every matching folder with sliman.json becomes a course.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CONFIG_SECTION, CONFIG_COURSE_ROOT, SLIMAN_FILENAME } from '../constants';
+
+/** Folders never searched for courses */
+const COURSE_SEARCH_EXCLUDE = '**/{node_modules,.git}/**';
+
+/**
+ * Normalizes the `sliDevCourse.courseRoot` value into a list of relative patterns.
+ * Absolute paths and patterns leaving the workspace folder are dropped.
+ * @param value - Setting value (string, list of strings or anything else)
+ * @returns Patterns with forward slashes, without './' prefix and trailing '/';
+ *   empty when the workspace folder itself is the course
+ */
+export function normalizeCourseRootPatterns(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  const patterns = values
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => path.posix.normalize(item.trim().replace(/\\/g, '/')).replace(/\/+$/, ''))
+    .filter((item) => item !== '' && item !== '.' && !path.posix.isAbsolute(item) && !/^[a-zA-Z]:/.test(item))
+    .filter((item) => item !== '..' && !item.startsWith('../'));
+  return [...new Set(patterns)];
+}
+
+/**
+ * Builds the glob matching sliman.json of the course folders of a pattern
+ * @param pattern - Normalized course root pattern (e.g. 'courses/*')
+ * @returns Glob of sliman.json files relative to the workspace folder
+ */
+export function toSlimanGlob(pattern: string): string {
+  return `${pattern}/${SLIMAN_FILENAME}`;
+}
+
+/**
+ * Checks whether a workspace folder is configured as a monorepo (`sliDevCourse.courseRoot` is set)
+ * @param folder - Workspace folder
+ */
+export function isMonorepoFolder(folder: vscode.WorkspaceFolder): boolean {
+  return normalizeCourseRootPatterns(readCourseRootSetting(folder)).length > 0;
+}
+
+/**
+ * Finds the course roots of a workspace folder
+ * @param folder - Workspace folder
+ * @returns Folders containing sliman.json, sorted by path
+ */
+export async function findCourseRoots(folder: vscode.WorkspaceFolder): Promise<vscode.Uri[]> {
+  const patterns = normalizeCourseRootPatterns(readCourseRootSetting(folder));
+
+  // Default: the workspace folder itself
+  if (patterns.length === 0) {
+    try {
+      await vscode.workspace.fs.stat(vscode.Uri.joinPath(folder.uri, SLIMAN_FILENAME));
+      return [folder.uri];
+    } catch {
+      return [];
+    }
+  }
+
+  const roots = new Map<string, vscode.Uri>();
+  for (const glob of patterns.map(toSlimanGlob)) {
+    const files = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, glob), COURSE_SEARCH_EXCLUDE);
+    for (const file of files) {
+      const root = vscode.Uri.joinPath(file, '..');
+      roots.set(root.toString(), root);
+    }
+  }
+
+  return [...roots.values()].sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+}
+
+function readCourseRootSetting(folder: vscode.WorkspaceFolder): unknown {
+  return vscode.workspace.getConfiguration(CONFIG_SECTION, folder.uri).get<unknown>(CONFIG_COURSE_ROOT);
+}
@@ -0,0 +1,101 @@
+/**
+ * Export Helpers - `slidev export` command lines and export file naming
+ *
+ * Exports are stored in the exports directory inside the course output directory
+ * ({courseName}/exports/ or built/exports/), so the course index.html can link to them.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG_SECTION, CONFIG_EXPORTS_DIR, DEFAULT_EXPORTS_DIR } from '../constants';
+import type { ExportFormat, ExportOptions } from '../types';
+
+/** Display names of export formats (used in pickers and index.html links) */
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  pdf: 'PDF',
+  png: 'PNG',
+  pptx: 'PPTX',
+};
+
+/** Slide range syntax accepted by `slidev export --range`: "1,3-5,8" */
+const SLIDE_RANGE_PATTERN = /^\d+(-\d+)?(,\d+(-\d+)?)*$/;
+
+/**
+ * Checks a slide range ("1,3-5,8")
+ * @param range - Range string (spaces are ignored)
+ * @returns True if slidev accepts the range
+ */
+export function isValidSlideRange(range: string): boolean {
+  return SLIDE_RANGE_PATTERN.test(range.replace(/\s+/g, ''));
+}
+
+/**
+ * Gets the export file name of a lecture: '{lecture}.pdf', '{lecture}.pptx',
+ * or the '{lecture}-png' directory holding one PNG per slide.
+ */
+export function getExportFileName(lecture: string, format: ExportFormat): string {
+  return format === 'png' ? `${lecture}-png` : `${lecture}.${format}`;
+}
+
+/**
+ * Builds the `slidev export` command line
+ * @param options - Format and export options
+ * @param outputPath - Absolute output file (or directory for PNG)
+ * @returns Command line for ProcessHelper.execStream
+ */
+export function buildExportCommand(options: ExportOptions, outputPath: string): string {
+  const args = ['npx slidev export', `--format ${options.format}`, `--output "${outputPath}"`];
+
+  if (options.dark) {
+    args.push('--dark');
+  }
+  if (options.withClicks) {
+    args.push('--with-clicks');
+  }
+  if (options.range) {
+    args.push(`--range ${options.range.replace(/\s+/g, '')}`);
+  }
+  return args.join(' ');
+}
+
+/**
+ * Reads the exports directory name from `sliDevCourse.exportsDir`.
+ * Absolute paths and paths leaving the output directory fall back to 'exports'.
+ * @param scope - Course root (resource scope of the setting)
+ */
+export function getExportsDirName(scope: vscode.Uri): string {
+  const configured = vscode.workspace
+    .getConfiguration(CONFIG_SECTION, scope)
+    .get<string>(CONFIG_EXPORTS_DIR, DEFAULT_EXPORTS_DIR)
+    .trim();
+
+  const normalized = path.posix.normalize(configured.replace(/\\/g, '/')).replace(/\/+$/, '');
+  if (!normalized || normalized === '.' || path.posix.isAbsolute(normalized) || normalized.startsWith('..')) {
+    return DEFAULT_EXPORTS_DIR;
+  }
+  return normalized;
+}
+
+/**
+ * Gets the lecture name taken by the exports directory: its first path segment
+ * ('exports' → 'exports', 'files/exports' → 'files'). Lectures are built into
+ * {outputDir}/{lecture}, so a lecture of this name would share (and clean) the exports directory.
+ * @param exportsDirName - Exports directory relative to the output directory (getExportsDirName)
+ */
+export function getReservedLectureName(exportsDirName: string): string {
+  return exportsDirName.split('/')[0];
+}
+
+/**
+ * Lists the existing exports of a lecture
+ * @param exportsDir - Absolute exports directory
+ * @param lecture - Lecture folder name
+ * @returns Formats with their file names, in PDF / PNG / PPTX order
+ */
+export function findLectureExports(exportsDir: string, lecture: string): Array<{ format: ExportFormat; fileName: string }> {
+  const formats: ExportFormat[] = ['pdf', 'png', 'pptx'];
+  return formats
+    .map((format) => ({ format, fileName: getExportFileName(lecture, format) }))
+    .filter(({ fileName }) => fs.existsSync(path.join(exportsDir, fileName)));
+}
@@ -0,0 +1,73 @@
+/**
+ * Frontmatter Helpers - Reads and updates fields of the slides.md headmatter
+ *
+ * Only flat `key: value` lines of the first `---` block are handled, which is what
+ * lecture templates write (title, name, ...). Other lines are kept byte for byte.
+ */
+
+/** First frontmatter block; an optional BOM is allowed (templates are saved with one) */
+const FRONTMATTER_PATTERN = /^(\uFEFF?---[ \t]*\r?\n)([\s\S]*?)(\r?\n---[ \t]*(?:\r?\n|$))/;
+
+/**
+ * Formats a YAML scalar, quoting values YAML would otherwise misread
+ * @param value - Plain string value
+ * @returns Value as written after `key: `
+ */
+function formatScalar(value: string): string {
+  const needsQuotes = /^[\s'"[\]{}>|*&!%@`#,?-]|:\s|\s#|\s$/.test(value) || value === '';
+  return needsQuotes ? JSON.stringify(value) : value;
+}
+
+/**
+ * Reads a flat field of the first frontmatter block
+ * @param content - slides.md content
+ * @param key - Field name
+ * @returns Field value without surrounding quotes, or null if missing
+ */
+export function readFrontmatterField(content: string, key: string): string | null {
+  const block = content.match(FRONTMATTER_PATTERN)?.[2];
+  const line = block?.match(new RegExp(`^${key}:[ \\t]*(.*?)[ \\t]*\\r?$`, 'm'));
+  if (!line) {
+    return null;
+  }
+
+  const value = line[1];
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+/**
+ * Sets flat fields of the first frontmatter block.
+ * Existing fields are replaced in place, missing ones are appended to the block.
+ * @param content - slides.md content
+ * @param fields - Field values to set
+ * @returns Updated content
+ * @throws Error if the content has no frontmatter block
+ */
+export function updateFrontmatterFields(content: string, fields: Record<string, string>): string {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    throw new Error('No frontmatter found in slides.md');
+  }
+
+  const [whole, opening, block, closing] = match;
+  const newline = opening.endsWith('\r\n') ? '\r\n' : '\n';
+  let updated = block;
+
+  for (const [key, value] of Object.entries(fields)) {
+    const line = `${key}: ${formatScalar(value)}`;
+    const linePattern = new RegExp(`^${key}:.*?(?=\\r?$)`, 'm');
+    updated = linePattern.test(updated) ? updated.replace(linePattern, () => line) : `${updated}${newline}${line}`;
+  }
+
+  return opening + updated + closing + content.slice(whole.length);
+}
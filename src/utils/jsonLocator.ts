@@ -0,0 +1,206 @@
+/**
+ * JSON Locator - Parses JSON into a tree of values with source offsets
+ *
+ * JSON.parse loses positions, so diagnostics could only point at the whole file.
+ * This small recursive-descent parser keeps the offset and length of every value
+ * and property key, which is enough to underline the exact field in sliman.json
+ * and slides.json and to build quick-fix edits.
+ */
+
+/**
+ * Parsed JSON value with its location in the source text
+ */
+export type JsonNode =
+  | { type: 'object'; offset: number; length: number; properties: JsonProperty[] }
+  | { type: 'array'; offset: number; length: number; items: JsonNode[] }
+  | { type: 'string'; offset: number; length: number; value: string }
+  | { type: 'number'; offset: number; length: number; value: number }
+  | { type: 'boolean'; offset: number; length: number; value: boolean }
+  | { type: 'null'; offset: number; length: number; value: null };
+
+/**
+ * Object property with the location of its key
+ */
+export interface JsonProperty {
+  key: string;
+  keyOffset: number;
+  keyLength: number;
+  value: JsonNode;
+}
+
+/**
+ * Result of parseJsonWithLocations: either a root node or the first syntax error
+ */
+export type JsonParseResult =
+  | { root: JsonNode; error?: undefined }
+  | { root?: undefined; error: { message: string; offset: number } };
+
+/** Thrown inside the parser, converted into JsonParseResult.error */
+class JsonSyntaxError extends Error {
+  constructor(message: string, readonly offset: number) {
+    super(message);
+  }
+}
+
+/**
+ * Parses JSON text keeping the location of every value
+ * @param text - JSON source (a leading BOM is allowed)
+ * @returns Root node, or the first syntax error with its offset
+ */
+export function parseJsonWithLocations(text: string): JsonParseResult {
+  let pos = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const fail = (message: string, offset = pos): never => {
+    throw new JsonSyntaxError(message, offset);
+  };
+
+  const skipWhitespace = (): void => {
+    while (pos < text.length && /\s/.test(text[pos])) {
+      pos++;
+    }
+  };
+
+  const parseString = (): { value: string; offset: number; length: number } => {
+    const start = pos;
+    pos++; // opening quote
+    let value = '';
+    while (pos < text.length && text[pos] !== '"') {
+      if (text[pos] === '\\') {
+        const escape = text.slice(pos, pos + 6);
+        const simple: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+        if (escape[1] in simple) {
+          value += simple[escape[1]];
+          pos += 2;
+        } else if (/^\\u[0-9a-fA-F]{4}$/.test(escape)) {
+          value += String.fromCharCode(parseInt(escape.slice(2), 16));
+          pos += 6;
+        } else {
+          fail('Invalid escape sequence');
+        }
+      } else if (text[pos] === '\n') {
+        fail('Unterminated string', start);
+      } else {
+        value += text[pos++];
+      }
+    }
+    if (pos >= text.length) {
+      fail('Unterminated string', start);
+    }
+    pos++; // closing quote
+    return { value, offset: start, length: pos - start };
+  };
+
+  const parseValue = (): JsonNode => {
+    skipWhitespace();
+    const start = pos;
+    const char = text[pos];
+
+    if (char === '{') {
+      pos++;
+      const properties: JsonProperty[] = [];
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+        return { type: 'object', offset: start, length: pos - start, properties };
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[pos] !== '"') {
+          fail('Property name expected');
+        }
+        const key = parseString();
+        skipWhitespace();
+        if (text[pos] !== ':') {
+          fail('Colon expected');
+        }
+        pos++;
+        const value = parseValue();
+        properties.push({ key: key.value, keyOffset: key.offset, keyLength: key.length, value });
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        if (text[pos] === '}') {
+          pos++;
+          return { type: 'object', offset: start, length: pos - start, properties };
+        }
+        fail('Comma or closing brace expected');
+      }
+    }
+
+    if (char === '[') {
+      pos++;
+      const items: JsonNode[] = [];
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+        return { type: 'array', offset: start, length: pos - start, items };
+      }
+      for (;;) {
+        items.push(parseValue());
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        if (text[pos] === ']') {
+          pos++;
+          return { type: 'array', offset: start, length: pos - start, items };
+        }
+        fail('Comma or closing bracket expected');
+      }
+    }
+
+    if (char === '"') {
+      const { value, offset, length } = parseString();
+      return { type: 'string', offset, length, value };
+    }
+
+    const number = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(text.slice(pos));
+    if (number) {
+      pos += number[0].length;
+      return { type: 'number', offset: start, length: number[0].length, value: Number(number[0]) };
+    }
+
+    for (const [literal, node] of [
+      ['true', { type: 'boolean', value: true }],
+      ['false', { type: 'boolean', value: false }],
+      ['null', { type: 'null', value: null }],
+    ] as const) {
+      if (text.startsWith(literal, pos)) {
+        pos += literal.length;
+        return { ...node, offset: start, length: literal.length } as JsonNode;
+      }
+    }
+
+    return fail(pos >= text.length ? 'Unexpected end of file' : 'Value expected');
+  };
+
+  try {
+    const root = parseValue();
+    skipWhitespace();
+    if (pos < text.length) {
+      fail('End of file expected');
+    }
+    return { root };
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) {
+      return { error: { message: error.message, offset: error.offset } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Finds a property of an object node
+ * @param node - Object node
+ * @param key - Property name
+ * @returns The last property with this key (JSON.parse semantics), or undefined
+ */
+export function findProperty(node: JsonNode, key: string): JsonProperty | undefined {
+  if (node.type !== 'object') {
+    return undefined;
+  }
+  return node.properties.filter((property) => property.key === key).pop();
+}
@@ -0,0 +1,69 @@
+/**
+ * Lecture Order - Canonical lecture order of a course
+ *
+ * slides.json lists lectures in course order. That order drives the Course Explorer,
+ * index.html and the in-slide navigation (Courser.vue), and is changed by drag and drop
+ * and the Move Up / Move Down commands.
+ */
+
+/**
+ * Orders lecture folders by slides.json.
+ * Folders missing from slides.json follow in alphabetical order.
+ * @param directories - Lecture folder names found in slides/
+ * @param order - Lecture names in slides.json order
+ * @returns Folder names in course order
+ */
+export function sortByLectureOrder(directories: string[], order: string[]): string[] {
+  const position = new Map(order.map((name, index) => [name, index]));
+  const listed = directories.filter((name) => position.has(name));
+  const unlisted = directories.filter((name) => !position.has(name));
+
+  listed.sort((a, b) => (position.get(a) ?? 0) - (position.get(b) ?? 0));
+  return [...listed, ...unlisted.sort()];
+}
+
+/**
+ * Moves lectures to the position of a target lecture (drag and drop semantics:
+ * dragged lectures take the target's place, keeping their relative order).
+ * @param order - Current lecture order
+ * @param moved - Lectures to move
+ * @param target - Lecture dropped onto; undefined moves to the end
+ * @returns New lecture order (the same order if nothing moves)
+ */
+export function moveLectures(order: string[], moved: string[], target?: string): string[] {
+  const movedSet = new Set(moved.filter((name) => order.includes(name)));
+  if (movedSet.size === 0 || (target !== undefined && movedSet.has(target))) {
+    return [...order];
+  }
+
+  const remaining = order.filter((name) => !movedSet.has(name));
+  const block = order.filter((name) => movedSet.has(name));
+
+  if (target === undefined || !order.includes(target)) {
+    return [...remaining, ...block];
+  }
+
+  // Dropping downwards lands after the target, upwards before it
+  const movingDown = order.indexOf(block[0]) < order.indexOf(target);
+  const insertAt = remaining.indexOf(target) + (movingDown ? 1 : 0);
+  return [...remaining.slice(0, insertAt), ...block, ...remaining.slice(insertAt)];
+}
+
+/**
+ * Moves one lecture up or down by one position.
+ * @param order - Current lecture order
+ * @param name - Lecture to move
+ * @param offset - -1 moves up, 1 moves down
+ * @returns New lecture order (unchanged at the edges)
+ */
+export function shiftLecture(order: string[], name: string, offset: -1 | 1): string[] {
+  const index = order.indexOf(name);
+  const swapWith = index + offset;
+  if (index < 0 || swapWith < 0 || swapWith >= order.length) {
+    return [...order];
+  }
+
+  const result = [...order];
+  [result[index], result[swapWith]] = [result[swapWith], result[index]];
+  return result;
+}
@@ -0,0 +1,49 @@
+/**
+ * Lecture Templates - Layouts a new lecture is created from
+ *
+ * A template is a folder with slides.md ({{TITLE}} and {{NAME}} are filled in) and any other
+ * lecture files (components/, public/, global-top.vue, ...), copied as they are and replacing
+ * the defaults. Its package.json is an overlay merged into the generated package.json.
+ * Course templates live in .sliman/templates/{name}/ (LectureManager.getLectureTemplates).
+ */
+
+import { LECTURE_DIST_DIR } from '../constants';
+
+/** Template entries that are never copied into a lecture */
+export const SKIPPED_TEMPLATE_ENTRIES = ['node_modules', LECTURE_DIST_DIR, '.slidev'];
+
+/** package.json fields merged entry by entry (other fields of the overlay replace the generated ones) */
+const MERGED_PACKAGE_FIELDS = ['scripts', 'dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+/**
+ * Fills the placeholders of a template slides.md
+ * @param content - Template slides.md
+ * @param name - Lecture folder name ({{NAME}})
+ * @param title - Lecture title ({{TITLE}})
+ */
+export function fillSlidesTemplate(content: string, name: string, title: string): string {
+  return content.replace(/{{TITLE}}/g, title).replace(/{{NAME}}/g, name);
+}
+
+/**
+ * Merges the package.json overlay of a template into the generated lecture package.json
+ * @param base - Generated package.json
+ * @param overlay - package.json of the template
+ * @returns Merged package.json (the arguments are not changed)
+ * @example mergePackageJson({ dependencies: { vue: '^3' } }, { dependencies: { katex: '^0.16' } })
+ *   → { dependencies: { vue: '^3', katex: '^0.16' } }
+ */
+export function mergePackageJson(base: Record<string, unknown>, overlay: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [field, value] of Object.entries(overlay)) {
+    const current = merged[field];
+    merged[field] = MERGED_PACKAGE_FIELDS.includes(field) && isPlainObject(current) && isPlainObject(value)
+      ? { ...current, ...value }
+      : value;
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,141 @@
+/**
+ * Output Layout - Where a course is built to and which URL it is served under
+ *
+ * Deploy modes:
+ * - subdir deploy (deployRoot: false): output in {courseName}/, served under /{courseName}/
+ * - root deploy (deployRoot: true): output in built/, served under /
+ * sliman.json `outputDir` replaces the output folder in both modes (the URL is unchanged),
+ * sliman.json `basePath` replaces the URL prefix in both modes (e.g. /~staff/altman/2026/web/).
+ *
+ * CourseManager.getOutputLayout turns these names into URIs; nothing else should
+ * derive output paths from the deploy mode.
+ */
+
+import * as path from 'path';
+import { BUILT_DIR, SLIDES_DIR, SLIMAN_STATE_DIR } from '../constants';
+
+/** Top-level folders the output directory must not be placed in */
+const RESERVED_OUTPUT_DIRS = [SLIDES_DIR, SLIMAN_STATE_DIR, 'node_modules', '.git'];
+
+/**
+ * Normalizes the sliman.json `outputDir` value
+ * @param value - Configured value (anything)
+ * @returns Path relative to the course root with forward slashes and no trailing '/',
+ *   or null if the value is not a string, leaves the course root or points into a reserved folder
+ */
+export function normalizeOutputDir(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const normalized = path.posix.normalize(value.trim().replace(/\\/g, '/')).replace(/\/+$/, '');
+  if (normalized === '' || normalized === '.' || path.posix.isAbsolute(normalized) || /^[a-zA-Z]:/.test(normalized)) {
+    return null;
+  }
+  if (normalized === '..' || normalized.startsWith('../')) {
+    return null;
+  }
+  return RESERVED_OUTPUT_DIRS.includes(normalized.split('/')[0]) ? null : normalized;
+}
+
+/**
+ * Resolves the output directory of a course
+ * @param courseName - Course name from sliman.json
+ * @param deployRoot - Deploy mode
+ * @param outputDir - sliman.json `outputDir` (ignored when invalid)
+ * @returns Path relative to the course root
+ */
+export function resolveOutputDirName(courseName: string, deployRoot: boolean, outputDir?: unknown): string {
+  return normalizeOutputDir(outputDir) ?? (deployRoot ? BUILT_DIR : courseName);
+}
+
+/**
+ * Checks the sliman.json `basePath` value: an absolute URL path with a leading and a trailing
+ * slash whose segments consist of letters, digits and `. _ ~ -` only, without '.' or '..' segments.
+ * The value is passed unquoted to `slidev build --base`, so shell metacharacters are rejected.
+ * @param value - Configured value (anything)
+ */
+export function isValidBasePath(value: unknown): boolean {
+  if (typeof value !== 'string' || !/^\/([A-Za-z0-9._~-]+\/)*$/.test(value)) {
+    return false;
+  }
+  return value.split('/').every((segment) => segment !== '.' && segment !== '..');
+}
+
+/**
+ * Suggests a valid base path for a value with missing or doubled slashes
+ * @param value - Configured value
+ * @returns Corrected base path (e.g. '~staff/web' → '/~staff/web/'), or null if it cannot be fixed
+ */
+export function suggestBasePath(value: string): string | null {
+  const segments = value.trim().replace(/\\/g, '/').split('/').filter((segment) => segment !== '');
+  const suggested = segments.length === 0 ? '/' : `/${segments.join('/')}/`;
+  return isValidBasePath(suggested) ? suggested : null;
+}
+
+/**
+ * Resolves the URL path the course index is served under
+ * @param courseName - Course name from sliman.json
+ * @param deployRoot - Deploy mode
+ * @param basePath - sliman.json `basePath` (ignored when invalid)
+ * @returns basePath when set, otherwise '/' in root deploy mode and '/{courseName}/' in subdir deploy mode
+ */
+export function resolveCourseBasePath(courseName: string, deployRoot: boolean, basePath?: unknown): string {
+  if (typeof basePath === 'string' && isValidBasePath(basePath)) {
+    return basePath;
+  }
+  return deployRoot ? '/' : `/${courseName}/`;
+}
+
+/**
+ * Builds the `--base` of a lecture
+ * @param courseBasePath - Base path of the course (resolveCourseBasePath)
+ * @param lecture - Lecture folder name
+ */
+export function getLectureBasePath(courseBasePath: string, lecture: string): string {
+  return `${courseBasePath}${lecture}/`;
+}
+
+/**
+ * Finds the folder a static server must serve so that the output directory is reachable
+ * under the base path (the output directory path has to end with the base path)
+ * @param outputDirName - Output directory relative to the course root
+ * @param basePath - Base path of the course
+ * @returns Folder relative to the course root ('.' for the root), or null if no folder works
+ * @example getServeRoot('web', '/web/') === '.'; getServeRoot('built', '/') === 'built'
+ */
+export function getServeRoot(outputDirName: string, basePath: string): string | null {
+  const outputSegments = outputDirName.split('/');
+  const baseSegments = basePath.split('/').filter((segment) => segment !== '');
+  const rootLength = outputSegments.length - baseSegments.length;
+  if (rootLength < 0 || outputSegments.slice(rootLength).join('/') !== baseSegments.join('/')) {
+    return null;
+  }
+  return rootLength === 0 ? '.' : outputSegments.slice(0, rootLength).join('/');
+}
+
+/**
+ * Adds or removes the .gitignore entry of the output directory. Subdir deploy builds the
+ * output in CI (it is ignored); root deploy serves the committed output (it is not).
+ * @param content - Current .gitignore content
+ * @param outputDirName - Output directory relative to the course root
+ * @param ignored - Whether the output directory should be ignored
+ * @returns Updated content (unchanged if the entry is already as requested)
+ * @example setOutputDirIgnored('node_modules/\n', 'web', true) === 'node_modules/\n\n# Course specific build directories\nweb/\n'
+ */
+export function setOutputDirIgnored(content: string, outputDirName: string, ignored: boolean): string {
+  const entries = [outputDirName, `${outputDirName}/`, `/${outputDirName}`, `/${outputDirName}/`];
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  const isEntry = (line: string): boolean => entries.includes(line.trim());
+
+  if (lines.some(isEntry) === ignored) {
+    return content;
+  }
+  if (!ignored) {
+    return lines.filter((line) => !isEntry(line)).join(eol);
+  }
+
+  const separator = content === '' ? '' : content.endsWith(eol) ? eol : `${eol}${eol}`;
+  return `${content}${separator}# Course specific build directories${eol}${outputDirName}/${eol}`;
+}
@@ -0,0 +1,85 @@
+/**
+ * Course Portal - index.html at a monorepo root linking every course
+ *
+ * The portal is generated: it starts with PORTAL_MARKER, and a hand-written
+ * index.html without the marker is never overwritten.
+ */
+
+/** First line of a generated portal */
+export const PORTAL_MARKER = '<!-- Generated by sliman: course portal. Changes will be overwritten -->';
+
+/**
+ * One course in the portal
+ */
+export interface PortalCourse {
+  /** Course name from sliman.json */
+  name: string;
+  /** Link to the course index.html, relative to the portal */
+  href: string;
+  /** Number of lectures in slides.json */
+  lectures: number;
+  /** False if the course has not been built yet (no index.html in its output directory) */
+  built: boolean;
+}
+
+/**
+ * Generates the portal page
+ * @param title - Page title (monorepo folder name)
+ * @param courses - Courses in display order
+ * @returns Complete HTML document
+ */
+export function generatePortalHtml(title: string, courses: PortalCourse[]): string {
+  const items = courses.map((course) => {
+    const details = `${course.lectures} ${pluralizeLectures(course.lectures)}${course.built ? '' : ', не собран'}`;
+    return `      <li><a href="${escapeHtml(course.href)}">${escapeHtml(course.name)}</a> (${details})</li>`;
+  });
+
+  return `${PORTAL_MARKER}
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(title)}</title>
+  </head>
+
+  <body>
+    <h1>${escapeHtml(title)}</h1>
+    <h2>Список курсов</h2>
+    <ol id="course_list">
+${items.join('\n')}
+    </ol>
+  </body>
+</html>
+`;
+}
+
+/**
+ * Checks whether an existing index.html is a generated portal (and may be overwritten)
+ * @param content - Current index.html content
+ */
+export function isGeneratedPortal(content: string): boolean {
+  return content.replace(/^\uFEFF/, '').startsWith(PORTAL_MARKER);
+}
+
+/**
+ * Russian plural of "лекция" for a count
+ */
+function pluralizeLectures(count: number): string {
+  const lastTwo = count % 100;
+  const last = count % 10;
+  if (lastTwo >= 11 && lastTwo <= 14) {
+    return 'лекций';
+  }
+  if (last === 1) {
+    return 'лекция';
+  }
+  return last >= 2 && last <= 4 ? 'лекции' : 'лекций';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -2,10 +2,10 @@
  * Process Helper - Unified utility for executing shell commands
  * 
  * Provides cross-platform command execution with streaming output support.
- * Currently uses PowerShell for Windows, with abstractions ready for Unix support.
+ * The executor is chosen from the host platform (Windows or Unix).
  */
 
-import type { ExecOptions } from 'child_process';
+import type { ChildProcess, ExecOptions } from 'child_process';
 import { exec, spawn } from 'child_process';
 import type * as vscode from 'vscode';
 
@@ -47,8 +47,13 @@ export interface ProcessOptions {
   outputChannel?: vscode.OutputChannel;
   /** Whether to use npm (default: true) or pnpm */
   packageManager?: PackageManager;
+  /** Aborting kills the process (execStream only) */
+  signal?: AbortSignal;
 }
 
+/** Exit code reported when a process is stopped through ProcessOptions.signal */
+export const EXIT_CODE_CANCELLED = 130;
+
 /**
  * Stream handler callback for real-time output processing
  */
@@ -81,16 +86,15 @@ export interface ICommandExecutor {
 }
 
 /**
- * Windows-specific command executor
- * Uses PowerShell for command execution
+ * Shared command executor built on child_process with `shell: true`.
+ * Node picks the system shell (cmd.exe on Windows, /bin/sh on Unix),
+ * so platform executors only differ in what they report.
  */
-export class WindowsCommandExecutor implements ICommandExecutor {
+export abstract class ShellCommandExecutor implements ICommandExecutor {
   /**
    * Detects the current platform
    */
-  detectPlatform(): Platform {
-    return 'windows';
-  }
+  abstract detectPlatform(): Platform;
 
   /**
    * Executes a command and returns the result
@@ -157,19 +161,22 @@ export class WindowsCommandExecutor implements ICommandExecutor {
       let completed = false;
       let timeoutHandle: NodeJS.Timeout | null = null;
 
-      // Use spawn for better streaming control
+      // Use spawn for better streaming control.
+      // On POSIX the shell leads its own process group so killProcessTree can signal the whole group.
       const child = spawn(command, [], {
         shell: true,
         cwd,
         env: { ...process.env, ...options?.env },
         stdio: 'pipe',
+        detached: process.platform !== 'win32',
       });
 
       // Set up timeout
       timeoutHandle = setTimeout(() => {
         if (!completed) {
           completed = true;
-          child.kill('SIGTERM');
+          signal?.removeEventListener('abort', onAbort);
+          this.killProcessTree(child);
           resolve({
             success: false,
             stdout,
@@ -179,6 +186,26 @@ export class WindowsCommandExecutor implements ICommandExecutor {
         }
       }, timeout);
 
+      // Cancellation through AbortSignal
+      const onAbort = (): void => {
+        if (completed) return;
+        completed = true;
+        if (timeoutHandle) clearTimeout(timeoutHandle);
+        this.killProcessTree(child);
+        resolve({
+          success: false,
+          stdout,
+          stderr: stderr + '\n[CANCELLED] Command was cancelled',
+          exitCode: EXIT_CODE_CANCELLED,
+        });
+      };
+      const signal = options?.signal;
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       // Helper to write to output channel with timestamp
       const writeToOutput = (text: string) => {
         if (outputChannel) {
@@ -213,6 +240,7 @@ export class WindowsCommandExecutor implements ICommandExecutor {
         if (completed) return;
         completed = true;
         if (timeoutHandle) clearTimeout(timeoutHandle);
+        signal?.removeEventListener('abort', onAbort);
 
         resolve({
           success: code === 0,
@@ -227,6 +255,7 @@ export class WindowsCommandExecutor implements ICommandExecutor {
         if (completed) return;
         completed = true;
         if (timeoutHandle) clearTimeout(timeoutHandle);
+        signal?.removeEventListener('abort', onAbort);
 
         resolve({
           success: false,
@@ -238,6 +267,27 @@ export class WindowsCommandExecutor implements ICommandExecutor {
     });
   }
 
+  /**
+   * Stops a process started with `shell: true` together with its children.
+   * Killing only the shell leaves node/npx running: on Windows the whole tree is killed with taskkill,
+   * on POSIX SIGTERM is sent to the process group the shell leads (spawned with `detached`).
+   */
+  private killProcessTree(child: ChildProcess): void {
+    if (child.pid === undefined) {
+      return;
+    }
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' });
+      return;
+    }
+    try {
+      process.kill(-child.pid, 'SIGTERM');
+    } catch {
+      // The group is already gone; fall back to the shell itself
+      child.kill('SIGTERM');
+    }
+  }
+
   /**
    * Executes a package manager script (npm or pnpm)
    */
@@ -258,52 +308,26 @@ export class WindowsCommandExecutor implements ICommandExecutor {
 }
 
 /**
- * Unix command executor placeholder
- * Ready for future Unix support without API changes
+ * Windows command executor
  */
-export class UnixCommandExecutor implements ICommandExecutor {
+export class WindowsCommandExecutor extends ShellCommandExecutor {
   /**
    * Detects the current platform
    */
   detectPlatform(): Platform {
-    return 'unix';
-  }
-
-  /**
-   * Executes a command and returns the result
-   */
-  async exec(command: string, options?: ProcessOptions): Promise<ProcessResult> {
-    // Placeholder for Unix implementation
-    // Will use bash -c for command execution
-    // Suppress unused parameter warnings for future implementation
-    void command;
-    void options;
-    throw new Error('Unix executor not yet implemented');
-  }
-
-  /**
-   * Executes a command with streaming output
-   */
-  async execStream(command: string, options?: ProcessOptions, handler?: StreamHandler): Promise<ProcessResult> {
-    // Placeholder for Unix implementation
-    // Suppress unused parameter warnings for future implementation
-    void command;
-    void options;
-    void handler;
-    throw new Error('Unix executor not yet implemented');
+    return 'windows';
   }
+}
 
+/**
+ * Unix command executor (Linux, macOS)
+ */
+export class UnixCommandExecutor extends ShellCommandExecutor {
   /**
-   * Executes a package manager script
+   * Detects the current platform
    */
-  async execPackageManager(script: string, cwd: string, args: string[], options?: ProcessOptions): Promise<ProcessResult> {
-    // Placeholder for Unix implementation
-    // Suppress unused parameter warnings for future implementation
-    void script;
-    void cwd;
-    void args;
-    void options;
-    throw new Error('Unix executor not yet implemented');
+  detectPlatform(): Platform {
+    return 'unix';
   }
 }
 
@@ -320,8 +344,9 @@ export class ProcessHelper {
    */
   private static getExecutor(): ICommandExecutor {
     if (!this.executor) {
-      // Default to Windows executor
-      this.executor = new WindowsCommandExecutor();
+      this.executor = process.platform === 'win32'
+        ? new WindowsCommandExecutor()
+        : new UnixCommandExecutor();
     }
     return this.executor;
   }
@@ -0,0 +1,248 @@
+/**
+ * Shell Commands - Builds shell-specific command lines for VS Code terminals
+ *
+ * Terminal builds type plain text into whatever shell the terminal runs
+ * (PowerShell on Windows, bash/zsh on Linux and macOS, sometimes cmd.exe),
+ * so every file operation has to be spelled in that shell's syntax.
+ */
+
+import * as vscode from 'vscode';
+import type { Platform } from './process';
+import { ProcessHelper } from './process';
+
+/**
+ * Shell families supported by terminal builds
+ */
+export type ShellKind = 'powershell' | 'posix' | 'cmd';
+
+/**
+ * Produces command lines for one shell family.
+ * Every method returns a single line suitable for terminal.sendText.
+ */
+export interface IShellCommandBuilder {
+  /** Shell family this builder targets */
+  readonly kind: ShellKind;
+
+  /** Changes the current directory */
+  changeDirectory(dirPath: string): string;
+
+  /** Removes a directory recursively, ignoring a missing directory */
+  removeDirectory(dirPath: string): string;
+
+  /** Copies the contents of source into destination, only if source exists */
+  copyDirectoryContentsIfExists(source: string, destination: string): string;
+
+  /** Writes text content to a file, overwriting it */
+  writeFile(filePath: string, content: string): string;
+
+  /** Joins commands so each one runs only if the previous one succeeded */
+  chainOnSuccess(commands: string[]): string;
+
+  /** Stores the exit code of the previous command (the build) in a shell variable */
+  captureExitCode(): string;
+
+  /** Runs a command only if the captured build exit code is 0 */
+  ifBuildSucceeded(command: string): string;
+
+  /**
+   * Writes a build status file from the captured exit code:
+   * {"status":"done","exitCode":0} or {"status":"failed","exitCode":N,"error":"..."}
+   */
+  writeBuildStatus(filePath: string): string;
+}
+
+/** Status JSON written when the captured exit code is 0 */
+const STATUS_DONE_JSON = '{"status":"done","exitCode":0}';
+
+/**
+ * PowerShell (Windows PowerShell 5.x and pwsh 7+)
+ */
+export class PowerShellCommandBuilder implements IShellCommandBuilder {
+  readonly kind: ShellKind = 'powershell';
+
+  /** Single-quoted literal: no variable expansion, quotes are doubled */
+  private quote(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+
+  changeDirectory(dirPath: string): string {
+    return `Set-Location -LiteralPath ${this.quote(dirPath)}`;
+  }
+
+  removeDirectory(dirPath: string): string {
+    return `Remove-Item -LiteralPath ${this.quote(dirPath)} -Recurse -Force -ErrorAction SilentlyContinue`;
+  }
+
+  copyDirectoryContentsIfExists(source: string, destination: string): string {
+    // "source/." copies all contents including subdirectories
+    const sourceContents = `${source.replace(/[\\/]+$/, '')}/.`;
+    return `if (Test-Path -LiteralPath ${this.quote(source)}) { Copy-Item -Path ${this.quote(sourceContents)} -Destination ${this.quote(destination)} -Recurse -Force }`;
+  }
+
+  writeFile(filePath: string, content: string): string {
+    return `Set-Content -LiteralPath ${this.quote(filePath)} -Value ${this.quote(content)}`;
+  }
+
+  chainOnSuccess(commands: string[]): string {
+    // `&&` is not available in Windows PowerShell 5.x, so nest on $?
+    return commands.reduceRight((rest, command) => `${command}; if ($?) { ${rest} }`);
+  }
+
+  captureExitCode(): string {
+    // $LASTEXITCODE is stale when the command could not be started at all
+    return '$slimanBuildExit = if ($?) { 0 } elseif ($LASTEXITCODE) { $LASTEXITCODE } else { 1 }';
+  }
+
+  ifBuildSucceeded(command: string): string {
+    return `if ($slimanBuildExit -eq 0) { ${command} }`;
+  }
+
+  writeBuildStatus(filePath: string): string {
+    const target = this.quote(filePath);
+    const failed = `('{"status":"failed","exitCode":' + $slimanBuildExit + ',"error":"slidev build exited with code ' + $slimanBuildExit + '"}')`;
+    return `if ($slimanBuildExit -eq 0) { Set-Content -LiteralPath ${target} -Value ${this.quote(STATUS_DONE_JSON)} } else { Set-Content -LiteralPath ${target} -Value ${failed} }`;
+  }
+}
+
+/**
+ * POSIX shells (sh, bash, zsh, dash, ksh)
+ */
+export class PosixCommandBuilder implements IShellCommandBuilder {
+  readonly kind: ShellKind = 'posix';
+
+  /** Single-quoted literal: embedded quotes are closed, escaped and reopened */
+  private quote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+
+  changeDirectory(dirPath: string): string {
+    return `cd ${this.quote(dirPath)}`;
+  }
+
+  removeDirectory(dirPath: string): string {
+    return `rm -rf ${this.quote(dirPath)}`;
+  }
+
+  copyDirectoryContentsIfExists(source: string, destination: string): string {
+    const sourceContents = `${source.replace(/\/+$/, '')}/.`;
+    return `if [ -d ${this.quote(source)} ]; then mkdir -p ${this.quote(destination)} && cp -R ${this.quote(sourceContents)} ${this.quote(destination)}; fi`;
+  }
+
+  writeFile(filePath: string, content: string): string {
+    return `printf '%s\\n' ${this.quote(content)} > ${this.quote(filePath)}`;
+  }
+
+  chainOnSuccess(commands: string[]): string {
+    return commands.join(' && ');
+  }
+
+  captureExitCode(): string {
+    return 'SLIMAN_BUILD_EXIT=$?';
+  }
+
+  ifBuildSucceeded(command: string): string {
+    return `if [ "$SLIMAN_BUILD_EXIT" -eq 0 ]; then ${command}; fi`;
+  }
+
+  writeBuildStatus(filePath: string): string {
+    const target = this.quote(filePath);
+    const failedFormat = this.quote('{"status":"failed","exitCode":%s,"error":"slidev build exited with code %s"}\n');
+    return `if [ "$SLIMAN_BUILD_EXIT" -eq 0 ]; then ${this.writeFile(filePath, STATUS_DONE_JSON)}; else printf ${failedFormat} "$SLIMAN_BUILD_EXIT" "$SLIMAN_BUILD_EXIT" > ${target}; fi`;
+  }
+}
+
+/**
+ * Windows Command Prompt (cmd.exe)
+ */
+export class CmdCommandBuilder implements IShellCommandBuilder {
+  readonly kind: ShellKind = 'cmd';
+
+  /** Paths cannot contain double quotes on Windows, so plain quoting is enough */
+  private quote(value: string): string {
+    return `"${value}"`;
+  }
+
+  /** Escapes cmd metacharacters in unquoted echo text */
+  private escapeEcho(value: string): string {
+    return value.replace(/[\^&|<>()%]/g, (char) => (char === '%' ? '%%' : `^${char}`));
+  }
+
+  changeDirectory(dirPath: string): string {
+    return `cd /d ${this.quote(dirPath)}`;
+  }
+
+  removeDirectory(dirPath: string): string {
+    return `if exist ${this.quote(dirPath)} rmdir /s /q ${this.quote(dirPath)}`;
+  }
+
+  copyDirectoryContentsIfExists(source: string, destination: string): string {
+    // Trailing backslash tells xcopy the destination is a directory
+    const destinationDir = destination.endsWith('\\') ? destination : `${destination}\\`;
+    return `if exist ${this.quote(source)} xcopy ${this.quote(source)} ${this.quote(destinationDir)} /e /i /y /q >nul`;
+  }
+
+  writeFile(filePath: string, content: string): string {
+    return `> ${this.quote(filePath)} echo ${this.escapeEcho(content)}`;
+  }
+
+  chainOnSuccess(commands: string[]): string {
+    return commands.join(' && ');
+  }
+
+  captureExitCode(): string {
+    return 'set SLIMAN_BUILD_EXIT=%ERRORLEVEL%';
+  }
+
+  ifBuildSucceeded(command: string): string {
+    return `if "%SLIMAN_BUILD_EXIT%"=="0" ${command}`;
+  }
+
+  writeBuildStatus(filePath: string): string {
+    // %SLIMAN_BUILD_EXIT% is expanded when the line is parsed, after the capture line ran
+    const failed = '{"status":"failed","exitCode":%SLIMAN_BUILD_EXIT%,"error":"slidev build exited with code %SLIMAN_BUILD_EXIT%"}';
+    return `if "%SLIMAN_BUILD_EXIT%"=="0" (${this.writeFile(filePath, STATUS_DONE_JSON)}) else (> ${this.quote(filePath)} echo ${failed})`;
+  }
+}
+
+/**
+ * Detects the shell family from a shell executable path.
+ * Falls back to the platform default when the path is empty or unknown.
+ * @param shellPath - Shell executable (defaults to the terminal profile shell, vscode.env.shell)
+ * @param platform - Platform used for the fallback (defaults to ProcessHelper.detectPlatform())
+ * @returns The detected shell family
+ */
+export function detectShellKind(
+  shellPath: string = vscode.env.shell,
+  platform: Platform = ProcessHelper.detectPlatform()
+): ShellKind {
+  // Handle both separators: a Windows shell path may be inspected on any OS
+  const executable = (shellPath || '').split(/[\\/]/).pop()?.toLowerCase().replace(/\.exe$/, '') ?? '';
+
+  if (executable === 'pwsh' || executable === 'powershell' || executable.startsWith('pwsh-')) {
+    return 'powershell';
+  }
+  if (executable === 'cmd') {
+    return 'cmd';
+  }
+  if (['sh', 'bash', 'zsh', 'dash', 'ksh', 'ash', 'mksh'].includes(executable)) {
+    return 'posix';
+  }
+
+  return platform === 'windows' ? 'powershell' : 'posix';
+}
+
+/**
+ * Creates the command builder for a shell family
+ * @param kind - Shell family
+ * @returns Command builder for that family
+ */
+export function createShellCommandBuilder(kind: ShellKind): IShellCommandBuilder {
+  switch (kind) {
+    case 'powershell':
+      return new PowerShellCommandBuilder();
+    case 'cmd':
+      return new CmdCommandBuilder();
+    case 'posix':
+      return new PosixCommandBuilder();
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * sliman.json Migrations - Ordered upgrade steps between schemaVersion values
+ *
+ * Files without `schemaVersion` are version 0. Each migration upgrades exactly one
+ * version and works on the raw JSON object, so fields it does not know about are kept.
+ * Migrations run only when asked for (CourseManager.migrateSlimanConfig), never on read.
+ */
+
+import { SLIMAN_SCHEMA_VERSION } from '../constants';
+
+/** Raw sliman.json content (known and unknown fields) */
+export type RawSlimanConfig = Record<string, unknown>;
+
+/**
+ * One upgrade step: from version `from` to `from + 1`
+ */
+export interface SlimanMigration {
+  from: number;
+  description: string;
+  migrate: (config: RawSlimanConfig) => RawSlimanConfig;
+}
+
+/** All migrations in version order */
+export const SLIMAN_MIGRATIONS: readonly SlimanMigration[] = [
+  {
+    from: 0,
+    description: 'Store deployRoot explicitly (false when missing)',
+    migrate: (config) => ({ ...config, deployRoot: typeof config.deployRoot === 'boolean' ? config.deployRoot : false }),
+  },
+];
+
+/**
+ * Gets the schema version of a raw config (0 when the field is missing)
+ * @param config - Raw sliman.json content
+ */
+export function getSlimanSchemaVersion(config: RawSlimanConfig): number {
+  const version = config.schemaVersion;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0;
+}
+
+/**
+ * Runs the migrations between the config version and the target version
+ * @param config - Raw sliman.json content (not modified)
+ * @param migrations - Migration list (defaults to SLIMAN_MIGRATIONS)
+ * @param targetVersion - Version to migrate to (defaults to SLIMAN_SCHEMA_VERSION)
+ * @returns Migrated config (with schemaVersion set) and the descriptions of applied steps
+ * @throws Error if the config is newer than the target or a migration step is missing
+ */
+export function runSlimanMigrations(
+  config: RawSlimanConfig,
+  migrations: readonly SlimanMigration[] = SLIMAN_MIGRATIONS,
+  targetVersion: number = SLIMAN_SCHEMA_VERSION
+): { config: RawSlimanConfig; applied: string[] } {
+  let version = getSlimanSchemaVersion(config);
+  if (version > targetVersion) {
+    throw new Error(`sliman.json has schemaVersion ${version}, this extension supports up to ${targetVersion}. Update the extension`);
+  }
+
+  let result = { ...config };
+  const applied: string[] = [];
+  while (version < targetVersion) {
+    const migration = migrations.find((step) => step.from === version);
+    if (!migration) {
+      throw new Error(`No sliman.json migration from schemaVersion ${version}`);
+    }
+    result = { ...migration.migrate(result), schemaVersion: version + 1 };
+    applied.push(`v${version} → v${version + 1}: ${migration.description}`);
+    version++;
+  }
+
+  return { config: result, applied };
+}